@@ -6,12 +6,17 @@ import { useResponsive } from '@/hooks/useResponsive';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useGoogleCalendar } from '@/contexts/GoogleCalendarContext';
 import { useGoogleAuth } from '@/contexts/GoogleAuthContext';
-import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGoogleSync } from '@/contexts/GoogleSyncContext';
 import { CalendarHeader } from '@/components/calendar/CalendarHeader';
 import { WeekView } from '@/components/calendar/WeekView';
+import { GoogleSyncConflicts } from '@/components/calendar/GoogleSyncConflicts';
 import { ResizableSidebar } from '@/components/layout/ResizableSidebar';
 import { EventDisplayCard } from '@/components/calendar/EventDisplayCard';
 import { Event } from '@/types/event';
+import { expandEvents, mergeDuplicateEvents } from '@universify/shared';
+import { canImportICS, exportEventsToICS, importEventsFromICS, subscribeToFeed } from '@/lib/ics';
+import { syncScheduleFeedAPI } from '@/lib/api';
 import {
   getWeekKey,
   getScheduledEventIds,
@@ -21,11 +26,13 @@ import {
 } from '@/utils/scheduledEvents';
 
 export default function CalendarScreen() {
-  const { events, isLoading } = useEvents();
+  const { events, isLoading, addExternalEvents } = useEvents();
   const { settings, updateSettings } = useSettings();
   const { isMobile, isDesktop } = useResponsive();
   const { googleEvents, isLoading: isGoogleLoading } = useGoogleCalendar();
-  const { isGoogleAuthenticated, googleSession, providerToken, refreshSession } = useGoogleAuth();
+  const { isGoogleAuthenticated } = useGoogleAuth();
+  const { addToGoogleCalendar, removeFromGoogleCalendar, linkedEventIdOf } = useGoogleSync();
+  const { currentUser } = useAuth();
   
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [scheduledEventIds, setScheduledEventIds] = useState<string[]>([]);
@@ -102,28 +109,41 @@ export default function CalendarScreen() {
     }
   }, [events, weekKey]);
 
-  // Filter Google events for the current view
-  const googleViewEvents = useMemo(() => {
-    if (displayDays.length === 0) return [];
+  // First and last moment of the current view
+  const viewRange = useMemo(() => {
+    if (displayDays.length === 0) return null;
     const viewStart = new Date(displayDays[0]);
     viewStart.setHours(0,0,0,0);
     const viewEnd = new Date(displayDays[displayDays.length - 1]);
     viewEnd.setHours(23,59,59,999);
-    
+    return { viewStart, viewEnd };
+  }, [displayDays]);
+
+  // Filter Google events for the current view; a copy of a scheduled event is shown as that event
+  const googleViewEvents = useMemo(() => {
+    if (!viewRange) return [];
+    const { viewStart, viewEnd } = viewRange;
+
     return googleEvents.filter(event => {
+         const linkedEventId = linkedEventIdOf(event.id);
+         if (linkedEventId && scheduledEventIds.includes(linkedEventId)) return false;
          const eventStart = new Date(event.startTime);
          const eventEnd = new Date(event.endTime);
          return eventStart <= viewEnd && eventEnd >= viewStart;
     });
-  }, [googleEvents, displayDays]);
+  }, [googleEvents, viewRange, linkedEventIdOf, scheduledEventIds]);
 
   // Get events to display in the calendar
-  // Merge local scheduled events with Google events
+  // Merge local scheduled events with Google events; a Google copy of a
+  // scheduled event is folded into it rather than shown twice
   const weekEvents = useMemo(() => {
-    // Local events: only show if scheduled
-    const local = events.filter((event) => scheduledEventIds.includes(event.id));
-    return [...local, ...googleViewEvents];
-  }, [events, scheduledEventIds, googleViewEvents]);
+    // Local events: only show if scheduled; recurring ones as their occurrences in view
+    const scheduled = events.filter((event) => scheduledEventIds.includes(event.id));
+    const local = viewRange
+      ? expandEvents(scheduled, viewRange.viewStart, new Date(viewRange.viewEnd.getTime() + 1))
+      : scheduled;
+    return mergeDuplicateEvents([...local, ...googleViewEvents]);
+  }, [events, scheduledEventIds, googleViewEvents, viewRange]);
 
   // Get all scheduled event IDs across all weeks to calculate relevance
   const allScheduledEventIds = useMemo(() => {
@@ -215,83 +235,83 @@ export default function CalendarScreen() {
 
   const handleEventPress = (event: Event) => {
     if (isDesktop) {
-      // Toggle expansion
-      setExpandedCardId(prevId => prevId === event.id ? null : event.id);
+      // Toggle expansion (the sidebar lists a recurring event once, by its series id)
+      const cardId = event.seriesId ?? event.id;
+      setExpandedCardId(prevId => prevId === cardId ? null : cardId);
     } else {
       setSelectedEvent(event);
     }
   };
 
+  // .ics export of what's on screen, or of everything scheduled in any week
+  const handleExportView = () => {
+    exportEventsToICS(weekEvents, `Universify ${weekKey}`);
+  };
+
+  const handleExportScheduled = () => {
+    exportEventsToICS(events.filter((e) => allScheduledEventIds.includes(e.id)), 'Universify scheduled events');
+  };
+
+  // Send the schedule to the user's calendar feed, so subscribed calendars follow it
+  const syncScheduleFeed = async () => {
+    if (!currentUser) return null;
+    const ids = getAllScheduledEventIds();
+    return syncScheduleFeedAPI(currentUser.id, ids, events.filter((e) => ids.includes(e.id)));
+  };
+
+  const updateScheduleFeed = () => {
+    syncScheduleFeed().catch((error) => console.warn('Could not update the schedule feed:', error));
+  };
+
+  const handleSubscribe = async () => {
+    try {
+      const links = await syncScheduleFeed();
+      if (!links) {
+        alert('Sign in to subscribe to your schedule');
+        return;
+      }
+      await subscribeToFeed(links);
+    } catch (error) {
+      console.error('Failed to open the schedule feed:', error);
+      alert('Could not reach the calendar feed server');
+    }
+  };
+
+  // Imported events are scheduled in the week they start, so they show up on the calendar
+  const handleImport = async () => {
+    try {
+      const imported = await importEventsFromICS();
+      if (!imported) return;
+      if (imported.length === 0) {
+        alert('No events found in that file');
+        return;
+      }
+      addExternalEvents(imported);
+      imported.forEach((event) => scheduleEvent(event.id, getWeekKey(new Date(event.startTime))));
+      setScheduledEventIds([...getScheduledEventIds(weekKey)]);
+      updateScheduleFeed();
+      alert(`Imported ${imported.length} event${imported.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to import .ics file:', error);
+      alert('Could not read that calendar file');
+    }
+  };
+
   const handleScheduleEvent = async (event: Event) => {
     // Schedule locally
     scheduleEvent(event.id, weekKey);
     const updatedIds = getScheduledEventIds(weekKey);
     setScheduledEventIds([...updatedIds]); 
+    updateScheduleFeed();
 
-    // Sync to Google Calendar if authenticated
+    // Add it to Google Calendar too; later edits on either side are synced (see GoogleSyncContext)
     if (isGoogleAuthenticated) {
-      // Refresh session first to ensure we have the latest provider_token
-      await refreshSession();
-      
-      // Get fresh session after refresh
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      // Use provider_token from fresh session
-      const token = session?.provider_token || providerToken || googleSession?.provider_token;
-      
-      if (!token) {
-        console.error('No provider_token available after refresh');
-        alert("No Google access token from Supabase. Try signing in again.");
-        return;
-      }
-
-      // Build event object for Google API
-      const start = new Date(event.startTime);
-      const end = new Date(event.endTime);
-
-      const googleEvent = {
-        summary: event.title,
-        description: event.description,
-        start: {
-          dateTime: start.toISOString(),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        },
-        end: {
-          dateTime: end.toISOString(),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        },
-      };
-
-      if (event.location) {
-        (googleEvent as any).location = event.location;
-      }
-
       try {
-        const res = await fetch(
-          "https://www.googleapis.com/calendar/v3/calendars/primary/events",
-          {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${token}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify(googleEvent),
-          }
-        );
-
-        const json = await res.json();
-
-        if (!res.ok) {
-          console.error("Google Calendar error:", json);
-          alert(`Could not create event: ${json.error?.message || res.statusText}`);
-          return;
-        }
-
-        console.log("Created event in Google Calendar:", json);
+        await addToGoogleCalendar(event);
         alert("Event added to Google Calendar ✅");
       } catch (err) {
-        console.error("Network error:", err);
-        alert("Network error talking to Google Calendar");
+        console.error("Google Calendar error:", err);
+        alert(`Could not create event: ${err instanceof Error ? err.message : 'Network error talking to Google Calendar'}`);
       }
     }
   };
@@ -300,6 +320,11 @@ export default function CalendarScreen() {
     unscheduleEvent(event.id, weekKey);
     const updatedIds = getScheduledEventIds(weekKey);
     setScheduledEventIds([...updatedIds]);
+    updateScheduleFeed();
+    // Once no week has it, its Google Calendar copy goes too, and stops syncing
+    if (!getAllScheduledEventIds().includes(event.id)) {
+      removeFromGoogleCalendar(event.id);
+    }
   };
 
   // Navigation handlers
@@ -371,9 +396,26 @@ export default function CalendarScreen() {
                       />
                       <Text style={styles.customDaysLabel}>Days</Text>
                   </View>
+
+                  <TouchableOpacity style={[styles.viewButton, styles.fileButton]} onPress={handleExportView}>
+                      <Text style={styles.viewButtonText}>{viewDays === 7 ? 'Export Week' : 'Export View'}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.viewButton} onPress={handleExportScheduled}>
+                      <Text style={styles.viewButtonText}>Export Scheduled</Text>
+                  </TouchableOpacity>
+                  {canImportICS && (
+                    <TouchableOpacity style={styles.viewButton} onPress={handleImport}>
+                        <Text style={styles.viewButtonText}>Import .ics</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.viewButton} onPress={handleSubscribe}>
+                      <Text style={styles.viewButtonText}>Subscribe</Text>
+                  </TouchableOpacity>
               </View>
           </View>
 
+          <GoogleSyncConflicts />
+
           {(isLoading || isGoogleLoading) ? (
             <View style={styles.calendarLoadingContainer}>
               <ActivityIndicator size="large" color="#FF6B6B" />
@@ -523,6 +565,9 @@ const styles = StyleSheet.create({
       borderRadius: 6,
       backgroundColor: '#F3F4F6',
   },
+  fileButton: {
+      marginLeft: 8,
+  },
   viewButtonActive: {
       backgroundColor: '#FF6B6B',
   },
@@ -26,6 +26,7 @@ export default function ProfileScreen() {
   const slack = useSlack();
   const [activeTab, setActiveTab] = useState<ProfileTab>('activity');
   const [botUrlInput, setBotUrlInput] = useState(slack.config.botUrl);
+  const [apiKeyInput, setApiKeyInput] = useState(slack.config.apiKey);
 
   if (!currentUser) {
     return null;
@@ -106,6 +107,20 @@ export default function ProfileScreen() {
               Import events from your Slack workspace channels (e.g. #announcements)
             </Text>
 
+            {/* API key (issued by the bot, e.g. from its OAuth install page) */}
+            <View style={slackStyles.inputRow}>
+              <TextInput
+                style={slackStyles.input}
+                value={apiKeyInput}
+                onChangeText={setApiKeyInput}
+                placeholder="Bot API key"
+                placeholderTextColor="#9CA3AF"
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+              />
+            </View>
+
             {/* Bot URL */}
             <View style={slackStyles.inputRow}>
               <TextInput
@@ -121,6 +136,7 @@ export default function ProfileScreen() {
                 style={[slackStyles.button, slack.isConnecting && slackStyles.buttonDisabled]}
                 onPress={() => {
                   slack.setBotUrl(botUrlInput.trim());
+                  slack.setApiKey(apiKeyInput.trim());
                   setTimeout(() => slack.connect(), 100);
                 }}
                 disabled={slack.isConnecting}
@@ -170,7 +186,7 @@ export default function ProfileScreen() {
                         >
                           <View style={{ flex: 1, marginRight: 12 }}>
                             <Text style={[slackStyles.channelName, isSelected && slackStyles.channelNameSelected]}>
-                              #{channel.name}
+                              {channel.isPrivate ? '🔒 ' : '#'}{channel.name}
                             </Text>
                             {channel.purpose ? (
                               <Text style={slackStyles.channelPurpose} numberOfLines={1}>
@@ -4,6 +4,7 @@ import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useSlack } from '@/contexts/SlackContext';
+import { useFeedSources } from '@/contexts/FeedSourcesContext';
 import { CategoryPill } from '@/components/ui/CategoryPill';
 import { EventCategory } from '@/types/event';
 
@@ -27,6 +28,11 @@ export default function PreferencesScreen() {
   const { settings, updateSettings } = useSettings();
   const slack = useSlack();
   const [botUrlInput, setBotUrlInput] = useState(slack.config.botUrl);
+  const [apiKeyInput, setApiKeyInput] = useState(slack.config.apiKey);
+  const feeds = useFeedSources();
+  const [feedUrlInput, setFeedUrlInput] = useState('');
+  const [feedNameInput, setFeedNameInput] = useState('');
+  const [isAddingFeed, setIsAddingFeed] = useState(false);
 
   if (!currentUser) return null;
 
@@ -43,6 +49,18 @@ export default function PreferencesScreen() {
     });
   };
 
+  const addFeed = async () => {
+    if (!feedUrlInput.trim()) return;
+    setIsAddingFeed(true);
+    try {
+      await feeds.addSource(feedUrlInput, feedNameInput);
+      setFeedUrlInput('');
+      setFeedNameInput('');
+    } finally {
+      setIsAddingFeed(false);
+    }
+  };
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -172,6 +190,20 @@ export default function PreferencesScreen() {
           Import events from your Slack workspace channels (e.g. #announcements)
         </Text>
 
+        {/* API key (issued by the bot, e.g. from its OAuth install page) */}
+        <View style={styles.slackInputRow}>
+          <TextInput
+            style={styles.slackInput}
+            value={apiKeyInput}
+            onChangeText={setApiKeyInput}
+            placeholder="Bot API key"
+            placeholderTextColor="#9CA3AF"
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+        </View>
+
         {/* Bot URL */}
         <View style={styles.slackInputRow}>
           <TextInput
@@ -187,6 +219,7 @@ export default function PreferencesScreen() {
             style={[styles.slackButton, slack.isConnecting && styles.slackButtonDisabled]}
             onPress={() => {
               slack.setBotUrl(botUrlInput.trim());
+              slack.setApiKey(apiKeyInput.trim());
               setTimeout(() => slack.connect(), 100);
             }}
             disabled={slack.isConnecting}
@@ -236,7 +269,7 @@ export default function PreferencesScreen() {
                     >
                       <View style={styles.slackChannelInfo}>
                         <Text style={[styles.slackChannelName, isSelected && styles.slackChannelNameSelected]}>
-                          #{channel.name}
+                          {channel.isPrivate ? '🔒 ' : '#'}{channel.name}
                         </Text>
                         {channel.purpose ? (
                           <Text style={styles.slackChannelPurpose} numberOfLines={1}>
@@ -310,6 +343,96 @@ export default function PreferencesScreen() {
             )}
           </>
         )}
+
+        {/* ─── Event Feeds ─── */}
+        <View style={styles.slackDivider} />
+        <Text style={styles.sectionTitle}>Event Feeds</Text>
+        <Text style={styles.sectionDescription}>
+          Add iCal (.ics) or RSS feeds that campus offices publish. Feeds are checked every 30 minutes
+        </Text>
+
+        <View style={styles.feedInputRow}>
+          <TextInput
+            style={styles.feedInput}
+            value={feedUrlInput}
+            onChangeText={setFeedUrlInput}
+            placeholder="https://… or webcal://… feed URL"
+            placeholderTextColor="#9CA3AF"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+        </View>
+        <View style={styles.feedInputRow}>
+          <TextInput
+            style={styles.feedInput}
+            value={feedNameInput}
+            onChangeText={setFeedNameInput}
+            placeholder="Name (optional)"
+            placeholderTextColor="#9CA3AF"
+          />
+          <TouchableOpacity
+            style={[styles.feedButton, (isAddingFeed || !feedUrlInput.trim()) && styles.slackButtonDisabled]}
+            onPress={addFeed}
+            disabled={isAddingFeed || !feedUrlInput.trim()}
+          >
+            {isAddingFeed ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.slackButtonText}>Add Feed</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {feeds.sources.map((source) => {
+          const status = feeds.statuses[source.id];
+          const isSyncing = feeds.syncingIds.includes(source.id);
+          return (
+            <View key={source.id} style={styles.feedSource}>
+              <View style={styles.feedSourceHeader}>
+                <View style={styles.feedSourceInfo}>
+                  <Text style={styles.feedSourceName} numberOfLines={1}>{source.name}</Text>
+                  <Text style={styles.feedSourceUrl} numberOfLines={1}>{source.url}</Text>
+                </View>
+                <Switch
+                  value={source.enabled}
+                  onValueChange={(enabled) => feeds.setSourceEnabled(source.id, enabled)}
+                  trackColor={{ false: '#D1D5DB', true: '#14B8A6' }}
+                />
+              </View>
+
+              {status?.error ? (
+                <Text style={styles.slackErrorText}>{status.error}</Text>
+              ) : status?.lastSyncTime ? (
+                <Text style={styles.slackImportStatusText}>
+                  Last sync: {new Date(status.lastSyncTime).toLocaleString()} ({status.eventCount} events)
+                </Text>
+              ) : null}
+
+              <View style={styles.feedSourceActions}>
+                {isSyncing ? (
+                  <ActivityIndicator size="small" color="#14B8A6" />
+                ) : (
+                  <TouchableOpacity
+                    onPress={() => feeds.syncSource(source.id)}
+                    disabled={!source.enabled}
+                  >
+                    <Text style={[styles.feedSourceAction, !source.enabled && styles.slackButtonDisabled]}>Sync now</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => feeds.removeSource(source.id)}>
+                  <Text style={styles.feedSourceRemove}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+
+        {feeds.sources.length > 1 && (
+          <TouchableOpacity style={styles.feedSyncAllButton} onPress={() => feeds.syncAll()}>
+            <Text style={styles.feedSyncAllText}>Sync All Feeds</Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
     </View>
   );
@@ -577,5 +700,85 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     fontSize: 14,
   },
+
+  // ─── Event Feeds styles ───
+  feedInputRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  feedInput: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  feedButton: {
+    backgroundColor: '#14B8A6',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+    minWidth: 90,
+  },
+  feedSource: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 6,
+  },
+  feedSourceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  feedSourceInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  feedSourceName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  feedSourceUrl: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  feedSourceActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  feedSourceAction: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#0F766E',
+  },
+  feedSourceRemove: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#DC2626',
+  },
+  feedSyncAllButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#14B8A6',
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 4,
+    marginBottom: 24,
+  },
+  feedSyncAllText: {
+    color: '#0F766E',
+    fontWeight: '500',
+    fontSize: 14,
+  },
 });
 
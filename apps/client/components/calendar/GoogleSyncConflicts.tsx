@@ -0,0 +1,138 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useGoogleSync } from '@/contexts/GoogleSyncContext';
+import { GoogleSyncedFields } from '@/lib/googleCalendar';
+import { SyncSide } from '@/lib/googleSync';
+
+const FIELD_LABELS: Record<keyof GoogleSyncedFields, string> = {
+  title: 'Title',
+  description: 'Description',
+  location: 'Location',
+  startTime: 'Starts',
+  endTime: 'Ends',
+};
+
+function formatValue(field: keyof GoogleSyncedFields, value: string): string {
+  if (field === 'startTime' || field === 'endTime') return new Date(value).toLocaleString();
+  return value || '(empty)';
+}
+
+/**
+ * Events edited both in Universify and in Google Calendar since they last
+ * synced. Each asks the user which version to keep, suggesting the newer one;
+ * events the user doesn't organize can only take Universify's.
+ */
+export const GoogleSyncConflicts: React.FC = () => {
+  const { conflicts, resolveConflict } = useGoogleSync();
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {conflicts.map((conflict) => {
+        const button = (side: SyncSide, label: string) => {
+          const suggested = conflict.canKeepGoogle && conflict.suggested === side;
+          return (
+            <TouchableOpacity
+              style={[styles.button, suggested && styles.buttonSuggested]}
+              onPress={() => resolveConflict(conflict.eventId, side)}
+            >
+              <Text style={[styles.buttonText, suggested && styles.buttonTextSuggested]}>
+                {label}{suggested ? ' (newer)' : ''}
+              </Text>
+            </TouchableOpacity>
+          );
+        };
+
+        return (
+          <View key={conflict.eventId} style={styles.card}>
+            <Text style={styles.title}>
+              “{conflict.title}” was changed in both Universify and Google Calendar
+            </Text>
+            {conflict.fields.map((field) => (
+              <View key={field} style={styles.field}>
+                <Text style={styles.fieldLabel}>{FIELD_LABELS[field]}</Text>
+                <Text style={styles.fieldValue} numberOfLines={2}>
+                  Universify: {formatValue(field, conflict.universify[field])}
+                </Text>
+                <Text style={styles.fieldValue} numberOfLines={2}>
+                  Google: {formatValue(field, conflict.google[field])}
+                </Text>
+              </View>
+            ))}
+            {!conflict.canKeepGoogle && (
+              <Text style={styles.note}>
+                Only the organizer can change this event, so Google Calendar edits can&apos;t be applied to it.
+                Keeping Universify&apos;s version updates your Google Calendar.
+              </Text>
+            )}
+            <View style={styles.buttons}>
+              {button('universify', 'Keep Universify')}
+              {conflict.canKeepGoogle && button('google', 'Keep Google')}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#FFFBEB',
+    borderWidth: 1,
+    borderColor: '#FCD34D',
+    borderRadius: 8,
+    padding: 12,
+    gap: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#92400E',
+  },
+  field: {
+    gap: 2,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  fieldValue: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  note: {
+    fontSize: 12,
+    color: '#92400E',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  buttonSuggested: {
+    borderColor: '#4285F4',
+    backgroundColor: '#4285F4',
+  },
+  buttonText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  buttonTextSuggested: {
+    color: '#FFFFFF',
+  },
+});
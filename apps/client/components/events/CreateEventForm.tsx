@@ -11,7 +11,7 @@ import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import { CategoryPill } from '@/components/ui/CategoryPill';
 import { DateTimePicker } from '@/components/ui/DateTimePicker';
-import { EventFormData, EventCategory } from '@/types/event';
+import { EventFormData, EventCategory, RecurringPattern } from '@/types/event';
 import {
   validateEventTitle,
   validateEventDescription,
@@ -57,6 +57,17 @@ const COLOR_OPTIONS = [
   '#A8E6CF',
 ];
 
+type RepeatFrequency = 'never' | RecurringPattern['frequency'];
+
+const REPEAT_OPTIONS: { value: RepeatFrequency; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
 export const CreateEventForm: React.FC<CreateEventFormProps> = ({
   onSubmit,
   isSubmitting = false,
@@ -79,6 +90,10 @@ export const CreateEventForm: React.FC<CreateEventFormProps> = ({
   const [attendeeVisibility, setAttendeeVisibility] = useState<'public' | 'private'>('public');
   const [selectedColor, setSelectedColor] = useState(COLOR_OPTIONS[0]);
   const [tags, setTags] = useState('');
+  const [repeat, setRepeat] = useState<RepeatFrequency>('never');
+  const [repeatInterval, setRepeatInterval] = useState('1');
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [repeatDays, setRepeatDays] = useState<number[]>([]);
 
   const autoFillForm = () => {
     const today = new Date();
@@ -100,6 +115,7 @@ export const CreateEventForm: React.FC<CreateEventFormProps> = ({
     setAttendeeVisibility('public');
     setSelectedColor('#FF6B6B');
     setTags('coding, react, workshop');
+    setRepeat('never');
     setErrors({});
   };
 
@@ -111,6 +127,12 @@ export const CreateEventForm: React.FC<CreateEventFormProps> = ({
     );
   };
 
+  const toggleRepeatDay = (day: number) => {
+    setRepeatDays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -148,6 +170,15 @@ export const CreateEventForm: React.FC<CreateEventFormProps> = ({
       newErrors.capacity = 'Capacity must be a positive number';
     }
 
+    if (repeat !== 'never') {
+      if (!Number.isInteger(Number(repeatInterval)) || Number(repeatInterval) < 1) {
+        newErrors.repeatInterval = 'Repeat every must be a whole number of at least 1';
+      }
+      if (repeatUntil && startDate && repeatUntil < startDate) {
+        newErrors.repeatUntil = 'Repeat until must be on or after the start date';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -173,6 +204,12 @@ export const CreateEventForm: React.FC<CreateEventFormProps> = ({
       attendeeVisibility,
       color: selectedColor,
       tags: tags.split(',').map((t) => t.trim()).filter(Boolean),
+      recurring: repeat === 'never' ? undefined : {
+        frequency: repeat,
+        interval: Number(repeatInterval),
+        ...(repeatUntil ? { endDate: repeatUntil } : {}),
+        ...(repeat === 'weekly' && repeatDays.length > 0 ? { daysOfWeek: repeatDays } : {}),
+      },
     };
 
     await onSubmit(eventData);
@@ -264,6 +301,64 @@ export const CreateEventForm: React.FC<CreateEventFormProps> = ({
           </View>
         </View>
 
+        {/* Repeat Section */}
+        <View style={[styles.section, styles.shadow]}>
+          <Text style={styles.sectionTitle}>Repeat</Text>
+          <View style={styles.categoryGrid}>
+            {REPEAT_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.repeatOption, repeat === option.value && styles.repeatOptionActive]}
+                onPress={() => setRepeat(option.value)}
+              >
+                <Text style={[styles.repeatOptionText, repeat === option.value && styles.repeatOptionTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {repeat === 'weekly' && (
+            <View style={styles.weekdayRow}>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <TouchableOpacity
+                  key={day}
+                  style={[styles.weekdayOption, repeatDays.includes(day) && styles.repeatOptionActive]}
+                  onPress={() => toggleRepeatDay(day)}
+                >
+                  <Text style={[styles.repeatOptionText, repeatDays.includes(day) && styles.repeatOptionTextActive]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {repeat !== 'never' && (
+            <View style={[styles.row, { marginTop: 16 }]}>
+              <View style={{ flex: 1 }}>
+                <Input
+                  label={`Every (${repeat === 'daily' ? 'days' : repeat === 'weekly' ? 'weeks' : 'months'})`}
+                  value={repeatInterval}
+                  onChangeText={setRepeatInterval}
+                  keyboardType="numeric"
+                  error={errors.repeatInterval}
+                />
+              </View>
+              <View style={{ flex: 1 }}>
+                <DateTimePicker
+                  label="Until (Optional)"
+                  type="date"
+                  value={repeatUntil}
+                  onChange={setRepeatUntil}
+                  placeholder="YYYY-MM-DD"
+                  error={errors.repeatUntil}
+                />
+              </View>
+            </View>
+          )}
+        </View>
+
         {/* Location Section */}
         <View style={[styles.section, styles.shadow]}>
           <Text style={styles.sectionTitle}>Location</Text>
@@ -473,6 +568,36 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginTop: 4,
   },
+  repeatOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+  },
+  repeatOptionActive: {
+    backgroundColor: '#FF6B6B',
+  },
+  repeatOptionText: {
+    fontSize: 14,
+    color: '#4B5563',
+    fontWeight: '500',
+  },
+  repeatOptionTextActive: {
+    color: '#FFFFFF',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  weekdayOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+  },
   colorGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
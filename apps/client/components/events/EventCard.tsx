@@ -89,6 +89,11 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress, index = 0
               <Text style={styles.badgeText}>Social</Text>
             </View>
           )}
+          {event.manuallyVerified && (
+            <View style={[styles.badge, styles.verifiedBadge]}>
+              <Text style={styles.badgeText}>✓ Verified</Text>
+            </View>
+          )}
         </View>
 
         {/* Time & Location */}
@@ -192,6 +197,9 @@ const styles = StyleSheet.create({
   socialBadge: {
     backgroundColor: '#FF6BA8',
   },
+  verifiedBadge: {
+    backgroundColor: '#6BCF7F',
+  },
   badgeText: {
     fontSize: 10,
     fontWeight: '600',
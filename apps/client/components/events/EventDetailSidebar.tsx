@@ -9,11 +9,13 @@ import {
 import { AnimatedDrawer } from '@/components/ui/AnimatedDrawer';
 import { Button } from '@/components/ui/Button';
 import { CategoryPill } from '@/components/ui/CategoryPill';
-import { Event, RSVPStatus } from '@/types/event';
+import { Event, EventCategory, RSVPStatus } from '@/types/event';
 import { formatFullDate, formatTimeRange } from '@/utils/dateHelpers';
 import { useResponsive } from '@/hooks/useResponsive';
 import { useAuth } from '@/contexts/AuthContext';
 import { useEvents } from '@/contexts/EventsContext';
+import { exportEventsToICS, subscribeToFeed } from '@/lib/ics';
+import { getFeedLinksAPI } from '@/lib/api';
 
 interface EventDetailSidebarProps {
   event: Event | null;
@@ -35,6 +37,16 @@ export const EventDetailSidebar: React.FC<EventDetailSidebarProps> = ({
 
   const userRSVP = currentUser ? getRSVPStatus(event.id, currentUser.id) : null;
 
+  // Subscribe the device's calendar to everything by this organizer or in this category
+  const handleSubscribe = async (feed: { category: EventCategory } | { organizer: string }) => {
+    try {
+      await subscribeToFeed(await getFeedLinksAPI(feed));
+    } catch (error) {
+      console.error('Failed to open the calendar feed:', error);
+      alert('Could not reach the calendar feed server');
+    }
+  };
+
   const handleRSVP = async (status: RSVPStatus) => {
     if (!currentUser) return;
     
@@ -107,10 +119,21 @@ export const EventDetailSidebar: React.FC<EventDetailSidebarProps> = ({
                 {event.isSocialEvent && (
                   <Text style={styles.organizerType}>Social Event</Text>
                 )}
+                <TouchableOpacity onPress={() => handleSubscribe({ organizer: event.organizer.id })}>
+                  <Text style={styles.feedLink}>Subscribe to their events</Text>
+                </TouchableOpacity>
               </View>
             </View>
           </View>
 
+          {/* Export */}
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={() => exportEventsToICS([event], event.title)}
+          >
+            <Text style={styles.exportText}>📅 Add to Apple / Outlook calendar (.ics)</Text>
+          </TouchableOpacity>
+
           {/* Description */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>About</Text>
@@ -131,6 +154,11 @@ export const EventDetailSidebar: React.FC<EventDetailSidebarProps> = ({
                 />
               ))}
             </View>
+            {event.categories.map((category) => (
+              <TouchableOpacity key={category} onPress={() => handleSubscribe({ category })}>
+                <Text style={styles.feedLink}>Subscribe to all {category} events</Text>
+              </TouchableOpacity>
+            ))}
           </View>
 
           {/* Capacity */}
@@ -257,6 +285,24 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  exportButton: {
+    marginHorizontal: 20,
+    marginVertical: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  exportText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  feedLink: {
+    fontSize: 13,
+    color: '#2563EB',
+    marginTop: 6,
+  },
   section: {
     padding: 20,
     borderBottomWidth: 1,
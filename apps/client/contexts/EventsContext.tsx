@@ -1,6 +1,27 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { Platform } from 'react-native';
+import {
+  RecurrenceScope,
+  deleteFromSeries,
+  findDuplicate,
+  getOccurrence,
+  hasSource,
+  mergeDuplicate,
+  normalizeEvents,
+  parseOccurrenceId,
+  removeSource,
+  sourcesOf,
+  updateSeries,
+} from '@universify/shared';
 import { Event, RSVPStatus, EventFormData } from '@/types/event';
+import {
+  ApiError,
+  createEventAPI,
+  deleteEventAPI,
+  fetchEvents,
+  updateEventAPI,
+  updateRSVPAPI,
+} from '@/lib/api';
 import mockEventsData from '@/data/mockEvents.json';
 import currentWeekEvents from '@/data/currentWeekEvents.json';
 import allEventsData from '@/data/allEvents.json';
@@ -22,19 +43,225 @@ const storage = {
 
 const EVENTS_STORAGE_KEY = 'universify_events';
 const SLACK_EVENTS_KEY = 'universify_slack_events';
+const FEED_EVENTS_KEY = 'universify_feed_events';
+const EVENTS_OUTBOX_KEY = 'universify_events_outbox';
+
+// How often queued changes are retried while the app is open
+const OUTBOX_RETRY_MS = 60 * 1000;
+
+const seedEventIds = new Set((allEventsData as Event[]).map((e) => e.id));
+
+// ─── Events API ────────────────────────────────────────────────────────
+//
+// Events created in the app live in the events API (see lib/api.ts). Every
+// change is applied locally first; if the API rejects it, it's undone. While
+// the API can't be reached or is failing (5xx), changes are kept in
+// localStorage (the outbox) and replayed in order on the next load, when the
+// browser comes back online, and every OUTBOX_RETRY_MS.
+
+type PendingChange =
+  | { type: 'create'; event: Event }
+  | { type: 'update'; eventId: string; updates: Partial<Event> }
+  | { type: 'delete'; eventId: string }
+  | { type: 'rsvp'; eventId: string; userId: string; status: RSVPStatus };
+
+// Seeded, Slack, Google, imported .ics and feed events never reach the API
+function isLocalOnly(eventId: string): boolean {
+  return seedEventIds.has(eventId) || ['slack-', 'gcal-', 'ics-', 'feed-'].some((prefix) => eventId.startsWith(prefix));
+}
+
+// The API doesn't have the event, e.g. one created before it was set up; the change stays local
+function isNotFound(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 404;
+}
+
+// The API refused the change for good (invalid, not allowed, conflicting); anything
+// else — 5xx, a missing credential, rate limiting — may go through on a retry
+function isRejected(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.status >= 400 && error.status < 500 && ![401, 408, 429].includes(error.status);
+}
+
+async function loadOutbox(): Promise<PendingChange[]> {
+  try {
+    const stored = await storage.getItem(EVENTS_OUTBOX_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to parse queued event changes:', e);
+    return [];
+  }
+}
+
+async function saveOutbox(changes: PendingChange[]): Promise<void> {
+  await storage.setItem(EVENTS_OUTBOX_KEY, JSON.stringify(changes));
+}
+
+async function sendChange(change: PendingChange): Promise<Event | null> {
+  switch (change.type) {
+    case 'create':
+      return createEventAPI(change.event);
+    case 'update':
+      return updateEventAPI(change.eventId, change.updates);
+    case 'delete':
+      await deleteEventAPI(change.eventId);
+      return null;
+    case 'rsvp':
+      return updateRSVPAPI(change.eventId, change.userId, change.status);
+  }
+}
+
+/**
+ * Replay queued changes in order. `sent` is false if one still can't go
+ * through (it and the rest stay queued). Changes the API rejects are dropped
+ * and returned, so their local effects can be undone.
+ */
+async function flushOutbox(): Promise<{ sent: boolean; rejected: PendingChange[] }> {
+  const rejected: PendingChange[] = [];
+  for (let queued = await loadOutbox(); queued.length > 0; queued = await loadOutbox()) {
+    try {
+      await sendChange(queued[0]);
+    } catch (error) {
+      if (!isRejected(error)) return { sent: false, rejected };
+      console.warn(`Events API rejected a queued ${queued[0].type}:`, error.message);
+      rejected.push(queued[0]);
+    }
+    // Changes may have been queued while this one was sent; only it leaves
+    await saveOutbox((await loadOutbox()).slice(1));
+  }
+  return { sent: true, rejected };
+}
+
+/**
+ * Send a change to the API, or queue it if it can't go through now (or
+ * earlier changes are still queued, so they stay in order). Resolves with
+ * the API's copy of the event, or null if there is none yet; throws the
+ * ApiError if the API rejected the change.
+ */
+async function pushChange(change: PendingChange): Promise<Event | null> {
+  const queued = await loadOutbox();
+  if (queued.length === 0) {
+    try {
+      return await sendChange(change);
+    } catch (error) {
+      if (isRejected(error)) throw error;
+    }
+  }
+  await saveOutbox([...queued, change]);
+  return null;
+}
+
+// The fields `after` changed, so an edit to a recurring series only sends those
+function changedFields(before: Event, after: Event): Partial<Event> {
+  const keys = Object.keys(after) as (keyof Event)[];
+  return Object.fromEntries(
+    keys.filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key])).map((key) => [key, after[key]])
+  ) as Partial<Event>;
+}
+
+// RSVPs to an occurrence of a recurring event go to the whole series
+function seriesIdOf(eventId: string): string {
+  return parseOccurrenceId(eventId)?.seriesId ?? eventId;
+}
+
+// Take the API's copy of each event it has; events it doesn't know stay as they are
+function mergeApiEvents(events: Event[], apiEvents: Event[]): Event[] {
+  const byId = new Map(apiEvents.map((e) => [e.id, e]));
+  const merged = events.map((e) => byId.get(e.id) ?? e);
+  const present = new Set(events.map((e) => e.id));
+  return [...merged, ...apiEvents.filter((e) => !present.has(e.id))];
+}
+
+/**
+ * Fold external events into a list. An event with the same id replaces the
+ * old version (keeping anything merged into it); one that duplicates an
+ * event already in the list, e.g. a Slack cross-post of a seeded event, is
+ * merged into it instead of being listed twice.
+ */
+function mergeExternalEvents(existing: Event[], incoming: Event[]): Event[] {
+  const merged = [...existing];
+  for (const event of incoming) {
+    const sameId = merged.findIndex((e) => e.id === event.id);
+    if (sameId >= 0) {
+      const previous = merged[sameId];
+      const extra = sourcesOf(previous).filter((ref) => !hasSource(event, ref.id));
+      merged[sameId] = extra.length > 0 ? { ...event, sources: [...sourcesOf(event), ...extra] } : event;
+      continue;
+    }
+
+    const canonical = merged.find((e) => hasSource(e, event.id)) ?? findDuplicate(event, merged);
+    if (canonical) {
+      merged[merged.indexOf(canonical)] = mergeDuplicate(canonical, event);
+    } else {
+      merged.push(event);
+    }
+  }
+  return merged;
+}
+
+// Drop the events `shouldRemove` matches, and strip them from events they were merged into
+function removeMergedEvents(events: Event[], shouldRemove: (id: string) => boolean): Event[] {
+  return events.flatMap((event) => {
+    if (shouldRemove(event.id)) return [];
+    let rest: Event | null = event;
+    for (const ref of sourcesOf(event)) {
+      if (rest && shouldRemove(ref.id)) rest = removeSource(rest, ref.id);
+    }
+    return rest ? [rest] : [];
+  });
+}
+
+/**
+ * Set a user's RSVP on the local copy of an event. Counts are adjusted
+ * rather than recounted, since seeded events carry counts without attendees.
+ */
+function applyRSVP(event: Event, userId: string, status: RSVPStatus): Event {
+  // Remove existing RSVP
+  const filteredAttendees = event.attendees.filter((a) => a.userId !== userId);
+
+  // Update counts
+  const newCounts = { ...event.rsvpCounts };
+  const existingAttendee = event.attendees.find((a) => a.userId === userId);
+
+  if (existingAttendee?.status === 'going') newCounts.going--;
+  if (existingAttendee?.status === 'maybe') newCounts.maybe--;
+  if (existingAttendee?.status === 'not-going') newCounts.notGoing--;
+
+  // Add new RSVP
+  if (status) {
+    if (status === 'going') newCounts.going++;
+    if (status === 'maybe') newCounts.maybe++;
+    if (status === 'not-going') newCounts.notGoing++;
+
+    filteredAttendees.push({
+      userId,
+      status,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  return {
+    ...event,
+    rsvpCounts: newCounts,
+    attendees: filteredAttendees,
+    updatedAt: new Date().toISOString(),
+  };
+}
 
 interface EventsContextType {
   events: Event[];
   isLoading: boolean;
   createEvent: (eventData: EventFormData, userId: string) => Promise<Event>;
-  updateEvent: (eventId: string, updates: Partial<Event>) => Promise<void>;
-  deleteEvent: (eventId: string) => Promise<void>;
+  // For an occurrence of a recurring event, `scope` picks whether the change
+  // applies to just it, it and later ones, or the whole series (the default)
+  updateEvent: (eventId: string, updates: Partial<Event>, scope?: RecurrenceScope) => Promise<void>;
+  deleteEvent: (eventId: string, scope?: RecurrenceScope) => Promise<void>;
   updateRSVP: (eventId: string, userId: string, status: RSVPStatus) => Promise<void>;
   getRSVPStatus: (eventId: string, userId: string) => RSVPStatus;
   getEventById: (eventId: string) => Event | undefined;
   refreshEvents: () => Promise<void>;
   addExternalEvents: (newEvents: Event[]) => void;
   removeExternalEvents: (idPrefix: string) => void;
+  removeExternalEventsById: (ids: string[]) => void;
 }
 
 const EventsContext = createContext<EventsContextType | undefined>(undefined);
@@ -47,6 +274,53 @@ export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children })
     loadEvents();
   }, []);
 
+  // Keep the offline copy in step with every change (Slack events have their own key)
+  useEffect(() => {
+    if (isLoading) return;
+    storage
+      .setItem(EVENTS_STORAGE_KEY, JSON.stringify(events.filter((e) => !e.id.startsWith('slack-'))))
+      .catch((error) => console.error('Failed to save events:', error));
+  }, [events, isLoading]);
+
+  // Replay changes made offline, then take the API's copy of the app's events
+  const syncingRef = useRef<Promise<void> | null>(null);
+  const syncWithApi = (): Promise<void> => {
+    // One replay at a time, so no queued change is sent twice
+    syncingRef.current ??= (async () => {
+      try {
+        const { sent, rejected } = await flushOutbox();
+        // Rejected creates are undone here; the API's copies below undo the other rejected changes
+        const rejectedIds = new Set(rejected.flatMap((change) => (change.type === 'create' ? [change.event.id] : [])));
+        if (rejectedIds.size > 0) setEvents((prev) => prev.filter((e) => !rejectedIds.has(e.id)));
+        if (!sent) return;
+
+        const apiEvents = await fetchEvents();
+        setEvents((prev) => mergeApiEvents(prev, apiEvents));
+        console.log(`Loaded ${apiEvents.length} events from the events API`);
+      } catch (error) {
+        console.warn('Events API unavailable; using events saved on this device:', error);
+      } finally {
+        syncingRef.current = null;
+      }
+    })();
+    return syncingRef.current;
+  };
+
+  // Retry queued changes when the browser is back online, and now and then
+  useEffect(() => {
+    const retry = () => {
+      loadOutbox().then((queued) => {
+        if (queued.length > 0) syncWithApi();
+      });
+    };
+    const timer = setInterval(retry, OUTBOX_RETRY_MS);
+    if (Platform.OS === 'web') window.addEventListener('online', retry);
+    return () => {
+      clearInterval(timer);
+      if (Platform.OS === 'web') window.removeEventListener('online', retry);
+    };
+  }, []);
+
   const loadEvents = async () => {
     try {
       // Always start with events from allEvents.json as the base
@@ -62,8 +336,9 @@ export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children })
           const parsed = JSON.parse(storedEvents);
           if (Array.isArray(parsed)) {
             // Only include events from localStorage that aren't in allEvents.json
-            // (these would be user-created events)
-            userCreatedEvents = parsed.filter((e: Event) => !baseEventIds.has(e.id));
+            // (these would be user-created events); ones saved by older builds
+            // are migrated, and anything that isn't an event is dropped
+            userCreatedEvents = normalizeEvents(parsed).filter((e) => !baseEventIds.has(e.id));
           }
         } catch (e) {
           console.error('Failed to parse stored events:', e);
@@ -77,20 +352,32 @@ export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children })
         try {
           const parsed = JSON.parse(storedSlackEvents);
           if (Array.isArray(parsed)) {
-            slackEvents = parsed;
+            slackEvents = normalizeEvents(parsed);
           }
         } catch (e) {
           console.error('Failed to parse stored Slack events:', e);
         }
       }
 
-      // Merge base events with user-created events and Slack events
-      const allEvents = [...baseEvents, ...userCreatedEvents, ...slackEvents];
-      console.log(`Loaded ${allEvents.length} events (${baseEvents.length} from allEvents.json, ${userCreatedEvents.length} user-created, ${slackEvents.length} from Slack)`);
+      // Load cached events of subscribed feeds (see FeedSourcesContext)
+      let feedEvents: Event[] = [];
+      const storedFeedEvents = await storage.getItem(FEED_EVENTS_KEY);
+      if (storedFeedEvents) {
+        try {
+          const parsed = JSON.parse(storedFeedEvents);
+          if (Array.isArray(parsed)) {
+            feedEvents = normalizeEvents(parsed);
+          }
+        } catch (e) {
+          console.error('Failed to parse stored feed events:', e);
+        }
+      }
+
+      // Merge base events with user-created events, Slack events and feed events
+      const allEvents = mergeExternalEvents([...baseEvents, ...userCreatedEvents], [...slackEvents, ...feedEvents]);
+      console.log(`Loaded ${allEvents.length} events (${baseEvents.length} from allEvents.json, ${userCreatedEvents.length} user-created, ${slackEvents.length} from Slack, ${feedEvents.length} from feeds)`);
       setEvents(allEvents);
       
-      // Update localStorage with merged events (excluding Slack events — they have their own key)
-      await storage.setItem(EVENTS_STORAGE_KEY, JSON.stringify([...baseEvents, ...userCreatedEvents]));
     } catch (error) {
       console.error('Failed to load events:', error);
       // Always fallback to allEvents.json
@@ -99,15 +386,22 @@ export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children })
     } finally {
       setIsLoading(false);
     }
+
+    await syncWithApi();
   };
 
-  const saveEvents = async (updatedEvents: Event[]) => {
-    try {
-      await storage.setItem(EVENTS_STORAGE_KEY, JSON.stringify(updatedEvents));
-      setEvents(updatedEvents);
-    } catch (error) {
-      console.error('Failed to save events:', error);
-    }
+  // Put the API's copy of an event in place of the local one
+  const replaceEvent = (saved: Event) => {
+    setEvents((prev) => prev.map((e) => (e.id === saved.id ? saved : e)));
+  };
+
+  // Undo an optimistic change the API rejected
+  const restoreEvent = (previous: Event) => {
+    setEvents((prev) =>
+      prev.some((e) => e.id === previous.id)
+        ? prev.map((e) => (e.id === previous.id ? previous : e))
+        : [...prev, previous]
+    );
   };
 
   const createEvent = async (eventData: EventFormData, userId: string): Promise<Event> => {
@@ -138,66 +432,89 @@ export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children })
       updatedAt: new Date().toISOString(),
     };
 
-    const updatedEvents = [...events, newEvent];
-    await saveEvents(updatedEvents);
-    return newEvent;
+    return addEvent(newEvent);
   };
 
-  const updateEvent = async (eventId: string, updates: Partial<Event>) => {
-    const updatedEvents = events.map((event) =>
-      event.id === eventId
-        ? { ...event, ...updates, updatedAt: new Date().toISOString() }
-        : event
-    );
-    await saveEvents(updatedEvents);
+  const addEvent = async (newEvent: Event): Promise<Event> => {
+    setEvents((prev) => [...prev, newEvent]);
+    try {
+      const saved = await pushChange({ type: 'create', event: newEvent });
+      if (saved) replaceEvent(saved);
+      return saved ?? newEvent;
+    } catch (error) {
+      setEvents((prev) => prev.filter((e) => e.id !== newEvent.id));
+      throw error;
+    }
   };
 
-  const deleteEvent = async (eventId: string) => {
-    const updatedEvents = events.filter((event) => event.id !== eventId);
-    await saveEvents(updatedEvents);
+  const updateEvent = async (eventId: string, updates: Partial<Event>, scope: RecurrenceScope = 'all') => {
+    const occurrence = parseOccurrenceId(eventId);
+    if (occurrence) {
+      const series = events.find((e) => e.id === occurrence.seriesId);
+      if (!series) return;
+      const changed = updateSeries(series, occurrence.recurrenceId, updates, scope, `evt-${Date.now()}`);
+      await updateEvent(series.id, changedFields(series, changed.series));
+      if (changed.created) await addEvent(changed.created);
+      return;
+    }
+
+    const previous = events.find((e) => e.id === eventId);
+    if (!previous) return;
+
+    replaceEvent({ ...previous, ...updates, updatedAt: new Date().toISOString() });
+    if (isLocalOnly(eventId)) return;
+    try {
+      const saved = await pushChange({ type: 'update', eventId, updates });
+      if (saved) replaceEvent(saved);
+    } catch (error) {
+      if (isNotFound(error)) return;
+      restoreEvent(previous);
+      throw error;
+    }
   };
 
-  const updateRSVP = async (eventId: string, userId: string, status: RSVPStatus) => {
-    const updatedEvents = events.map((event) => {
-      if (event.id !== eventId) return event;
+  const deleteEvent = async (eventId: string, scope: RecurrenceScope = 'all') => {
+    const occurrence = parseOccurrenceId(eventId);
+    if (occurrence) {
+      const series = events.find((e) => e.id === occurrence.seriesId);
+      if (!series) return;
+      const rest = deleteFromSeries(series, occurrence.recurrenceId, scope);
+      await (rest ? updateEvent(series.id, { recurring: rest.recurring }) : deleteEvent(series.id));
+      return;
+    }
 
-      // Remove existing RSVP
-      const filteredAttendees = event.attendees.filter((a) => a.userId !== userId);
+    const previous = events.find((e) => e.id === eventId);
+    if (!previous) return;
 
-      // Update counts
-      const newCounts = { ...event.rsvpCounts };
-      const existingAttendee = event.attendees.find((a) => a.userId === userId);
-      
-      if (existingAttendee?.status === 'going') newCounts.going--;
-      if (existingAttendee?.status === 'maybe') newCounts.maybe--;
-      if (existingAttendee?.status === 'not-going') newCounts.notGoing--;
-
-      // Add new RSVP
-      if (status) {
-        if (status === 'going') newCounts.going++;
-        if (status === 'maybe') newCounts.maybe++;
-        if (status === 'not-going') newCounts.notGoing++;
-
-        filteredAttendees.push({
-          userId,
-          status,
-          timestamp: new Date().toISOString(),
-        });
-      }
+    setEvents((prev) => prev.filter((e) => e.id !== eventId));
+    if (isLocalOnly(eventId)) return;
+    try {
+      await pushChange({ type: 'delete', eventId });
+    } catch (error) {
+      if (isNotFound(error)) return;
+      restoreEvent(previous);
+      throw error;
+    }
+  };
 
-      return {
-        ...event,
-        rsvpCounts: newCounts,
-        attendees: filteredAttendees,
-        updatedAt: new Date().toISOString(),
-      };
-    });
+  const updateRSVP = async (eventId: string, userId: string, status: RSVPStatus) => {
+    const previous = events.find((e) => e.id === seriesIdOf(eventId));
+    if (!previous) return;
 
-    await saveEvents(updatedEvents);
+    replaceEvent(applyRSVP(previous, userId, status));
+    if (isLocalOnly(previous.id)) return;
+    try {
+      const saved = await pushChange({ type: 'rsvp', eventId: previous.id, userId, status });
+      if (saved) replaceEvent(saved);
+    } catch (error) {
+      if (isNotFound(error)) return;
+      restoreEvent(previous);
+      throw error;
+    }
   };
 
   const getRSVPStatus = (eventId: string, userId: string): RSVPStatus => {
-    const event = events.find((e) => e.id === eventId);
+    const event = events.find((e) => e.id === seriesIdOf(eventId));
     if (!event) return null;
 
     const attendee = event.attendees.find((a) => a.userId === userId);
@@ -205,7 +522,10 @@ export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children })
   };
 
   const getEventById = (eventId: string): Event | undefined => {
-    return events.find((e) => e.id === eventId);
+    const occurrence = parseOccurrenceId(eventId);
+    if (!occurrence) return events.find((e) => e.id === eventId);
+    const series = events.find((e) => e.id === occurrence.seriesId);
+    return series && getOccurrence(series, occurrence.recurrenceId);
   };
 
   const refreshEvents = async () => {
@@ -214,15 +534,11 @@ export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children })
 
   /**
    * Add externally-sourced events (e.g. from Slack) into the events list.
-   * Deduplicates by event id — existing events with the same id are replaced.
+   * Existing events with the same id are replaced, and duplicates of events
+   * already listed are merged into them (see mergeExternalEvents).
    */
   const addExternalEvents = (newEvents: Event[]) => {
-    setEvents((prev) => {
-      const newIds = new Set(newEvents.map((e) => e.id));
-      // Remove old versions of these events, then append the new ones
-      const filtered = prev.filter((e) => !newIds.has(e.id));
-      return [...filtered, ...newEvents];
-    });
+    setEvents((prev) => mergeExternalEvents(prev, newEvents));
   };
 
   /**
@@ -230,7 +546,17 @@ export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children })
    * Used to clear Slack-imported events (prefix "slack-").
    */
   const removeExternalEvents = (idPrefix: string) => {
-    setEvents((prev) => prev.filter((e) => !e.id.startsWith(idPrefix)));
+    setEvents((prev) => removeMergedEvents(prev, (id) => id.startsWith(idPrefix)));
+  };
+
+  /**
+   * Remove specific externally-sourced events by exact id.
+   * Used when a sync reports that the source deleted them.
+   */
+  const removeExternalEventsById = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const idSet = new Set(ids);
+    setEvents((prev) => removeMergedEvents(prev, (id) => idSet.has(id)));
   };
 
   const value: EventsContextType = {
@@ -245,6 +571,7 @@ export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children })
     refreshEvents,
     addExternalEvents,
     removeExternalEvents,
+    removeExternalEventsById,
   };
 
   return <EventsContext.Provider value={value}>{children}</EventsContext.Provider>;
@@ -0,0 +1,291 @@
+/**
+ * FeedSourcesContext
+ *
+ * Manages the event feeds (iCalendar or RSS) the user subscribes to:
+ *   - The list of sources, each of which can be turned off
+ *   - Polling enabled sources every POLL_INTERVAL_MS while the app is open
+ *   - Per-source sync status (last sync, error, event count)
+ *   - Keeping EventsContext in step with each feed's events
+ *   - Persistence in localStorage
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from 'react';
+import { Platform } from 'react-native';
+import { Event } from '@/types/event';
+import { FeedSource, feedEventPrefix, newFeedSourceId, readFeedSource } from '@/lib/feedSources';
+import { useEvents } from './EventsContext';
+
+// ─── Types ─────────────────────────────────────────────────────────────
+
+export interface FeedSourceStatus {
+  lastSyncTime: string | null; // ISO 8601; last successful sync
+  error: string | null; // of the last attempt
+  eventCount: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+interface FeedSourcesContextType {
+  sources: FeedSource[];
+  statuses: Record<string, FeedSourceStatus>;
+  syncingIds: string[];
+  feedEvents: Event[];
+
+  addSource: (url: string, name?: string) => Promise<FeedSource>;
+  removeSource: (sourceId: string) => void;
+  setSourceEnabled: (sourceId: string, enabled: boolean) => void;
+  syncSource: (sourceId: string) => Promise<number>;
+  syncAll: () => Promise<void>;
+}
+
+const FeedSourcesContext = createContext<FeedSourcesContextType | undefined>(undefined);
+
+// ─── Storage keys ──────────────────────────────────────────────────────
+
+const FEED_SOURCES_KEY = 'universify_feed_sources';
+const FEED_STATUSES_KEY = 'universify_feed_statuses';
+const FEED_EVENTS_KEY = 'universify_feed_events';
+
+const POLL_INTERVAL_MS = 30 * 60 * 1000;
+const POLL_CHECK_MS = 5 * 60 * 1000;
+
+const EMPTY_STATUS: FeedSourceStatus = { lastSyncTime: null, error: null, eventCount: 0 };
+
+// ─── Storage helpers ───────────────────────────────────────────────────
+
+function loadFromStorage<T>(key: string, fallback: T): T {
+  if (Platform.OS !== 'web') return fallback;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function saveToStorage(key: string, value: any): void {
+  if (Platform.OS !== 'web') return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to save to localStorage (${key}):`, err);
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url.replace(/^webcals?:\/\//i, 'https://')).hostname;
+  } catch {
+    return url;
+  }
+}
+
+// ─── Provider ──────────────────────────────────────────────────────────
+
+export const FeedSourcesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { addExternalEvents, removeExternalEvents, removeExternalEventsById } = useEvents();
+
+  const [sources, setSources] = useState<FeedSource[]>(() => loadFromStorage(FEED_SOURCES_KEY, []));
+  const [statuses, setStatuses] = useState<Record<string, FeedSourceStatus>>(() =>
+    loadFromStorage(FEED_STATUSES_KEY, {})
+  );
+  const [syncingIds, setSyncingIds] = useState<string[]>([]);
+  const [feedEvents, setFeedEvents] = useState<Event[]>(() => loadFromStorage(FEED_EVENTS_KEY, []));
+
+  // Syncs finish in any order; each applies its delta to the latest events
+  const feedEventsRef = useRef(feedEvents);
+  const statusesRef = useRef(statuses);
+  const sourcesRef = useRef(sources);
+
+  useEffect(() => {
+    saveToStorage(FEED_SOURCES_KEY, sources);
+  }, [sources]);
+
+  // Syncs in flight check the latest sources, so changes reach the ref right away
+  const updateSources = useCallback((update: (prev: FeedSource[]) => FeedSource[]) => {
+    sourcesRef.current = update(sourcesRef.current);
+    setSources(sourcesRef.current);
+  }, []);
+
+  useEffect(() => {
+    statusesRef.current = statuses;
+    saveToStorage(FEED_STATUSES_KEY, statuses);
+  }, [statuses]);
+
+  const setFeedEventsFor = useCallback((sourceId: string, events: Event[]) => {
+    const prefix = feedEventPrefix(sourceId);
+    const next = [...feedEventsRef.current.filter((e) => !e.id.startsWith(prefix)), ...events];
+    feedEventsRef.current = next;
+    setFeedEvents(next);
+    saveToStorage(FEED_EVENTS_KEY, next);
+  }, []);
+
+  const updateStatus = useCallback((sourceId: string, changes: Partial<FeedSourceStatus>) => {
+    setStatuses((prev) => ({ ...prev, [sourceId]: { ...EMPTY_STATUS, ...prev[sourceId], ...changes } }));
+  }, []);
+
+  // ── Syncing ──
+
+  // `nameFromFeed` renames the source after the feed's own title, if it has one
+  const sync = useCallback(
+    async (source: FeedSource, nameFromFeed = false): Promise<number> => {
+      setSyncingIds((prev) => [...prev, source.id]);
+      try {
+        const status = statusesRef.current[source.id] ?? EMPTY_STATUS;
+        const result = await readFeedSource(source, { etag: status.etag, lastModified: status.lastModified });
+        // Removed or turned off while it was fetched: its events stay out
+        if (!sourcesRef.current.some((s) => s.id === source.id && s.enabled)) return 0;
+
+        const now = new Date().toISOString();
+        if (result.notModified) {
+          updateStatus(source.id, { lastSyncTime: now, error: null });
+          return 0;
+        }
+
+        if (nameFromFeed && result.title) {
+          updateSources((prev) => prev.map((s) => (s.id === source.id ? { ...s, name: result.title } : s)));
+        }
+
+        const prefix = feedEventPrefix(source.id);
+        const ids = new Set(result.events.map((e) => e.id));
+        const removed = feedEventsRef.current.filter((e) => e.id.startsWith(prefix) && !ids.has(e.id));
+        setFeedEventsFor(source.id, result.events);
+        removeExternalEventsById(removed.map((e) => e.id));
+        addExternalEvents(result.events);
+
+        updateStatus(source.id, {
+          lastSyncTime: now,
+          error: null,
+          eventCount: result.events.length,
+          etag: result.etag,
+          lastModified: result.lastModified,
+        });
+        console.log(`Synced feed "${source.name}": ${result.events.length} events, ${removed.length} removed`);
+        return result.events.length;
+      } catch (err: any) {
+        if (!sourcesRef.current.some((s) => s.id === source.id)) return 0;
+        const msg = err.message || 'Failed to sync feed';
+        updateStatus(source.id, { error: msg });
+        console.error(`Feed sync error (${source.url}):`, msg);
+        return 0;
+      } finally {
+        setSyncingIds((prev) => prev.filter((id) => id !== source.id));
+      }
+    },
+    [addExternalEvents, removeExternalEventsById, setFeedEventsFor, updateSources, updateStatus]
+  );
+
+  const syncAll = useCallback(async () => {
+    await Promise.all(sources.filter((s) => s.enabled).map((s) => sync(s)));
+  }, [sources, sync]);
+
+  const syncSource = useCallback(
+    async (sourceId: string): Promise<number> => {
+      const source = sources.find((s) => s.id === sourceId);
+      return source ? sync(source) : 0;
+    },
+    [sources, sync]
+  );
+
+  // Load cached feed events into EventsContext on mount
+  useEffect(() => {
+    if (feedEvents.length > 0) {
+      addExternalEvents(feedEvents);
+    }
+  }, []); // Only on mount
+
+  // Poll: on mount and every few minutes, sync the enabled sources that are due
+  const pollRef = useRef<() => void>(() => {});
+  pollRef.current = () => {
+    const cutoff = Date.now() - POLL_INTERVAL_MS;
+    for (const source of sources) {
+      const last = statusesRef.current[source.id]?.lastSyncTime;
+      if (source.enabled && (!last || Date.parse(last) <= cutoff)) sync(source);
+    }
+  };
+  useEffect(() => {
+    pollRef.current();
+    const timer = setInterval(() => pollRef.current(), POLL_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // ── Sources ──
+
+  const addSource = useCallback(
+    async (url: string, name?: string): Promise<FeedSource> => {
+      const source: FeedSource = {
+        id: newFeedSourceId(),
+        url: url.trim(),
+        name: name?.trim() || hostOf(url.trim()),
+        enabled: true,
+      };
+      updateSources((prev) => [...prev, source]);
+      await sync(source, !name?.trim());
+      return source;
+    },
+    [sync, updateSources]
+  );
+
+  const removeSource = useCallback(
+    (sourceId: string) => {
+      updateSources((prev) => prev.filter((s) => s.id !== sourceId));
+      setStatuses((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== sourceId)));
+      setFeedEventsFor(sourceId, []);
+      removeExternalEvents(feedEventPrefix(sourceId));
+    },
+    [removeExternalEvents, setFeedEventsFor, updateSources]
+  );
+
+  // A disabled source's events leave the app until it's turned back on
+  const setSourceEnabled = useCallback(
+    (sourceId: string, enabled: boolean) => {
+      const source = sources.find((s) => s.id === sourceId);
+      if (!source || source.enabled === enabled) return;
+
+      updateSources((prev) => prev.map((s) => (s.id === sourceId ? { ...s, enabled } : s)));
+      if (enabled) {
+        sync({ ...source, enabled });
+      } else {
+        setFeedEventsFor(sourceId, []);
+        removeExternalEvents(feedEventPrefix(sourceId));
+        // Forget the validators too, so turning it back on fetches the whole feed
+        updateStatus(sourceId, { eventCount: 0, etag: undefined, lastModified: undefined });
+      }
+    },
+    [sources, sync, removeExternalEvents, setFeedEventsFor, updateSources, updateStatus]
+  );
+
+  // ── Context value ──
+
+  const value: FeedSourcesContextType = {
+    sources,
+    statuses,
+    syncingIds,
+    feedEvents,
+    addSource,
+    removeSource,
+    setSourceEnabled,
+    syncSource,
+    syncAll,
+  };
+
+  return <FeedSourcesContext.Provider value={value}>{children}</FeedSourcesContext.Provider>;
+};
+
+// ─── Hook ──────────────────────────────────────────────────────────────
+
+export const useFeedSources = (): FeedSourcesContextType => {
+  const context = useContext(FeedSourcesContext);
+  if (context === undefined) {
+    throw new Error('useFeedSources must be used within a FeedSourcesProvider');
+  }
+  return context;
+};
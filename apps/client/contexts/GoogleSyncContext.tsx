@@ -0,0 +1,359 @@
+/**
+ * GoogleSyncContext
+ *
+ * Keeps Universify events and their copies in the user's Google Calendar
+ * in step (see lib/googleSync.ts for the rules):
+ *   - Adding events to Google Calendar and remembering which Google event
+ *     each became
+ *   - Pushing Universify edits to Google and pulling Google edits back, on
+ *     every local edit and every SYNC_INTERVAL_MS
+ *   - Conflicts waiting for the user to pick a side
+ *   - Persistence in localStorage
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from 'react';
+import { Platform } from 'react-native';
+import { Event } from '@/types/event';
+import {
+  GoogleCalendarApiError,
+  GoogleSyncedFields,
+  createGoogleCalendarEvent,
+  deleteGoogleCalendarEvent,
+  fetchGoogleCalendarEvent,
+  updateGoogleCalendarEvent,
+} from '@/lib/googleCalendar';
+import {
+  GoogleSyncConflict,
+  GoogleSyncLink,
+  SyncPlan,
+  SyncSide,
+  changedFields,
+  planSync,
+  resolveConflictPlan,
+  syncedFieldsOf,
+  syncedFieldsOfGoogle,
+} from '@/lib/googleSync';
+import { useAuth } from './AuthContext';
+import { useEvents } from './EventsContext';
+import { useGoogleAuth } from './GoogleAuthContext';
+import { useGoogleCalendar } from './GoogleCalendarContext';
+
+// ─── Types ─────────────────────────────────────────────────────────────
+
+interface GoogleSyncContextType {
+  links: Record<string, GoogleSyncLink>; // by Universify event id
+  conflicts: GoogleSyncConflict[];
+  isSyncing: boolean;
+  lastSyncTime: Date | null;
+  error: string | null;
+
+  addToGoogleCalendar: (event: Event) => Promise<void>;
+  removeFromGoogleCalendar: (eventId: string) => Promise<void>; // deletes the linked Google copy
+  linkedEventIdOf: (googleEventId: string) => string | undefined; // the Universify event a `gcal-` event copies
+  syncNow: () => Promise<void>;
+  resolveConflict: (eventId: string, keep: SyncSide) => Promise<void>;
+}
+
+const GoogleSyncContext = createContext<GoogleSyncContextType | undefined>(undefined);
+
+// ─── Storage keys ──────────────────────────────────────────────────────
+
+const GOOGLE_SYNC_LINKS_KEY = 'universify_google_sync_links';
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// Wait for a burst of edits to settle before pushing them
+const PUSH_DELAY_MS = 2000;
+
+// ─── Storage helpers ───────────────────────────────────────────────────
+
+function loadFromStorage<T>(key: string, fallback: T): T {
+  if (Platform.OS !== 'web') return fallback;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function saveToStorage(key: string, value: any): void {
+  if (Platform.OS !== 'web') return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to save to localStorage (${key}):`, err);
+  }
+}
+
+// ─── Provider ──────────────────────────────────────────────────────────
+
+export const GoogleSyncProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { isGoogleAuthenticated, providerToken, refreshSession } = useGoogleAuth();
+  const { refreshGoogleCalendar } = useGoogleCalendar();
+  const { events, isLoading, updateEvent } = useEvents();
+  const { currentUser } = useAuth();
+
+  const [links, setLinks] = useState<Record<string, GoogleSyncLink>>(() =>
+    loadFromStorage(GOOGLE_SYNC_LINKS_KEY, {})
+  );
+  const [conflicts, setConflicts] = useState<GoogleSyncConflict[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Syncs run from timers; they read the latest links and events from here
+  const linksRef = useRef(links);
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
+  const syncingRef = useRef(false);
+
+  const saveLink = (link: GoogleSyncLink) => {
+    linksRef.current = { ...linksRef.current, [link.eventId]: link };
+    setLinks(linksRef.current);
+    saveToStorage(GOOGLE_SYNC_LINKS_KEY, linksRef.current);
+  };
+
+  const dropLink = (eventId: string) => {
+    linksRef.current = Object.fromEntries(Object.entries(linksRef.current).filter(([id]) => id !== eventId));
+    setLinks(linksRef.current);
+    saveToStorage(GOOGLE_SYNC_LINKS_KEY, linksRef.current);
+  };
+
+  const getToken = async (): Promise<string> => {
+    // Refresh first so the provider_token is current
+    const session = await refreshSession();
+    const token = session?.provider_token || providerToken;
+    if (!token) throw new Error('No Google access token from Supabase. Try signing in again.');
+    return token;
+  };
+
+  // Google edits only change events the user organizes (see lib/googleSync.ts)
+  const canPull = (event: Event) => !!currentUser && event.organizer.id === currentUser.id;
+
+  // Carry out a plan, then record what each side has now
+  const applyPlan = async (
+    token: string,
+    link: GoogleSyncLink,
+    event: Event,
+    google: { fields: GoogleSyncedFields; etag?: string },
+    plan: SyncPlan
+  ) => {
+    const universifyFields = syncedFieldsOf(event);
+    let googleFields = google.fields;
+    let etag = google.etag;
+
+    if (plan.kind === 'apply' && Object.keys(plan.push).length > 0) {
+      const updated = await updateGoogleCalendarEvent(token, link.googleEventId, plan.push, etag);
+      googleFields = syncedFieldsOfGoogle(updated);
+      etag = updated.etag;
+    }
+    const pull = plan.kind === 'apply' && canPull(event) ? plan.pull : {};
+    if (Object.keys(pull).length > 0) {
+      await updateEvent(event.id, pull);
+    }
+
+    // Removed from Google Calendar meanwhile
+    if (!linksRef.current[link.eventId]) return;
+    saveLink({
+      ...link,
+      etag,
+      universify: { ...universifyFields, ...pull },
+      google: googleFields,
+      syncedAt: new Date().toISOString(),
+    });
+    setConflicts((prev) => prev.filter((c) => c.eventId !== event.id));
+  };
+
+  const syncLink = async (token: string, link: GoogleSyncLink) => {
+    // Not loaded (or no longer listed); try again next time
+    const event = eventsRef.current.find((e) => e.id === link.eventId);
+    if (!event) return;
+
+    const googleEvent = await fetchGoogleCalendarEvent(token, link.googleEventId);
+    if (!googleEvent) {
+      // Deleted in Google Calendar: stop syncing, but keep the Universify event
+      dropLink(link.eventId);
+      return;
+    }
+
+    const plan = planSync(event, googleEvent, link, canPull(event));
+    if (plan.kind === 'conflict') {
+      setConflicts((prev) => [...prev.filter((c) => c.eventId !== event.id), plan.conflict]);
+      return;
+    }
+    const google = { fields: syncedFieldsOfGoogle(googleEvent), etag: googleEvent.etag };
+    const unchanged =
+      Object.keys(changedFields(link.universify, syncedFieldsOf(event))).length === 0 &&
+      Object.keys(changedFields(link.google, google.fields)).length === 0;
+    if (plan.kind === 'in-sync' && unchanged) return;
+
+    try {
+      await applyPlan(token, link, event, google, plan);
+    } catch (err) {
+      // Edited in Google since we fetched it; the next sync sees both edits
+      if (err instanceof GoogleCalendarApiError && err.status === 412) return;
+      throw err;
+    }
+  };
+
+  const syncNow = async () => {
+    if (!isGoogleAuthenticated || syncingRef.current) return;
+    const pending = Object.values(linksRef.current);
+    if (pending.length === 0) return;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    setError(null);
+    try {
+      const token = await getToken();
+      // One event failing (403, 5xx) doesn't hold up the others
+      const failures: string[] = [];
+      for (const link of pending) {
+        try {
+          await syncLink(token, link);
+        } catch (err) {
+          console.error(`Error syncing ${link.eventId} with Google Calendar:`, err);
+          failures.push(err instanceof Error ? err.message : String(err));
+        }
+      }
+      if (failures.length > 0) {
+        setError(failures.length === 1 ? failures[0] : `${failures.length} events failed to sync: ${failures[0]}`);
+      }
+      setLastSyncTime(new Date());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to sync with Google Calendar';
+      console.error('Error syncing with Google Calendar:', err);
+      setError(errorMessage);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  const syncRef = useRef(syncNow);
+  syncRef.current = syncNow;
+
+  // Pull Google edits now and then
+  useEffect(() => {
+    if (!isGoogleAuthenticated || isLoading) return;
+    syncRef.current();
+    const timer = setInterval(() => syncRef.current(), SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isGoogleAuthenticated, isLoading]);
+
+  // Push Universify edits to linked events shortly after they're made
+  useEffect(() => {
+    if (!isGoogleAuthenticated || isLoading) return;
+    const edited = Object.values(linksRef.current).some((link) => {
+      const event = events.find((e) => e.id === link.eventId);
+      return event && Object.keys(changedFields(link.universify, syncedFieldsOf(event))).length > 0;
+    });
+    if (!edited) return;
+    const timer = setTimeout(() => syncRef.current(), PUSH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [events, isGoogleAuthenticated, isLoading]);
+
+  // ── Public actions ──
+
+  const addToGoogleCalendar = async (event: Event) => {
+    // Google's own events are already there
+    if (event.id.startsWith('gcal-')) return;
+    if (linksRef.current[event.id]) {
+      await syncNow();
+      return;
+    }
+
+    const token = await getToken();
+    const googleEvent = await createGoogleCalendarEvent(token, event);
+    saveLink({
+      eventId: event.id,
+      googleEventId: googleEvent.id,
+      etag: googleEvent.etag,
+      universify: syncedFieldsOf(event),
+      google: syncedFieldsOfGoogle(googleEvent),
+      syncedAt: new Date().toISOString(),
+    });
+    refreshGoogleCalendar();
+  };
+
+  const removeFromGoogleCalendar = async (eventId: string) => {
+    const link = linksRef.current[eventId];
+    if (!link) return;
+    dropLink(eventId);
+    setConflicts((prev) => prev.filter((c) => c.eventId !== eventId));
+    if (!isGoogleAuthenticated) return;
+
+    try {
+      const token = await getToken();
+      await deleteGoogleCalendarEvent(token, link.googleEventId);
+      refreshGoogleCalendar();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to remove the event from Google Calendar';
+      setError(errorMessage);
+    }
+  };
+
+  const linkedEventIds = useMemo(
+    () => new Map(Object.values(links).map((link) => [`gcal-${link.googleEventId}`, link.eventId])),
+    [links]
+  );
+  const linkedEventIdOf = useCallback((googleEventId: string) => linkedEventIds.get(googleEventId), [linkedEventIds]);
+
+  const resolveConflict = async (eventId: string, keep: SyncSide) => {
+    const conflict = conflicts.find((c) => c.eventId === eventId);
+    const link = linksRef.current[eventId];
+    const event = eventsRef.current.find((e) => e.id === eventId);
+    if (!conflict || !link || !event) return;
+    if (keep === 'google' && !conflict.canKeepGoogle) return;
+
+    try {
+      const token = await getToken();
+      await applyPlan(token, link, event, { fields: conflict.google, etag: conflict.etag }, resolveConflictPlan(conflict, keep));
+    } catch (err) {
+      if (err instanceof GoogleCalendarApiError && err.status === 412) {
+        // Google changed again meanwhile; show the conflict as it is now
+        await syncNow();
+        return;
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resolve the conflict';
+      console.error('Error resolving Google Calendar conflict:', err);
+      setError(errorMessage);
+    }
+  };
+
+  // ── Context value ──
+
+  const value: GoogleSyncContextType = {
+    links,
+    conflicts,
+    isSyncing,
+    lastSyncTime,
+    error,
+    addToGoogleCalendar,
+    removeFromGoogleCalendar,
+    linkedEventIdOf,
+    syncNow,
+    resolveConflict,
+  };
+
+  return <GoogleSyncContext.Provider value={value}>{children}</GoogleSyncContext.Provider>;
+};
+
+// ─── Hook ──────────────────────────────────────────────────────────────
+
+export const useGoogleSync = (): GoogleSyncContextType => {
+  const context = useContext(GoogleSyncContext);
+  if (context === undefined) {
+    throw new Error('useGoogleSync must be used within a GoogleSyncProvider');
+  }
+  return context;
+};
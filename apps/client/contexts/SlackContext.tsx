@@ -3,8 +3,9 @@
  *
  * Manages the Slack integration state for the Universify client:
  *   - Bot URL configuration
- *   - Connected channels
- *   - Event import / sync
+ *   - Connected channels (mirrored to the bot's monitored list)
+ *   - Event import / incremental sync (per-channel sync tokens)
+ *   - Live updates over the bot's SSE stream while auto-import is on
  *   - Persistence in localStorage
  */
 
@@ -22,7 +23,10 @@ import {
   SlackChannel,
   checkSlackBotHealth,
   fetchSlackChannels,
-  fetchSlackEventsFromChannel,
+  syncSlackEvents,
+  setChannelMonitored,
+  subscribeToSlackStream,
+  setSlackBotCredential,
 } from '@/lib/slack';
 import { useEvents } from './EventsContext';
 
@@ -30,6 +34,7 @@ import { useEvents } from './EventsContext';
 
 interface SlackConfig {
   botUrl: string;
+  apiKey: string; // API key or client token issued by the bot
   selectedChannelIds: string[];
   autoImport: boolean;
 }
@@ -38,6 +43,7 @@ interface SlackContextType {
   // Configuration
   config: SlackConfig;
   setBotUrl: (url: string) => void;
+  setApiKey: (apiKey: string) => void;
   setAutoImport: (enabled: boolean) => void;
 
   // Connection state
@@ -69,9 +75,14 @@ const SlackContext = createContext<SlackContextType | undefined>(undefined);
 const SLACK_CONFIG_KEY = 'universify_slack_config';
 const SLACK_EVENTS_KEY = 'universify_slack_events';
 const SLACK_LAST_IMPORT_KEY = 'universify_slack_last_import';
+const SLACK_SYNC_TOKENS_KEY = 'universify_slack_sync_tokens';
+
+// Safety cap on sync round-trips per channel per import
+const MAX_SYNC_PAGES = 20;
 
 const DEFAULT_CONFIG: SlackConfig = {
   botUrl: 'http://localhost:3001',
+  apiKey: '',
   selectedChannelIds: [],
   autoImport: false,
 };
@@ -100,12 +111,13 @@ function saveToStorage(key: string, value: any): void {
 // ─── Provider ──────────────────────────────────────────────────────────
 
 export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const { addExternalEvents, removeExternalEvents } = useEvents();
+  const { addExternalEvents, removeExternalEvents, removeExternalEventsById } = useEvents();
 
   // Config
-  const [config, setConfig] = useState<SlackConfig>(() =>
-    loadFromStorage(SLACK_CONFIG_KEY, DEFAULT_CONFIG)
-  );
+  const [config, setConfig] = useState<SlackConfig>(() => ({
+    ...DEFAULT_CONFIG,
+    ...loadFromStorage<Partial<SlackConfig>>(SLACK_CONFIG_KEY, {}),
+  }));
 
   // Connection
   const [isConnected, setIsConnected] = useState(false);
@@ -128,11 +140,22 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   });
   const [importedCount, setImportedCount] = useState(0);
 
+  // Map<channelId, syncToken> — where the last import left off for each channel
+  const [syncTokens, setSyncTokens] = useState<Record<string, string>>(() =>
+    loadFromStorage(SLACK_SYNC_TOKENS_KEY, {})
+  );
+
   // Persist config changes
   useEffect(() => {
     saveToStorage(SLACK_CONFIG_KEY, config);
   }, [config]);
 
+  // Every bot request authenticates with the configured key (declared before
+  // the mount effects below so auto-import already sends it)
+  useEffect(() => {
+    setSlackBotCredential(config.apiKey);
+  }, [config.apiKey]);
+
   // Load cached Slack events into EventsContext on mount
   useEffect(() => {
     if (slackEvents.length > 0) {
@@ -149,6 +172,30 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   }, []); // Only on mount
 
+  // Live updates: while auto-import is on, apply events the bot parses as they arrive
+  useEffect(() => {
+    if (!config.autoImport || !isConnected || config.selectedChannelIds.length === 0) return;
+
+    return subscribeToSlackStream(config.botUrl, config.selectedChannelIds, {
+      onUpsert: (event) => {
+        setSlackEvents((prev) => {
+          const next = [...prev.filter((e) => e.id !== event.id), event];
+          saveToStorage(SLACK_EVENTS_KEY, next);
+          return next;
+        });
+        addExternalEvents([event]);
+      },
+      onDelete: (eventId) => {
+        setSlackEvents((prev) => {
+          const next = prev.filter((e) => e.id !== eventId);
+          saveToStorage(SLACK_EVENTS_KEY, next);
+          return next;
+        });
+        removeExternalEventsById([eventId]);
+      },
+    });
+  }, [config.autoImport, config.apiKey, config.botUrl, config.selectedChannelIds, isConnected]);
+
   // ── Config setters ──
 
   const setBotUrl = useCallback((url: string) => {
@@ -157,6 +204,12 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     setChannels([]);
   }, []);
 
+  const setApiKey = useCallback((apiKey: string) => {
+    setConfig((prev) => ({ ...prev, apiKey }));
+    setIsConnected(false);
+    setChannels([]);
+  }, []);
+
   const setAutoImport = useCallback((enabled: boolean) => {
     setConfig((prev) => ({ ...prev, autoImport: enabled }));
   }, []);
@@ -174,6 +227,12 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         setIsConnecting(false);
         // Auto-fetch channels on successful connection
         refreshChannels();
+        // Make sure the bot is watching every channel already selected here
+        for (const channelId of config.selectedChannelIds) {
+          setChannelMonitored(config.botUrl, channelId, true).catch((err: any) => {
+            console.error('Failed to register monitored Slack channel:', err.message);
+          });
+        }
         return true;
       } else {
         setConnectionError('Bot is not responding. Make sure the slack-bot server is running.');
@@ -189,7 +248,7 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       setIsConnecting(false);
       return false;
     }
-  }, [config.botUrl]);
+  }, [config.botUrl, config.selectedChannelIds]);
 
   // ── Channels ──
 
@@ -206,13 +265,22 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   }, [config.botUrl]);
 
   const toggleChannel = useCallback((channelId: string) => {
+    const willSelect = !config.selectedChannelIds.includes(channelId);
+
     setConfig((prev) => {
       const selected = prev.selectedChannelIds.includes(channelId)
         ? prev.selectedChannelIds.filter((id) => id !== channelId)
         : [...prev.selectedChannelIds, channelId];
       return { ...prev, selectedChannelIds: selected };
     });
-  }, []);
+
+    // Tell the bot to watch (or stop watching) this channel in real time
+    if (isConnected) {
+      setChannelMonitored(config.botUrl, channelId, willSelect).catch((err: any) => {
+        console.error('Failed to update monitored Slack channel:', err.message);
+      });
+    }
+  }, [config.botUrl, config.selectedChannelIds, isConnected]);
 
   // ── Events import ──
 
@@ -226,35 +294,68 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     setImportError(null);
 
     try {
-      let allEvents: Event[] = [];
+      // Start from what we already have and apply each channel's delta
+      const merged = new Map<string, Event>(slackEvents.map((e) => [e.id, e]));
+      const nextTokens = { ...syncTokens };
+      const changed: Event[] = [];
+      const deleted: string[] = [];
 
       for (const channelId of config.selectedChannelIds) {
-        const events = await fetchSlackEventsFromChannel(config.botUrl, channelId, 50);
-        allEvents = [...allEvents, ...events];
+        let token: string | undefined = nextTokens[channelId];
+
+        for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+          const delta = await syncSlackEvents(config.botUrl, channelId, token);
+
+          if (delta.reset) {
+            // The bot lost its history for our token — drop this channel's events and re-sync
+            const prefix = `slack-${channelId}-`;
+            for (const id of Array.from(merged.keys())) {
+              if (id.startsWith(prefix)) {
+                merged.delete(id);
+                deleted.push(id);
+              }
+            }
+          }
+
+          for (const event of [...delta.created, ...delta.updated]) {
+            merged.set(event.id, event);
+            changed.push(event);
+          }
+          for (const id of delta.deleted) {
+            merged.delete(id);
+            deleted.push(id);
+          }
+
+          token = delta.syncToken;
+          if (!delta.hasMore) break;
+        }
+
+        if (token) nextTokens[channelId] = token;
       }
 
-      // Deduplicate by id
-      const uniqueMap = new Map<string, Event>();
-      for (const event of allEvents) {
-        uniqueMap.set(event.id, event);
-      }
-      const dedupedEvents = Array.from(uniqueMap.values());
+      const syncedEvents = Array.from(merged.values());
 
       // Save to state and localStorage
-      setSlackEvents(dedupedEvents);
-      saveToStorage(SLACK_EVENTS_KEY, dedupedEvents);
+      setSlackEvents(syncedEvents);
+      saveToStorage(SLACK_EVENTS_KEY, syncedEvents);
+      setSyncTokens(nextTokens);
+      saveToStorage(SLACK_SYNC_TOKENS_KEY, nextTokens);
 
       // Update last import time
       const now = new Date();
       setLastImportTime(now);
       saveToStorage(SLACK_LAST_IMPORT_KEY, now.toISOString());
-      setImportedCount(dedupedEvents.length);
+      setImportedCount(syncedEvents.length);
 
-      // Push to EventsContext
-      addExternalEvents(dedupedEvents);
+      // Push the delta to EventsContext
+      removeExternalEventsById(deleted.filter((id) => !merged.has(id)));
+      const changedIds = new Set(changed.map((e) => e.id));
+      addExternalEvents(syncedEvents.filter((e) => changedIds.has(e.id)));
 
-      console.log(`Imported ${dedupedEvents.length} events from Slack`);
-      return dedupedEvents.length;
+      console.log(
+        `Synced Slack events: ${changed.length} created/updated, ${deleted.length} deleted`
+      );
+      return changed.length;
     } catch (err: any) {
       const msg = err.message || 'Failed to import events from Slack';
       setImportError(msg);
@@ -263,7 +364,14 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     } finally {
       setIsImporting(false);
     }
-  }, [config.botUrl, config.selectedChannelIds, addExternalEvents]);
+  }, [
+    config.botUrl,
+    config.selectedChannelIds,
+    slackEvents,
+    syncTokens,
+    addExternalEvents,
+    removeExternalEventsById,
+  ]);
 
   const clearImportedEvents = useCallback(() => {
     // Remove Slack events from EventsContext
@@ -274,6 +382,9 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     setImportedCount(0);
     setLastImportTime(null);
     saveToStorage(SLACK_LAST_IMPORT_KEY, null);
+    // Forget sync positions so the next import fetches everything again
+    setSyncTokens({});
+    saveToStorage(SLACK_SYNC_TOKENS_KEY, {});
   }, [removeExternalEvents]);
 
   // ── Context value ──
@@ -281,6 +392,7 @@ export const SlackProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   const value: SlackContextType = {
     config,
     setBotUrl,
+    setApiKey,
     setAutoImport,
     isConnected,
     isConnecting,
@@ -1,115 +1,204 @@
 /**
  * API Service for Events
- * 
- * This file provides a centralized API interface for event operations.
- * Currently uses localStorage, but can be easily swapped for a real database.
- * 
- * To connect to a database (e.g., Supabase):
- * 1. Install the database client library
- * 2. Replace the implementation functions below with actual API calls
- * 3. Update EventsContext.tsx to use these functions
+ *
+ * Talks to the events REST API served next to the Slack bot (see
+ * apps/slack-bot/src/eventsApi.ts). EventsContext applies changes locally
+ * first and calls these to make them stick; when the API can't be reached it
+ * keeps them in localStorage and retries later.
+ *
+ * Configure with EXPO_PUBLIC_API_URL (default http://localhost:3001/api).
+ * Requests carry the credential the user enters in the Slack settings (see
+ * setSlackBotCredential) — never one built into the bundle, which every
+ * browser could read.
  */
 
-import { Event, EventFormData } from '@/types/event';
+import { normalizeEvent, normalizeEvents } from '@universify/shared';
+import { Event, EventCategory, RSVPStatus } from '@/types/event';
+import { getSlackBotCredential } from '@/lib/slack';
 
-// TODO: Replace with actual API endpoint
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000/api';
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3001/api';
 
 /**
- * Fetch all events from the database
+ * The API answered with an error. Anything else thrown by these functions
+ * (a failed fetch) means it couldn't be reached.
  */
-export const fetchEvents = async (): Promise<Event[]> => {
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly issues: string[] = []) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface EventQuery {
+  from?: string; // ISO 8601; events ending at or after
+  to?: string;   // ISO 8601; events starting before
+  categories?: EventCategory[];
+  tag?: string;
+  organizerId?: string;
+  text?: string;
+  includeSlack?: boolean;
+  limit?: number;
+}
+
+// The envelope every API response shares
+interface ApiResponse {
+  ok?: unknown;
+  error?: unknown;
+  issues?: unknown;
+}
+
+function isApiResponse(data: unknown): data is ApiResponse {
+  return typeof data === 'object' && data !== null && !Array.isArray(data);
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const credential = getSlackBotCredential();
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(credential ? { Authorization: `Bearer ${credential}` } : {}),
+    },
+  });
+
+  let data: unknown = null;
   try {
-    // TODO: Replace with actual API call
-    // Example for Supabase:
-    // const { data, error } = await supabase.from('events').select('*');
-    // if (error) throw error;
-    // return data;
-    
-    // For now, return empty array - events are loaded from localStorage in EventsContext
-    return [];
-  } catch (error) {
-    console.error('Error fetching events:', error);
-    throw error;
+    data = await response.json();
+  } catch {
+    // Non-JSON error page; reported below
+  }
+
+  const body: ApiResponse = isApiResponse(data) ? data : {};
+  if (!response.ok || body.ok !== true) {
+    const issues = Array.isArray(body.issues) ? body.issues.filter((i): i is string => typeof i === 'string') : [];
+    throw new ApiError(typeof body.error === 'string' ? body.error : `HTTP ${response.status}`, response.status, issues);
   }
+  return body as T;
+}
+
+function checkedEvent(raw: unknown): Event {
+  const event = normalizeEvent(raw);
+  if (!event) throw new ApiError('The API returned an invalid event', 502);
+  return event;
+}
+
+function queryString(query: EventQuery): string {
+  const params = new URLSearchParams();
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.categories?.length) params.set('category', query.categories.join(','));
+  if (query.tag) params.set('tag', query.tag);
+  if (query.organizerId) params.set('organizer', query.organizerId);
+  if (query.text) params.set('q', query.text);
+  if (query.includeSlack) params.set('source', 'all');
+  if (query.limit) params.set('limit', String(query.limit));
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+/**
+ * Fetch events created in the app, optionally filtered
+ */
+export const fetchEvents = async (query: EventQuery = {}): Promise<Event[]> => {
+  const data = await request<{ events: unknown[] }>(`/events${queryString(query)}`);
+  return normalizeEvents(data.events);
 };
 
 /**
- * Create a new event
+ * Create a new event. The event keeps the id it was given, so retrying a
+ * create that may have gone through is safe.
  */
-export const createEventAPI = async (eventData: EventFormData, userId: string): Promise<Event> => {
-  try {
-    // TODO: Replace with actual API call
-    // Example for Supabase:
-    // const { data, error } = await supabase
-    //   .from('events')
-    //   .insert([{ ...eventData, organizer_id: userId }])
-    //   .select()
-    //   .single();
-    // if (error) throw error;
-    // return data;
-    
-    throw new Error('API not implemented - using localStorage');
-  } catch (error) {
-    console.error('Error creating event:', error);
-    throw error;
-  }
+export const createEventAPI = async (event: Event): Promise<Event> => {
+  const data = await request<{ event: unknown }>('/events', {
+    method: 'POST',
+    body: JSON.stringify(event),
+  });
+  return checkedEvent(data.event);
 };
 
 /**
  * Update an existing event
  */
-export const updateEventAPI = async (eventId: string, updates: Partial<Event>): Promise<void> => {
-  try {
-    // TODO: Replace with actual API call
-    // Example for Supabase:
-    // const { error } = await supabase
-    //   .from('events')
-    //   .update(updates)
-    //   .eq('id', eventId);
-    // if (error) throw error;
-    
-    throw new Error('API not implemented - using localStorage');
-  } catch (error) {
-    console.error('Error updating event:', error);
-    throw error;
-  }
+export const updateEventAPI = async (eventId: string, updates: Partial<Event>): Promise<Event> => {
+  const data = await request<{ event: unknown }>(`/events/${encodeURIComponent(eventId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+  return checkedEvent(data.event);
 };
 
 /**
  * Delete an event
  */
 export const deleteEventAPI = async (eventId: string): Promise<void> => {
-  try {
-    // TODO: Replace with actual API call
-    // Example for Supabase:
-    // const { error } = await supabase
-    //   .from('events')
-    //   .delete()
-    //   .eq('id', eventId);
-    // if (error) throw error;
-    
-    throw new Error('API not implemented - using localStorage');
-  } catch (error) {
-    console.error('Error deleting event:', error);
-    throw error;
-  }
+  await request(`/events/${encodeURIComponent(eventId)}`, { method: 'DELETE' });
+};
+
+/**
+ * Set a user's RSVP to an event (null clears it)
+ */
+export const updateRSVPAPI = async (eventId: string, userId: string, status: RSVPStatus): Promise<Event> => {
+  const data = await request<{ event: unknown }>(`/events/${encodeURIComponent(eventId)}/rsvp`, {
+    method: 'PUT',
+    body: JSON.stringify({ userId, status }),
+  });
+  return checkedEvent(data.event);
+};
+
+export interface FeedLinks {
+  url: string;       // https:// link to the live .ics file
+  webcalUrl: string; // the same feed as webcal://, which calendar apps subscribe to
+}
+
+/**
+ * Links to the public calendar feed of a category or an organizer
+ */
+export const getFeedLinksAPI = async (
+  feed: { category: EventCategory } | { organizer: string }
+): Promise<FeedLinks> => {
+  const { url, webcalUrl } = await request<FeedLinks>('/feeds', {
+    method: 'POST',
+    body: JSON.stringify(feed),
+  });
+  return { url, webcalUrl };
 };
 
 /**
- * Example Supabase setup (commented out - uncomment and configure when ready)
- * 
- * 1. Install Supabase: npm install @supabase/supabase-js
- * 2. Create a .env file with:
- *    EXPO_PUBLIC_SUPABASE_URL=your_supabase_url
- *    EXPO_PUBLIC_SUPABASE_ANON_KEY=your_supabase_anon_key
- * 3. Uncomment and configure:
- * 
- * import { createClient } from '@supabase/supabase-js';
- * 
- * const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL!;
- * const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!;
- * 
- * export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+ * Send the user's scheduled events to their calendar feed and get its
+ * links. `events` are copies of the ones the API doesn't store (seeded or
+ * imported events); the feed's URL stays the same across updates.
  */
+export const syncScheduleFeedAPI = async (
+  userId: string,
+  eventIds: string[],
+  events: Event[]
+): Promise<FeedLinks> => {
+  const { url, webcalUrl } = await request<FeedLinks>('/feeds/scheduled', {
+    method: 'PUT',
+    body: JSON.stringify({ userId, eventIds, events }),
+  });
+  return { url, webcalUrl };
+};
 
+export interface FetchedFeed {
+  notModified: boolean; // the validators sent still match; nothing else is set
+  text?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Fetch another calendar's iCalendar or RSS feed through the bot, which
+ * browsers need for feeds without CORS headers. Pass the `etag` and
+ * `lastModified` of the last fetch to skip unchanged feeds.
+ */
+export const fetchFeedSourceAPI = async (
+  url: string,
+  validators: { etag?: string; lastModified?: string } = {}
+): Promise<FetchedFeed> => {
+  const { notModified, text, etag, lastModified } = await request<FetchedFeed>('/feed-sources/fetch', {
+    method: 'POST',
+    body: JSON.stringify({ url, ...validators }),
+  });
+  return { notModified, text, etag, lastModified };
+};
@@ -0,0 +1,70 @@
+/**
+ * Event feeds from other calendars (campus offices, libraries, ...), in
+ * iCalendar or RSS / Atom. They're fetched through the bot (see
+ * fetchFeedSourceAPI) and parsed here with the shared readers; the
+ * subscriptions themselves live in FeedSourcesContext.
+ *
+ * A feed's events get ids `feed-<source id>-<id in the feed>`, so they stay
+ * the same across fetches and can be removed per source.
+ */
+
+import { EventDefaults, EventFeedFormat, parseEventFeed } from '@universify/shared';
+import { Event } from '@/types/event';
+import { fetchFeedSourceAPI } from '@/lib/api';
+
+export const FEED_ID_PREFIX = 'feed-';
+
+export interface FeedSource {
+  id: string;
+  url: string;
+  name: string;
+  enabled: boolean;
+}
+
+// Defaults for feed events, which rarely say who organizes them
+export const FEED_EVENT_DEFAULTS: Partial<EventDefaults> = {
+  color: '#14B8A6',
+  organizer: { id: 'feed-unknown', name: 'Campus calendar', type: 'club' },
+};
+
+export function feedEventPrefix(sourceId: string): string {
+  return `${FEED_ID_PREFIX}${sourceId}-`;
+}
+
+export function newFeedSourceId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export type FeedSourceResult =
+  | { notModified: true }
+  | {
+      notModified: false;
+      format: EventFeedFormat;
+      title: string;
+      events: Event[];
+      etag?: string;
+      lastModified?: string;
+    };
+
+/**
+ * Fetch and parse a source's feed. With the validators of the last fetch,
+ * resolves with `notModified` if the feed hasn't changed since.
+ */
+export const readFeedSource = async (
+  source: FeedSource,
+  validators: { etag?: string; lastModified?: string } = {}
+): Promise<FeedSourceResult> => {
+  const fetched = await fetchFeedSourceAPI(source.url, validators);
+  if (fetched.notModified) return { notModified: true };
+
+  const feed = parseEventFeed(fetched.text ?? '', FEED_EVENT_DEFAULTS);
+  const prefix = feedEventPrefix(source.id);
+  return {
+    notModified: false,
+    format: feed.format,
+    title: feed.title,
+    events: feed.events.map((event) => ({ ...event, id: `${prefix}${event.id.replace(/^(ics|rss)-/, '')}` })),
+    etag: fetched.etag,
+    lastModified: fetched.lastModified,
+  };
+};
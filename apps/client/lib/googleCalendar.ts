@@ -27,6 +27,36 @@ export interface GoogleCalendarEvent {
   }>;
   created?: string;
   updated?: string;
+  etag?: string; // changes on every edit; sent as If-Match so updates don't overwrite newer edits
+  status?: 'confirmed' | 'tentative' | 'cancelled';
+}
+
+const EVENTS_URL = 'https://www.googleapis.com/calendar/v3/calendars/primary/events';
+
+/**
+ * Google Calendar answered with an error. `status` is the HTTP status:
+ * 412 means the event changed since the etag that was sent.
+ */
+export class GoogleCalendarApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GoogleCalendarApiError';
+  }
+}
+
+/** The fields of a Universify event that Google Calendar events have too. */
+export type GoogleSyncedFields = Pick<Event, 'title' | 'description' | 'location' | 'startTime' | 'endTime'>;
+
+// The Google Calendar fields for (some of) an event's synced fields
+function toGoogleFields(fields: Partial<GoogleSyncedFields>): Partial<GoogleCalendarEvent> {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return {
+    ...(fields.title !== undefined ? { summary: fields.title } : {}),
+    ...(fields.description !== undefined ? { description: fields.description } : {}),
+    ...(fields.location !== undefined ? { location: fields.location } : {}),
+    ...(fields.startTime !== undefined ? { start: { dateTime: new Date(fields.startTime).toISOString(), timeZone } } : {}),
+    ...(fields.endTime !== undefined ? { end: { dateTime: new Date(fields.endTime).toISOString(), timeZone } } : {}),
+  };
 }
 
 export interface GoogleCalendarEventsResponse {
@@ -239,31 +269,17 @@ export async function createGoogleCalendarEvent(
   accessToken: string,
   event: Event
 ): Promise<GoogleCalendarEvent> {
-  // Exact same implementation as GCal - simple and working
-  const start = new Date(event.startTime);
-  const end = new Date(event.endTime);
-
-  const googleEvent = {
-    summary: event.title,
+  const googleEvent = toGoogleFields({
+    title: event.title,
     description: event.description,
-    start: {
-      dateTime: start.toISOString(),
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    },
-    end: {
-      dateTime: end.toISOString(),
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    },
-  };
-
-  // Add location if it exists (same as GCal structure)
-  if (event.location) {
-    (googleEvent as any).location = event.location;
-  }
+    startTime: event.startTime,
+    endTime: event.endTime,
+    ...(event.location ? { location: event.location } : {}),
+  });
 
   try {
     const res = await fetch(
-      'https://www.googleapis.com/calendar/v3/calendars/primary/events',
+      EVENTS_URL,
       {
         method: 'POST',
         headers: {
@@ -325,3 +341,62 @@ export async function deleteGoogleCalendarEvent(
   }
 }
 
+
+/**
+ * Fetch one event from Google Calendar. Resolves with null if it was
+ * deleted there.
+ */
+export async function fetchGoogleCalendarEvent(
+  accessToken: string,
+  googleEventId: string
+): Promise<GoogleCalendarEvent | null> {
+  const response = await fetch(`${EVENTS_URL}/${encodeURIComponent(googleEventId)}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+    },
+  });
+
+  if (response.status === 404 || response.status === 410) return null;
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new GoogleCalendarApiError(
+      json.error?.message || `Failed to fetch calendar event: ${response.statusText}`,
+      response.status
+    );
+  }
+
+  const googleEvent = json as GoogleCalendarEvent;
+  return googleEvent.status === 'cancelled' ? null : googleEvent;
+}
+
+/**
+ * Change some fields of a Google Calendar event. With an `etag`, the update
+ * only goes through if the event hasn't changed since (otherwise it throws
+ * a GoogleCalendarApiError with status 412).
+ */
+export async function updateGoogleCalendarEvent(
+  accessToken: string,
+  googleEventId: string,
+  changes: Partial<GoogleSyncedFields>,
+  etag?: string
+): Promise<GoogleCalendarEvent> {
+  const response = await fetch(`${EVENTS_URL}/${encodeURIComponent(googleEventId)}`, {
+    method: 'PATCH',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      ...(etag ? { 'If-Match': etag } : {}),
+    },
+    body: JSON.stringify(toGoogleFields(changes)),
+  });
+
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new GoogleCalendarApiError(
+      json.error?.message || `Failed to update calendar event: ${response.statusText}`,
+      response.status
+    );
+  }
+  return json as GoogleCalendarEvent;
+}
@@ -0,0 +1,153 @@
+/**
+ * Two-way sync between Universify events and their copies in the user's
+ * Google Calendar.
+ *
+ * Adding an event to Google Calendar links the two (GoogleSyncLink) and
+ * records the fields each side had then. On every sync, each side's changes
+ * since the last sync decide what happens (planSync):
+ *
+ *   - Only Universify changed: the changes are PATCHed to Google.
+ *   - Only Google changed: the changes are pulled into the Universify event.
+ *   - Both changed, but different fields: both are applied.
+ *   - Both changed the same field: a conflict. The side edited last is
+ *     suggested (last writer wins), but the user decides. Either way, the
+ *     fields only one side changed are applied as above.
+ *
+ * Google edits are only pulled into events the user organizes; anyone
+ * else's event stays as its organizer left it, and the user's Google copy
+ * keeps their edits until the organizer changes the same fields. Such a
+ * conflict can only be settled in Universify's favor (`canKeepGoogle`), and
+ * the prompt says why.
+ *
+ * GoogleSyncContext runs the plans; this module only decides them.
+ */
+
+import { Event } from '@/types/event';
+import { GoogleCalendarEvent, GoogleSyncedFields } from '@/lib/googleCalendar';
+
+export const GOOGLE_SYNCED_FIELDS: (keyof GoogleSyncedFields)[] = ['title', 'description', 'location', 'startTime', 'endTime'];
+
+export interface GoogleSyncLink {
+  eventId: string; // Universify event id
+  googleEventId: string;
+  etag?: string; // of the Google event when last synced
+  universify: GoogleSyncedFields; // each side's fields when last synced
+  google: GoogleSyncedFields;
+  syncedAt: string; // ISO 8601
+}
+
+export type SyncSide = 'universify' | 'google';
+
+export interface GoogleSyncConflict {
+  eventId: string;
+  title: string;
+  fields: (keyof GoogleSyncedFields)[]; // changed differently on both sides
+  universify: GoogleSyncedFields;
+  google: GoogleSyncedFields;
+  universifyUpdatedAt: string;
+  googleUpdatedAt: string;
+  suggested: SyncSide; // the side edited last, if both can be kept
+  etag?: string; // of the Google version shown
+  canKeepGoogle: boolean; // false for events the user doesn't organize, which Google edits can't change
+  push: Partial<GoogleSyncedFields>; // the other changes, applied whichever side is kept
+  pull: Partial<GoogleSyncedFields>;
+}
+
+export type SyncPlan =
+  | { kind: 'in-sync' }
+  | { kind: 'apply'; push: Partial<GoogleSyncedFields>; pull: Partial<GoogleSyncedFields> }
+  | { kind: 'conflict'; conflict: GoogleSyncConflict };
+
+export function syncedFieldsOf(event: Event): GoogleSyncedFields {
+  return {
+    title: event.title,
+    description: event.description,
+    location: event.location,
+    startTime: event.startTime,
+    endTime: event.endTime,
+  };
+}
+
+export function syncedFieldsOfGoogle(googleEvent: GoogleCalendarEvent): GoogleSyncedFields {
+  const time = (t: GoogleCalendarEvent['start']) =>
+    t.dateTime ? new Date(t.dateTime).toISOString() : t.date ? new Date(`${t.date}T00:00:00`).toISOString() : '';
+  return {
+    title: googleEvent.summary || '',
+    description: googleEvent.description || '',
+    location: googleEvent.location || '',
+    startTime: time(googleEvent.start),
+    endTime: time(googleEvent.end),
+  };
+}
+
+function sameValue(field: keyof GoogleSyncedFields, a: string, b: string): boolean {
+  if (field === 'startTime' || field === 'endTime') return Date.parse(a) === Date.parse(b);
+  return a.trim() === b.trim();
+}
+
+/** The fields of `to` that differ from `from`. */
+export function changedFields(from: GoogleSyncedFields, to: GoogleSyncedFields): Partial<GoogleSyncedFields> {
+  const changes: Partial<GoogleSyncedFields> = {};
+  for (const field of GOOGLE_SYNCED_FIELDS) {
+    if (!sameValue(field, from[field], to[field])) changes[field] = to[field];
+  }
+  return changes;
+}
+
+function isEmpty(changes: Partial<GoogleSyncedFields>): boolean {
+  return Object.keys(changes).length === 0;
+}
+
+/**
+ * What to do to bring an event and its Google copy back in step. `canPull`
+ * says whether Google edits may change the event (see the top of this file).
+ */
+export function planSync(event: Event, googleEvent: GoogleCalendarEvent, link: GoogleSyncLink, canPull: boolean): SyncPlan {
+  const universify = syncedFieldsOf(event);
+  const google = syncedFieldsOfGoogle(googleEvent);
+  const local = changedFields(link.universify, universify);
+  const remote = changedFields(link.google, google);
+
+  const conflicting = GOOGLE_SYNCED_FIELDS.filter(
+    (field) => field in local && field in remote && !sameValue(field, universify[field], google[field])
+  );
+  for (const field of conflicting) {
+    delete local[field];
+    delete remote[field];
+  }
+
+  // A side only needs what it doesn't already have
+  const push = changedFields(google, { ...google, ...local });
+  const pull = changedFields(universify, { ...universify, ...remote });
+
+  if (conflicting.length > 0) {
+    const universifyUpdatedAt = event.updatedAt;
+    const googleUpdatedAt = googleEvent.updated || link.syncedAt;
+    return {
+      kind: 'conflict',
+      conflict: {
+        eventId: event.id,
+        title: event.title,
+        fields: conflicting,
+        universify,
+        google,
+        universifyUpdatedAt,
+        googleUpdatedAt,
+        suggested: canPull && Date.parse(googleUpdatedAt) > Date.parse(universifyUpdatedAt) ? 'google' : 'universify',
+        etag: googleEvent.etag,
+        canKeepGoogle: canPull,
+        push,
+        pull,
+      },
+    };
+  }
+  return isEmpty(push) && isEmpty(pull) ? { kind: 'in-sync' } : { kind: 'apply', push, pull };
+}
+
+/** The plan that settles a conflict's fields in favor of one side. */
+export function resolveConflictPlan(conflict: GoogleSyncConflict, keep: SyncSide): SyncPlan {
+  const kept = Object.fromEntries(conflict.fields.map((field) => [field, conflict[keep][field]]));
+  return keep === 'universify'
+    ? { kind: 'apply', push: { ...conflict.push, ...kept }, pull: conflict.pull }
+    : { kind: 'apply', push: conflict.push, pull: { ...conflict.pull, ...kept } };
+}
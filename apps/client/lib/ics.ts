@@ -0,0 +1,91 @@
+/**
+ * iCalendar (.ics) files for the Universify client.
+ *
+ * The format itself is in packages/shared (ical.ts). On the web, exporting
+ * downloads a file and importing opens a file picker; on native, exporting
+ * opens the share sheet with the calendar's text, and importing isn't
+ * available yet (there is no file picker).
+ *
+ * Calendar feeds are the live alternative: the bot serves them (see
+ * getFeedLinksAPI and syncScheduleFeedAPI in lib/api.ts) and calendar apps
+ * subscribe to them once, then pick up changes by themselves.
+ */
+
+import { Linking, Platform, Share } from 'react-native';
+import { EventDefaults, parseICalendar, toICalendar } from '@universify/shared';
+import { Event } from '@/types/event';
+import { FeedLinks } from '@/lib/api';
+
+// Defaults for imported events, which rarely say who organizes them
+export const ICS_EVENT_DEFAULTS: Partial<EventDefaults> = {
+  color: '#0EA5E9',
+  organizer: { id: 'ics-unknown', name: 'Imported calendar', type: 'club' },
+  tags: ['Imported'],
+};
+
+export const canImportICS = Platform.OS === 'web';
+
+function fileNameFor(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'events'}.ics`;
+}
+
+/**
+ * Save events as an .ics file that Apple Calendar, Outlook or Google
+ * Calendar can import. `name` names the file and the calendar.
+ */
+export const exportEventsToICS = async (events: Event[], name: string): Promise<void> => {
+  const ics = toICalendar(events, { name });
+
+  if (Platform.OS !== 'web') {
+    await Share.share({ title: fileNameFor(name), message: ics });
+    return;
+  }
+
+  const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileNameFor(name);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+function pickICSFile(): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.ics,text/calendar';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, reject);
+    };
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
+
+/**
+ * Let the user pick an .ics file and read its events. Resolves with null
+ * if they cancel; web only (see canImportICS).
+ */
+export const importEventsFromICS = async (): Promise<Event[] | null> => {
+  if (!canImportICS) throw new Error('Importing .ics files is only available on the web');
+  const text = await pickICSFile();
+  return text === null ? null : parseICalendar(text, ICS_EVENT_DEFAULTS);
+};
+
+/**
+ * Hand a calendar feed to the device's calendar app, which asks the user to
+ * subscribe to it. Falls back to the https:// link where nothing handles
+ * webcal://.
+ */
+export const subscribeToFeed = async (links: FeedLinks): Promise<void> => {
+  const canOpenWebcal = Platform.OS === 'web' || (await Linking.canOpenURL(links.webcalUrl));
+  await Linking.openURL(canOpenWebcal ? links.webcalUrl : links.url);
+};
@@ -2,9 +2,12 @@
  * Slack API helpers for the Universify client.
  *
  * Communicates with the slack-bot REST API to fetch channels and events.
+ * Every request carries the API key or client token set with
+ * `setSlackBotCredential` (the bot rejects unauthenticated calls).
  */
 
-import { Event, EventCategory } from '@/types/event';
+import { EventDefaults, normalizeEvents } from '@universify/shared';
+import { Event } from '@/types/event';
 
 // ─── Types ─────────────────────────────────────────────────────────────
 
@@ -14,7 +17,8 @@ export interface SlackChannel {
   topic: string;
   purpose: string;
   memberCount: number;
-  isPrivate: boolean;
+  isPrivate: boolean; // private channel or group DM; the bot only imports it while selected
+  isMpim?: boolean;
 }
 
 export interface SlackChannelsResponse {
@@ -28,6 +32,18 @@ export interface SlackEventsResponse {
   events: Event[];
   count: number;
   channel?: { id: string; name: string };
+  deleted?: string[]; // ids of events whose Slack message was deleted (cached endpoint only)
+  error?: string;
+}
+
+export interface SlackSyncResponse {
+  ok: boolean;
+  created: Event[];
+  updated: Event[];
+  deleted: string[];
+  syncToken: string;
+  hasMore: boolean;
+  reset: boolean; // the bot no longer recognises the token; local state for this channel is stale
   error?: string;
 }
 
@@ -35,21 +51,67 @@ export interface SlackHealthResponse {
   status: string;
   service: string;
   eventsInStore: number;
+  storeBackend?: string;
+  // Queued Slack API calls and methods Slack is currently rate limiting
+  slackApi?: {
+    active: number;
+    queued: number;
+    backoffs: { method: string; retryAt: string; retryAfterSeconds: number; hits: number }[];
+  };
   timestamp: string;
 }
 
+// ─── Credentials ───────────────────────────────────────────────────────
+
+let botCredential = '';
+
+// Client tokens minted by the bot start with this; anything else is an API key
+const CLIENT_TOKEN_PREFIX = 'uvt.';
+
+/**
+ * Set the API key or client token sent to the bot. Called by SlackContext
+ * whenever the configured credential changes.
+ */
+export function setSlackBotCredential(credential: string): void {
+  botCredential = credential.trim();
+}
+
+/** The API key or client token set with setSlackBotCredential ('' if none). */
+export function getSlackBotCredential(): string {
+  return botCredential;
+}
+
+function botHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(botCredential ? { Authorization: `Bearer ${botCredential}` } : {}),
+  };
+}
+
 // ─── API helpers ───────────────────────────────────────────────────────
 
 /**
  * Check if the Slack bot is running and reachable.
  */
 export async function checkSlackBotHealth(botUrl: string): Promise<SlackHealthResponse | null> {
+  let response: Response;
   try {
-    const response = await fetch(`${botUrl}/api/slack/health`, {
+    response = await fetch(`${botUrl}/api/slack/health`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: botHeaders(),
     });
-    if (!response.ok) return null;
+  } catch (error) {
+    console.error('Slack bot health check failed:', error);
+    return null;
+  }
+
+  // Reachable but the credential is missing or wrong — say so instead of "not responding"
+  if (response.status === 401) {
+    throw new Error('The Slack bot rejected the API key. Check it in Slack settings.');
+  }
+  if (!response.ok) return null;
+
+  try {
     return await response.json();
   } catch (error) {
     console.error('Slack bot health check failed:', error);
@@ -64,7 +126,7 @@ export async function fetchSlackChannels(botUrl: string): Promise<SlackChannel[]
   try {
     const response = await fetch(`${botUrl}/api/slack/channels`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: botHeaders(),
     });
 
     if (!response.ok) {
@@ -99,7 +161,7 @@ export async function fetchSlackEventsFromChannel(
 
     const response = await fetch(`${botUrl}/api/slack/events?${params}`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: botHeaders(),
     });
 
     if (!response.ok) {
@@ -119,6 +181,46 @@ export async function fetchSlackEventsFromChannel(
   }
 }
 
+/**
+ * Fetch events created, updated, or deleted in a channel since `syncToken`.
+ * Omit the token for the first sync. Call again with the returned token
+ * while `hasMore` is true.
+ */
+export async function syncSlackEvents(
+  botUrl: string,
+  channelId: string,
+  syncToken?: string
+): Promise<SlackSyncResponse> {
+  try {
+    const params = new URLSearchParams({ channel: channelId });
+    if (syncToken) params.set('since', syncToken);
+
+    const response = await fetch(`${botUrl}/api/slack/sync?${params}`, {
+      method: 'GET',
+      headers: botHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data: SlackSyncResponse = await response.json();
+    if (!data.ok) {
+      throw new Error(data.error || 'Failed to sync events');
+    }
+
+    return {
+      ...data,
+      created: convertSlackResponseToEvents(data.created),
+      updated: convertSlackResponseToEvents(data.updated),
+      deleted: Array.isArray(data.deleted) ? data.deleted : [],
+    };
+  } catch (error) {
+    console.error(`Error syncing Slack events from channel ${channelId}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Fetch all cached events from the Slack bot (across all channels).
  */
@@ -126,7 +228,7 @@ export async function fetchAllCachedSlackEvents(botUrl: string): Promise<Event[]
   try {
     const response = await fetch(`${botUrl}/api/slack/cached`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: botHeaders(),
     });
 
     if (!response.ok) {
@@ -145,48 +247,186 @@ export async function fetchAllCachedSlackEvents(botUrl: string): Promise<Event[]
   }
 }
 
+// ─── Live stream ───────────────────────────────────────────────────────
+
+export interface SlackStreamHandlers {
+  onUpsert: (event: Event) => void;
+  onDelete: (eventId: string) => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A credential for the stream's URL. EventSource can't send headers, and
+ * the bot only takes client tokens in a query string, so an API key is
+ * swapped for a token limited to the streamed channels.
+ */
+async function streamCredential(botUrl: string, channelIds: string[]): Promise<string> {
+  if (!botCredential || botCredential.startsWith(CLIENT_TOKEN_PREFIX)) return botCredential;
+
+  const response = await fetch(`${botUrl}/api/slack/auth/token`, {
+    method: 'POST',
+    headers: botHeaders(),
+    body: JSON.stringify({ channels: channelIds }),
+  });
+  const data = await response.json();
+  if (!response.ok || !data.ok || typeof data.token !== 'string') {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return data.token;
+}
+
+/** Pass a stream's messages on to the handlers. */
+function listenToStream(source: EventSource, handlers: SlackStreamHandlers): void {
+  const handleUpsert = (message: MessageEvent) => {
+    try {
+      const data = JSON.parse(message.data);
+      const [event] = convertSlackResponseToEvents([data.event]);
+      if (event) handlers.onUpsert(event);
+    } catch (error) {
+      console.error('Error handling Slack stream message:', error);
+    }
+  };
+
+  const handleDelete = (message: MessageEvent) => {
+    try {
+      const data = JSON.parse(message.data);
+      if (data.id) handlers.onDelete(data.id);
+    } catch (error) {
+      console.error('Error handling Slack stream message:', error);
+    }
+  };
+
+  source.addEventListener('event.created', handleUpsert);
+  source.addEventListener('event.updated', handleUpsert);
+  source.addEventListener('event.deleted', handleDelete);
+  source.onerror = (error) => {
+    // EventSource reconnects on its own; just surface it
+    handlers.onError?.(error);
+  };
+}
+
+/**
+ * Subscribe to the bot's Server-Sent Events stream for the given channels.
+ * Returns an unsubscribe function. A no-op where EventSource is unavailable
+ * (native builds) — those clients fall back to manual import.
+ */
+export function subscribeToSlackStream(
+  botUrl: string,
+  channelIds: string[],
+  handlers: SlackStreamHandlers
+): () => void {
+  if (typeof EventSource === 'undefined') return () => {};
+
+  let source: EventSource | undefined;
+  let unsubscribed = false;
+  streamCredential(botUrl, channelIds)
+    .then((credential) => {
+      if (unsubscribed) return;
+      const params = new URLSearchParams({
+        channels: channelIds.join(','),
+        ...(credential ? { access_token: credential } : {}),
+      });
+      source = new EventSource(`${botUrl}/api/slack/stream?${params}`);
+      listenToStream(source, handlers);
+    })
+    .catch((error) => handlers.onError?.(error));
+
+  return () => {
+    unsubscribed = true;
+    source?.close();
+  };
+}
+
+// ─── Monitored channels ────────────────────────────────────────────────
+
+interface SlackMonitoredResponse {
+  ok: boolean;
+  channels: string[];
+  error?: string;
+}
+
+/**
+ * Fetch the channel ids the bot's real-time listener is watching.
+ */
+export async function fetchMonitoredChannels(botUrl: string): Promise<string[]> {
+  try {
+    const response = await fetch(`${botUrl}/api/slack/monitored`, {
+      method: 'GET',
+      headers: botHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data: SlackMonitoredResponse = await response.json();
+    if (!data.ok) {
+      throw new Error(data.error || 'Failed to fetch monitored channels');
+    }
+
+    return data.channels;
+  } catch (error) {
+    console.error('Error fetching monitored Slack channels:', error);
+    throw error;
+  }
+}
+
+/**
+ * Tell the bot to start or stop watching a channel in real time.
+ * Returns the updated list of monitored channel ids.
+ */
+export async function setChannelMonitored(
+  botUrl: string,
+  channelId: string,
+  monitored: boolean
+): Promise<string[]> {
+  try {
+    const response = monitored
+      ? await fetch(`${botUrl}/api/slack/monitored`, {
+          method: 'POST',
+          headers: botHeaders(),
+          body: JSON.stringify({ channel: channelId }),
+        })
+      : await fetch(`${botUrl}/api/slack/monitored/${encodeURIComponent(channelId)}`, {
+          method: 'DELETE',
+          headers: botHeaders(),
+        });
+
+    // Removing a channel the bot wasn't watching is not an error for the client
+    if (!monitored && response.status === 404) {
+      return fetchMonitoredChannels(botUrl);
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data: SlackMonitoredResponse = await response.json();
+    if (!data.ok) {
+      throw new Error(data.error || 'Failed to update monitored channel');
+    }
+
+    return data.channels;
+  } catch (error) {
+    console.error(`Error updating monitored state for Slack channel ${channelId}:`, error);
+    throw error;
+  }
+}
+
 // ─── Data conversion ───────────────────────────────────────────────────
 
-const VALID_CATEGORIES: EventCategory[] = [
-  'Career', 'Food', 'Fun', 'Afternoon', 'Events',
-  'Academic', 'Networking', 'Social', 'Sports', 'Arts', 'Tech', 'Wellness',
-];
+// Slack purple, and the bot as organizer, for anything the API leaves out
+const SLACK_EVENT_DEFAULTS: Partial<EventDefaults> = {
+  color: '#611f69',
+  organizer: { id: 'slack-unknown', name: 'Slack', type: 'club' },
+  tags: ['Slack'],
+};
 
 /**
  * Convert raw event objects from the Slack bot API into properly-typed Event objects.
- * Ensures all required fields are present with sensible defaults.
+ * Checks each one against the shared event model, filling in defaults for
+ * missing fields and dropping anything that isn't an event.
  */
 export function convertSlackResponseToEvents(rawEvents: any[]): Event[] {
-  if (!Array.isArray(rawEvents)) return [];
-
-  return rawEvents
-    .filter((e) => e && e.id && e.title)
-    .map((e): Event => ({
-      id: e.id,
-      title: e.title || 'Untitled Slack Event',
-      description: e.description || '',
-      startTime: e.startTime || new Date().toISOString(),
-      endTime: e.endTime || new Date().toISOString(),
-      location: e.location || '',
-      categories: Array.isArray(e.categories)
-        ? e.categories.filter((c: string) => VALID_CATEGORIES.includes(c as EventCategory))
-        : ['Events'],
-      organizer: {
-        id: e.organizer?.id || 'slack-unknown',
-        name: e.organizer?.name || 'Slack',
-        type: e.organizer?.type === 'individual' ? 'individual' : 'club',
-      },
-      color: e.color || '#611f69',
-      rsvpEnabled: e.rsvpEnabled ?? false,
-      rsvpCounts: e.rsvpCounts || { going: 0, maybe: 0, notGoing: 0 },
-      attendees: Array.isArray(e.attendees) ? e.attendees : [],
-      attendeeVisibility: e.attendeeVisibility || 'public',
-      isClubEvent: e.isClubEvent ?? true,
-      isSocialEvent: e.isSocialEvent ?? false,
-      capacity: e.capacity,
-      tags: Array.isArray(e.tags) ? e.tags : ['Slack'],
-      createdAt: e.createdAt || new Date().toISOString(),
-      updatedAt: e.updatedAt || new Date().toISOString(),
-      imageUrl: e.imageUrl,
-    }));
+  return normalizeEvents(rawEvents, SLACK_EVENT_DEFAULTS);
 }
@@ -1,3 +1,4 @@
+import { expandEvents, expandOccurrences, nextOccurrence } from '@universify/shared';
 import { Event, EventCategory } from '@/types/event';
 import { FilterState } from '@/types/settings';
 
@@ -15,12 +16,14 @@ export const filterEvents = (events: Event[], filters: FilterState): Event[] =>
     if (!filters.eventTypes.clubEvents && event.isClubEvent) return false;
     if (!filters.eventTypes.socialEvents && event.isSocialEvent) return false;
 
-    // Date range filter
+    // Date range filter (a recurring event matches if any occurrence starts in range)
     if (filters.dateRange) {
-      const eventStart = new Date(event.startTime);
       const rangeStart = new Date(filters.dateRange.start);
       const rangeEnd = new Date(filters.dateRange.end);
-      if (eventStart < rangeStart || eventStart > rangeEnd) return false;
+      const starts = event.recurring
+        ? expandOccurrences(event, rangeStart, new Date(rangeEnd.getTime() + 1)).map((o) => new Date(o.startTime))
+        : [new Date(event.startTime)];
+      if (!starts.some((start) => start >= rangeStart && start <= rangeEnd)) return false;
     }
 
     // Location filter
@@ -177,7 +180,9 @@ export const getEventsByDay = (
   const endOfDay = new Date(date);
   endOfDay.setHours(23, 59, 59, 999);
 
-  return events.filter((event) => {
+  // Recurring events become their occurrences on this day
+  const dayEvents = expandEvents(events, startOfDay, new Date(endOfDay.getTime() + 1));
+  return dayEvents.filter((event) => {
     const eventStart = new Date(event.startTime);
     const eventEnd = new Date(event.endTime);
     // Include events that start or end on this day, or span across it
@@ -194,8 +199,10 @@ export const getUpcomingEvents = (
   limit?: number
 ): Event[] => {
   const now = new Date();
+  // A recurring event is listed as its next occurrence
   const upcoming = events
-    .filter((event) => new Date(event.startTime) > now)
+    .map((event) => (event.recurring ? nextOccurrence(event, now) : event))
+    .filter((event): event is Event => !!event && new Date(event.startTime) > now)
     .sort(
       (a, b) =>
         new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
@@ -0,0 +1,288 @@
+/**
+ * Authentication for the REST API.
+ *
+ * Every /api/slack/* and /api/events route (except the OAuth install flow)
+ * needs a credential, sent as `Authorization: Bearer <credential>`. Client
+ * tokens may instead go in `?access_token=` (EventSource, used for the SSE
+ * stream, cannot set headers); API keys never do, since query strings end
+ * up in proxy logs and browser history. Two kinds are accepted:
+ *
+ *   - API keys: long-lived workspace secrets. Keys for the default workspace
+ *     come from API_KEYS ("key1,key2"; "key:T0123" pins a key to an installed
+ *     team). Each OAuth install also gets a generated key (stored hashed).
+ *   - Client tokens: short-lived HMAC-signed tokens minted by an API key
+ *     holder via POST /api/slack/auth/token, optionally limited to a set of
+ *     channels. Signed with API_TOKEN_SECRET. Events from private channels
+ *     and group DMs are only served to tokens minted for that channel.
+ *     A token minted for a `userId` acts as that app user (see canActAs);
+ *     one minted without can't change app events or RSVPs.
+ *
+ * The credential decides the workspace: the rest of the request runs in
+ * that team's context (see tenants.ts), so it only ever sees that team's store.
+ *
+ * Calendar feeds (see feeds.ts) are fetched by calendar apps, which can't
+ * send credentials; their URL carries a feed token, signed like client
+ * tokens, that names the workspace and the feed.
+ *
+ * AUTH_DISABLED=true skips all checks (local development only).
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { ChannelVisibility } from '@universify/shared';
+import { UniversifyEvent } from './parser';
+import { DEFAULT_TEAM, runWithTeam } from './tenants';
+import { findTeamByApiKeyHash } from './installations';
+
+const TOKEN_PREFIX = 'uvt';
+const FEED_TOKEN_PREFIX = 'uvf';
+const DEFAULT_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+const MAX_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface AuthContext {
+  teamId: string;
+  kind: 'api-key' | 'token' | 'disabled';
+  channels?: string[]; // client tokens may be limited to these channels
+  userId?: string;     // the app user a client token acts as
+}
+
+interface TokenPayload {
+  team: string;
+  ch?: string[];
+  sub?: string; // app user id
+  exp: number; // seconds since epoch
+}
+
+/** What a calendar feed serves: one category's or organizer's events, or a user's schedule. */
+export type FeedScope = { category: string } | { organizer: string } | { user: string };
+
+interface FeedTokenPayload {
+  team: string;
+  feed: FeedScope;
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): string {
+  return `uvk_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+function tokenSecret(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return env.API_TOKEN_SECRET || undefined;
+}
+
+/**
+ * HMAC-sign a JSON payload as `<prefix>.<payload>.<signature>` (base64url).
+ * Also used for the OAuth `state` parameter.
+ */
+export function signPayload(prefix: string, payload: object, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto.createHmac('sha256', secret).update(`${prefix}.${body}`).digest('base64url');
+  return `${prefix}.${body}.${signature}`;
+}
+
+/**
+ * Verify a value produced by signPayload. Returns the payload, or null if
+ * the prefix or signature doesn't match.
+ */
+export function verifyPayload<T>(prefix: string, value: string, secret: string): T | null {
+  const [valuePrefix, body, signature] = value.split('.');
+  if (valuePrefix !== prefix || !body || !signature) return null;
+
+  const expected = crypto.createHmac('sha256', secret).update(`${prefix}.${body}`).digest('base64url');
+  if (!safeEqual(signature, expected)) return null;
+
+  try {
+    return JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+// ─── API keys ──────────────────────────────────────────────────────────
+
+function parseApiKeys(raw: string | undefined): Map<string, string> {
+  const keys = new Map<string, string>(); // key → teamId
+  if (!raw) return keys;
+
+  for (const entry of raw.split(',')) {
+    const [key, teamId] = entry.split(':').map((s) => s.trim());
+    if (key) keys.set(key, teamId || DEFAULT_TEAM);
+  }
+  return keys;
+}
+
+function authenticateApiKey(key: string, env: NodeJS.ProcessEnv = process.env): AuthContext | null {
+  for (const [configured, teamId] of parseApiKeys(env.API_KEYS)) {
+    if (safeEqual(key, configured)) return { teamId, kind: 'api-key' };
+  }
+
+  const teamId = findTeamByApiKeyHash(hashApiKey(key));
+  return teamId ? { teamId, kind: 'api-key' } : null;
+}
+
+// ─── Client tokens ─────────────────────────────────────────────────────
+
+/**
+ * Mint a client token for a team, optionally limited to some channels and
+ * acting as one app user. Throws if API_TOKEN_SECRET is not configured.
+ */
+export function issueClientToken(
+  teamId: string,
+  options: { channels?: string[]; userId?: string; ttlSeconds?: number } = {}
+): { token: string; expiresAt: string } {
+  const secret = tokenSecret();
+  if (!secret) throw new Error('API_TOKEN_SECRET is not configured');
+
+  const ttl = Math.min(Math.max(options.ttlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS, 60), MAX_TOKEN_TTL_SECONDS);
+  const exp = Math.floor(Date.now() / 1000) + ttl;
+  const payload: TokenPayload = {
+    team: teamId,
+    exp,
+    ...(options.channels ? { ch: options.channels } : {}),
+    ...(options.userId ? { sub: options.userId } : {}),
+  };
+
+  return {
+    token: signPayload(TOKEN_PREFIX, payload, secret),
+    expiresAt: new Date(exp * 1000).toISOString(),
+  };
+}
+
+export function verifyClientToken(token: string): AuthContext | null {
+  const secret = tokenSecret();
+  if (!secret) return null;
+
+  const payload = verifyPayload<TokenPayload>(TOKEN_PREFIX, token, secret);
+  if (!payload || typeof payload.team !== 'string') return null;
+  if (!Number.isFinite(payload.exp) || payload.exp * 1000 < Date.now()) return null;
+
+  return {
+    teamId: payload.team,
+    kind: 'token',
+    channels: payload.ch,
+    ...(typeof payload.sub === 'string' ? { userId: payload.sub } : {}),
+  };
+}
+
+// ─── Feed tokens ───────────────────────────────────────────────────────
+
+/**
+ * Sign the token in a calendar feed's URL. Feed tokens don't expire, and a
+ * feed always gets the same token, so subscriptions keep working.
+ * Throws if API_TOKEN_SECRET is not configured.
+ */
+export function issueFeedToken(teamId: string, feed: FeedScope): string {
+  const secret = tokenSecret();
+  if (!secret) throw new Error('API_TOKEN_SECRET is not configured');
+  const payload: FeedTokenPayload = { team: teamId, feed };
+  return signPayload(FEED_TOKEN_PREFIX, payload, secret);
+}
+
+export function verifyFeedToken(token: string): { teamId: string; feed: FeedScope } | null {
+  const secret = tokenSecret();
+  if (!secret) return null;
+
+  const payload = verifyPayload<FeedTokenPayload>(FEED_TOKEN_PREFIX, token, secret);
+  if (!payload || typeof payload.team !== 'string' || typeof payload.feed !== 'object' || !payload.feed) return null;
+  return { teamId: payload.team, feed: payload.feed };
+}
+
+// ─── Middleware ────────────────────────────────────────────────────────
+
+export function isAuthDisabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.AUTH_DISABLED === 'true';
+}
+
+function isClientToken(credential: string): boolean {
+  return credential.startsWith(`${TOKEN_PREFIX}.`);
+}
+
+/** The request's credential: the Bearer header, or a client token in the query. */
+function readCredential(req: Request): string | undefined {
+  const header = req.header('Authorization');
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim();
+  const query = req.query.access_token;
+  return typeof query === 'string' && isClientToken(query) ? query : undefined;
+}
+
+/**
+ * Reject requests without a valid API key or client token, and run the
+ * rest of the chain in the credential's team context.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  let auth: AuthContext | null;
+
+  if (isAuthDisabled()) {
+    auth = { teamId: DEFAULT_TEAM, kind: 'disabled' };
+  } else {
+    const credential = readCredential(req);
+    auth = credential
+      ? isClientToken(credential)
+        ? verifyClientToken(credential)
+        : authenticateApiKey(credential)
+      : null;
+  }
+
+  if (!auth) {
+    res.status(401).json({ ok: false, error: 'Missing or invalid credentials' });
+    return;
+  }
+
+  res.locals.auth = auth;
+  runWithTeam(auth.teamId, () => next());
+}
+
+export function getAuth(res: Response): AuthContext {
+  return res.locals.auth as AuthContext;
+}
+
+/**
+ * Whether the credential may read a channel. API keys see the whole
+ * workspace. Client tokens see the channels they were minted for, or, when
+ * minted without a channel list, every public channel.
+ */
+export function canAccessChannel(
+  auth: AuthContext,
+  channelId: string,
+  visibility: ChannelVisibility = 'public'
+): boolean {
+  if (auth.channels) return auth.channels.includes(channelId);
+  return auth.kind !== 'token' || visibility === 'public';
+}
+
+/**
+ * canAccessChannel for a stored event (ids are `slack-<channelId>-<ts>`).
+ * A merged event is visible in every channel it was cross-posted to.
+ * Deleted events are checked by id alone.
+ */
+export function canAccessEvent(
+  auth: AuthContext,
+  event: Pick<UniversifyEvent, 'id' | 'channelVisibility' | 'sources'>
+): boolean {
+  if (auth.channels) {
+    const ids = event.sources?.length ? event.sources.map((ref) => ref.id) : [event.id];
+    return auth.channels.some((channelId) => ids.some((id) => id.startsWith(`slack-${channelId}-`)));
+  }
+  return auth.kind !== 'token' || event.channelVisibility !== 'private';
+}
+
+/**
+ * Whether the credential may act as an app user: change the events they
+ * organize, RSVP as them, or update their schedule feed. API keys (servers
+ * and admins) act for anyone; client tokens only for the user they were
+ * minted for.
+ */
+export function canActAs(auth: AuthContext, userId: string): boolean {
+  return auth.kind !== 'token' || auth.userId === userId;
+}
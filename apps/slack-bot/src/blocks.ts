@@ -0,0 +1,217 @@
+/**
+ * Block Kit / attachment / file extraction.
+ *
+ * Workflow bots and integrations post announcements as Block Kit sections,
+ * rich-text blocks or legacy attachments; the message's `text` is then only a
+ * fallback summary ("New event posted"). This module flattens those
+ * structures into plain text the parser's extractors understand, and picks
+ * out the pieces that have a dedicated home on the event: a title (header
+ * block / attachment title), labelled fields ("Where", "When"), and an image.
+ *
+ * Only the parts of the Slack payloads we read are typed here; everything
+ * else passes through untouched.
+ */
+
+// ─── Slack payload shapes ──────────────────────────────────────────────
+
+export interface SlackTextObject {
+  type: 'plain_text' | 'mrkdwn';
+  text: string;
+}
+
+export interface SlackRichTextElement {
+  type: string;                     // text | link | emoji | user | channel | date | rich_text_section | …
+  text?: string;
+  url?: string;
+  name?: string;                    // emoji name
+  user_id?: string;
+  channel_id?: string;
+  timestamp?: number;               // date elements
+  fallback?: string;
+  elements?: SlackRichTextElement[];
+}
+
+export interface SlackBlock {
+  type: string;                     // header | section | rich_text | context | image | …
+  text?: SlackTextObject;
+  fields?: SlackTextObject[];
+  elements?: Array<SlackRichTextElement | SlackTextObject | { type: 'image'; image_url?: string }>;
+  accessory?: { type: string; image_url?: string };
+  image_url?: string;               // image blocks
+  title?: SlackTextObject;          // image blocks
+}
+
+export interface SlackAttachmentField {
+  title?: string;
+  value?: string;
+}
+
+export interface SlackAttachment {
+  fallback?: string;
+  pretext?: string;
+  title?: string;
+  text?: string;
+  fields?: SlackAttachmentField[];
+  image_url?: string;
+  thumb_url?: string;
+  blocks?: SlackBlock[];
+}
+
+export interface SlackFile {
+  name?: string;
+  title?: string;
+  mimetype?: string;
+  url_private?: string;
+  permalink_public?: string;
+  thumb_720?: string;
+  thumb_480?: string;
+  thumb_360?: string;
+}
+
+// ─── Extraction ────────────────────────────────────────────────────────
+
+export interface ExtractedContent {
+  text: string;        // everything readable, one block/field per line
+  title?: string;      // from a header block or attachment title
+  imageUrl?: string;
+}
+
+/**
+ * Slack mrkdwn → plain text: `<url|label>` → "label (url)", `<!date^…|fallback>`
+ * → fallback, bare `<url>` → url. The URL is kept so RSVP links stay visible
+ * (and count as a form-link signal). Mentions are left alone.
+ */
+export function unwrapSlackMarkup(text: string): string {
+  return text
+    .replace(/<!date\^[^|>]*\|([^>]+)>/g, '$1')
+    .replace(/<((?:https?|mailto):[^|>]+)\|([^>]+)>/g, (_m, url: string, label: string) =>
+      label === url || url.endsWith(label) ? url : `${label} (${url})`
+    )
+    .replace(/<((?:https?|mailto):[^|>]+)>/g, '$1');
+}
+
+function richTextToString(elements: SlackRichTextElement[] | undefined): string {
+  if (!elements) return '';
+  return elements
+    .map((el) => {
+      switch (el.type) {
+        case 'text':
+          return el.text || '';
+        case 'link':
+          return el.text && el.url && el.text !== el.url ? `${el.text} (${el.url})` : el.url || el.text || '';
+        case 'emoji':
+          return el.name ? `:${el.name}:` : '';
+        case 'user':
+          return el.user_id ? `<@${el.user_id}>` : '';
+        case 'channel':
+          return el.channel_id ? `<#${el.channel_id}>` : '';
+        case 'date':
+          return el.fallback || '';
+        case 'rich_text_section':
+        case 'rich_text_quote':
+        case 'rich_text_preformatted':
+          return richTextToString(el.elements) + '\n';
+        case 'rich_text_list':
+          return (el.elements || []).map((item) => richTextToString(item.elements)).join('\n') + '\n';
+        default:
+          return richTextToString(el.elements);
+      }
+    })
+    .join('');
+}
+
+function isImageFile(file: SlackFile): boolean {
+  return !!file.mimetype && file.mimetype.startsWith('image/');
+}
+
+/**
+ * Flatten a list of blocks into lines of text, collecting the first
+ * header as a title and the first image as an image URL.
+ */
+function readBlocks(blocks: SlackBlock[], out: { lines: string[]; title?: string; imageUrl?: string }): void {
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'header':
+        if (block.text?.text) {
+          out.title = out.title ?? block.text.text.trim();
+          out.lines.push(block.text.text);
+        }
+        break;
+
+      case 'section':
+        if (block.text?.text) out.lines.push(block.text.text);
+        // Two-column fields are usually "*When:*\nNov 7" — keep label and value on one line
+        for (const field of block.fields || []) {
+          out.lines.push(field.text.replace(/\n+/g, ' '));
+        }
+        if (block.accessory?.type === 'image' && block.accessory.image_url) {
+          out.imageUrl = out.imageUrl ?? block.accessory.image_url;
+        }
+        break;
+
+      case 'rich_text':
+        out.lines.push(richTextToString(block.elements as SlackRichTextElement[]));
+        break;
+
+      case 'context':
+        for (const el of block.elements || []) {
+          if ('text' in el && typeof el.text === 'string') out.lines.push(el.text);
+        }
+        break;
+
+      case 'image':
+        out.imageUrl = out.imageUrl ?? block.image_url;
+        break;
+    }
+  }
+}
+
+/**
+ * Collect the readable content of a message from its text, blocks,
+ * attachments and files.
+ *
+ * When blocks are present they are the message; `text` is then only the
+ * notification fallback and is used only if the blocks yield nothing.
+ */
+export function extractMessageContent(message: {
+  text?: string;
+  blocks?: SlackBlock[];
+  attachments?: SlackAttachment[];
+  files?: SlackFile[];
+}): ExtractedContent {
+  const out: { lines: string[]; title?: string; imageUrl?: string } = { lines: [] };
+
+  if (message.blocks?.length) readBlocks(message.blocks, out);
+  if (out.lines.join('').trim() === '' && message.text) out.lines.push(message.text);
+
+  for (const attachment of message.attachments || []) {
+    if (attachment.pretext) out.lines.push(attachment.pretext);
+    if (attachment.title) {
+      out.title = out.title ?? attachment.title.trim();
+      out.lines.push(attachment.title);
+    }
+    if (attachment.blocks?.length) {
+      readBlocks(attachment.blocks, out);
+    } else if (attachment.text) {
+      out.lines.push(attachment.text);
+    }
+    for (const field of attachment.fields || []) {
+      if (field.title && field.value) out.lines.push(`${field.title}: ${field.value}`);
+      else if (field.value) out.lines.push(field.value);
+    }
+    out.imageUrl = out.imageUrl ?? attachment.image_url ?? attachment.thumb_url;
+  }
+
+  const image = (message.files || []).find(isImageFile);
+  if (image) {
+    out.imageUrl =
+      out.imageUrl ?? image.thumb_720 ?? image.thumb_480 ?? image.thumb_360 ?? image.url_private;
+  }
+
+  const text = out.lines
+    .map((line) => unwrapSlackMarkup(line).trim())
+    .filter(Boolean)
+    .join('\n');
+
+  return { text, title: out.title, imageUrl: out.imageUrl };
+}
@@ -0,0 +1,74 @@
+/**
+ * Event-vs-chatter classifier.
+ *
+ * Scores a Slack message on how likely it is to announce an event, so the
+ * parser doesn't turn "lol same" into a calendar entry. Each signal adds (or
+ * subtracts) a fixed weight; the sum is clamped to a 0–1 confidence.
+ *
+ * Date/time/location detection is done by the parser and passed in, so the
+ * classifier and the parser always agree on what was found.
+ */
+
+export interface Classification {
+  confidence: number;  // 0–1
+  signals: string[];   // names of the signals that fired, for debugging / review UIs
+}
+
+/** What the parser managed to extract from the message. */
+export interface ExtractedFields {
+  hasDate: boolean;
+  hasTime: boolean;
+  hasLocation: boolean;
+}
+
+interface Signal {
+  name: string;
+  weight: number;
+  test: (text: string, fields: ExtractedFields) => boolean;
+}
+
+const EVENT_KEYWORDS =
+  /\b(rsvp|register|registration|sign[- ]?up|join us|come (?:out|by|join)|all (?:are )?welcome|free (?:food|pizza|swag)|workshop|info session|meeting|talk|seminar|panel|hackathon|tournament|social|mixer|kickoff|office hours|general body|gbm|tickets?)\b/i;
+
+const FORM_LINK =
+  /(forms\.gle|docs\.google\.com\/forms|eventbrite\.|lu\.ma|luma\.com|partiful\.com|calendar\.google\.com|tinyurl\.com|bit\.ly)/i;
+
+const EMOJI_CUES =
+  /(:calendar:|:date:|:spiral_calendar_pad:|:round_pushpin:|:pushpin:|:alarm_clock:|:clock\d+:|:tada:|:pizza:|:mega:|:loudspeaker:|📅|📆|🗓|📍|📌|⏰|🕒|🎉|🍕|📣|📢)/;
+
+const CHATTER =
+  /^(?:lol|lmao|haha+|same|thanks?|thank you|ty|ok(?:ay)?|yes|no|nice|\+1|agreed|omg|wow)\b/i;
+
+const SIGNALS: Signal[] = [
+  { name: 'date', weight: 0.3, test: (_t, f) => f.hasDate },
+  { name: 'time', weight: 0.25, test: (_t, f) => f.hasTime },
+  { name: 'location', weight: 0.2, test: (_t, f) => f.hasLocation },
+  { name: 'keyword', weight: 0.2, test: (t) => EVENT_KEYWORDS.test(t) },
+  { name: 'form-link', weight: 0.15, test: (t) => FORM_LINK.test(t) },
+  { name: 'emoji', weight: 0.1, test: (t) => EMOJI_CUES.test(t) },
+  { name: 'multiline', weight: 0.05, test: (t) => t.split('\n').filter((l) => l.trim()).length >= 3 },
+  { name: 'short', weight: -0.3, test: (t) => t.split(/\s+/).filter(Boolean).length < 3 },
+  { name: 'chatter', weight: -0.3, test: (t) => CHATTER.test(t.trim()) },
+  { name: 'question', weight: -0.1, test: (t) => /\?\s*$/.test(t.trim()) && !EVENT_KEYWORDS.test(t) },
+];
+
+/**
+ * Score how likely a message is to be an event announcement.
+ */
+export function classifyMessage(text: string, fields: ExtractedFields): Classification {
+  const trimmed = (text || '').trim();
+  if (!trimmed) return { confidence: 0, signals: [] };
+
+  let score = 0;
+  const signals: string[] = [];
+
+  for (const signal of SIGNALS) {
+    if (signal.test(trimmed, fields)) {
+      score += signal.weight;
+      signals.push(signal.name);
+    }
+  }
+
+  const confidence = Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+  return { confidence, signals };
+}
@@ -0,0 +1,339 @@
+/**
+ * REST API for events created in the Universify app.
+ *
+ *   GET    /api/events               query events (see parseQuery)
+ *   GET    /api/events/:id           one event
+ *   POST   /api/events               create an event
+ *   PATCH  /api/events/:id           update some of an event's fields
+ *   DELETE /api/events/:id           delete an event
+ *   PUT    /api/events/:id/rsvp      { "userId": "...", "status": "going" | "maybe" | "not-going" | null }
+ *
+ * Runs behind requireAuth like the Slack routes, so each workspace has its
+ * own events. Every write is checked against the shared event model and
+ * rejected with 400 and the list of problems if it doesn't fit; a PATCH
+ * naming a field the model doesn't have is rejected too.
+ *
+ * Writes act as an app user (see canActAs): only an event's organizer may
+ * create, edit or delete it — and may not hand it to someone else — and
+ * RSVPs are only set for the acting user. API keys act for anyone.
+ *
+ * Creating an event needs a title, startTime and endTime; other missing
+ * fields get defaults and unknown categories are dropped. The client may
+ * pass its own `id`, so it can show the event before the request completes
+ * and safely retry it: creating an id that already exists returns the
+ * stored event instead of a second copy.
+ * Slack events are read-only here (RSVPs to them are reactions, see rsvp.ts);
+ * `source=all` includes them in queries.
+ */
+
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import {
+  Event,
+  EventCategory,
+  RSVPStatus,
+  isEventCategory,
+  normalizeEvent,
+  validateEvent,
+  withRsvp,
+} from '@universify/shared';
+import { UniversifyEvent } from './parser';
+import { canAccessEvent, canActAs, getAuth } from './auth';
+import { deleteAppEvent, getAppEvent, getAppEvents, getEvent, getEvents, saveAppEvent } from './store';
+
+const MAX_LIMIT = 500;
+
+// Ids other sources own (the client keeps events with these to itself); app events can't take them
+const RESERVED_ID_PREFIXES = ['slack-', 'gcal-', 'ics-', 'feed-'];
+
+const REQUIRED_FIELDS = ['title', 'startTime', 'endTime'] as const;
+
+// Fields a PATCH may not change: the id is the URL's, and RSVPs go through /rsvp
+const READ_ONLY_FIELDS = ['id', 'createdAt', 'attendees', 'rsvpCounts'] as const;
+
+// Every field of the event model (keyed so a new Event field must be added here);
+// a PATCH naming anything else is rejected rather than stored
+const EVENT_FIELDS: Record<keyof Event, true> = {
+  id: true,
+  title: true,
+  description: true,
+  startTime: true,
+  endTime: true,
+  location: true,
+  categories: true,
+  organizer: true,
+  color: true,
+  rsvpEnabled: true,
+  rsvpCounts: true,
+  attendees: true,
+  attendeeVisibility: true,
+  isClubEvent: true,
+  isSocialEvent: true,
+  capacity: true,
+  recurring: true,
+  tags: true,
+  createdAt: true,
+  updatedAt: true,
+  imageUrl: true,
+  confidence: true,
+  needsReview: true,
+  manuallyVerified: true,
+  channelVisibility: true,
+  sources: true,
+  seriesId: true,
+  recurrenceId: true,
+};
+
+const RSVP_STATUSES: RSVPStatus[] = ['going', 'maybe', 'not-going', null];
+
+interface EventQuery {
+  from?: number;      // events ending at or after (ms)
+  to?: number;        // events starting before (ms)
+  categories: EventCategory[];
+  tag?: string;
+  organizerId?: string;
+  text?: string;      // matched against title, description and location
+  includeSlack: boolean;
+  limit: number;
+}
+
+function newEventId(): string {
+  return `evt-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+function parseTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+/**
+ * Read the query params: `from` / `to` (ISO 8601), `category` (repeatable or
+ * comma-separated), `tag`, `organizer`, `q` (free text), `source=all` to
+ * include Slack events, and `limit`.
+ */
+function parseQuery(req: Request): EventQuery {
+  const rawCategories = ([] as unknown[]).concat(req.query.category ?? []);
+  const categories = rawCategories
+    .flatMap((c) => String(c).split(','))
+    .map((c) => c.trim())
+    .filter(isEventCategory);
+  const limit = parseInt(req.query.limit as string, 10);
+
+  return {
+    from: parseTime(req.query.from),
+    to: parseTime(req.query.to),
+    categories,
+    tag: typeof req.query.tag === 'string' ? req.query.tag.toLowerCase() : undefined,
+    organizerId: typeof req.query.organizer === 'string' ? req.query.organizer : undefined,
+    text: typeof req.query.q === 'string' && req.query.q.trim() ? req.query.q.trim().toLowerCase() : undefined,
+    includeSlack: req.query.source === 'all',
+    limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : MAX_LIMIT,
+  };
+}
+
+function matchesQuery(event: UniversifyEvent, query: EventQuery): boolean {
+  if (query.from !== undefined && Date.parse(event.endTime) < query.from) return false;
+  if (query.to !== undefined && Date.parse(event.startTime) >= query.to) return false;
+  if (query.categories.length > 0 && !event.categories.some((c) => query.categories.includes(c))) return false;
+  if (query.tag && !event.tags.some((t) => t.toLowerCase() === query.tag)) return false;
+  if (query.organizerId && event.organizer.id !== query.organizerId) return false;
+  if (query.text) {
+    const haystack = `${event.title}\n${event.description}\n${event.location}`.toLowerCase();
+    if (!haystack.includes(query.text)) return false;
+  }
+  return true;
+}
+
+function rejectInvalid(res: Response, issues: string[]): void {
+  res.status(400).json({ ok: false, error: 'Invalid event', issues });
+}
+
+function rejectNotOrganizer(res: Response): void {
+  res.status(403).json({ ok: false, error: "Only the event's organizer can change it" });
+}
+
+/**
+ * The app event a write targets, or undefined after answering 404 (or 403
+ * for a Slack event, which only changes in Slack).
+ */
+function findWritableEvent(res: Response, id: string): UniversifyEvent | undefined {
+  const event = getAppEvent(id);
+  if (event) return event;
+  if (getEvent(id)) {
+    res.status(403).json({ ok: false, error: `${id} is a Slack event; edit it in Slack` });
+  } else {
+    res.status(404).json({ ok: false, error: `No event ${id}` });
+  }
+  return undefined;
+}
+
+export function createEventsRouter(): Router {
+  const router = Router();
+
+  // ─── Query ────────────────────────────────────────────────────────
+
+  router.get('/', (req: Request, res: Response) => {
+    const auth = getAuth(res);
+    const query = parseQuery(req);
+
+    const candidates = query.includeSlack
+      ? [...getAppEvents(), ...getEvents().filter((e) => canAccessEvent(auth, e))]
+      : getAppEvents();
+    const events = candidates
+      .filter((e) => matchesQuery(e, query))
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+      .slice(0, query.limit);
+
+    res.json({ ok: true, events, count: events.length });
+  });
+
+  router.get('/:id', (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const slackEvent = getEvent(id);
+    const event =
+      getAppEvent(id) ?? (slackEvent && canAccessEvent(getAuth(res), slackEvent) ? slackEvent : undefined);
+    if (!event) {
+      res.status(404).json({ ok: false, error: `No event ${id}` });
+      return;
+    }
+    res.json({ ok: true, event });
+  });
+
+  // ─── Create ───────────────────────────────────────────────────────
+
+  router.post('/', (req: Request, res: Response) => {
+    const body = req.body;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      rejectInvalid(res, ['not an object']);
+      return;
+    }
+
+    const id = typeof body.id === 'string' && body.id ? body.id : newEventId();
+    if (RESERVED_ID_PREFIXES.some((prefix) => id.startsWith(prefix))) {
+      rejectInvalid(res, [`id: "${id}" belongs to another source`]);
+      return;
+    }
+
+    // A retried create gets the event it already made
+    const existing = getAppEvent(id);
+    if (existing) {
+      res.json({ ok: true, event: existing });
+      return;
+    }
+
+    const missing = REQUIRED_FIELDS.filter((field) => typeof body[field] !== 'string' || !body[field]);
+    if (missing.length > 0) {
+      rejectInvalid(res, missing.map((field) => `${field}: missing`));
+      return;
+    }
+
+    // Anything else missing gets a default
+    const event = normalizeEvent({ ...body, id });
+    if (!event) {
+      rejectInvalid(res, validateEvent({ ...body, id }).filter((issue) => /^(startTime|endTime):/.test(issue)));
+      return;
+    }
+    if (!canActAs(getAuth(res), event.organizer.id)) {
+      res.status(403).json({ ok: false, error: 'Events can only be created with yourself as the organizer' });
+      return;
+    }
+
+    saveAppEvent(event);
+    console.log(`[Events] Created "${event.title}" (${event.id})`);
+    res.status(201).json({ ok: true, event });
+  });
+
+  // ─── Update ───────────────────────────────────────────────────────
+
+  router.patch('/:id', (req: Request, res: Response) => {
+    const auth = getAuth(res);
+    const existing = findWritableEvent(res, req.params.id as string);
+    if (!existing) return;
+    if (!canActAs(auth, existing.organizer.id)) {
+      rejectNotOrganizer(res);
+      return;
+    }
+
+    const body = req.body;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      rejectInvalid(res, ['not an object']);
+      return;
+    }
+    const unknownFields = Object.keys(body).filter((field) => !Object.prototype.hasOwnProperty.call(EVENT_FIELDS, field));
+    if (unknownFields.length > 0) {
+      rejectInvalid(res, unknownFields.map((field) => `${field}: not an event field`));
+      return;
+    }
+
+    const updates = { ...body };
+    for (const field of READ_ONLY_FIELDS) delete updates[field];
+
+    const event = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+    const issues = validateEvent(event);
+    if (issues.length > 0) {
+      rejectInvalid(res, issues);
+      return;
+    }
+    if (!canActAs(auth, event.organizer.id)) {
+      res.status(403).json({ ok: false, error: 'Events can only be handed to another organizer with an API key' });
+      return;
+    }
+
+    saveAppEvent(event);
+    res.json({ ok: true, event });
+  });
+
+  // ─── Delete ───────────────────────────────────────────────────────
+
+  router.delete('/:id', (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const existing = findWritableEvent(res, id);
+    if (!existing) return;
+    if (!canActAs(getAuth(res), existing.organizer.id)) {
+      rejectNotOrganizer(res);
+      return;
+    }
+
+    deleteAppEvent(id);
+    console.log(`[Events] Deleted ${id}`);
+    res.json({ ok: true });
+  });
+
+  // ─── RSVP ─────────────────────────────────────────────────────────
+
+  router.put('/:id/rsvp', (req: Request, res: Response) => {
+    const existing = findWritableEvent(res, req.params.id as string);
+    if (!existing) return;
+
+    const { userId, status = null } = req.body || {};
+    if (typeof userId !== 'string' || !userId || !RSVP_STATUSES.includes(status)) {
+      res.status(400).json({
+        ok: false,
+        error: '"userId" and a "status" of going, maybe, not-going or null are required',
+      });
+      return;
+    }
+    if (!canActAs(getAuth(res), userId)) {
+      res.status(403).json({ ok: false, error: 'You can only RSVP for yourself' });
+      return;
+    }
+    if (status && !existing.rsvpEnabled) {
+      res.status(409).json({ ok: false, error: 'RSVPs are turned off for this event' });
+      return;
+    }
+    if (status === 'going' && existing.capacity !== undefined) {
+      const alreadyGoing = existing.attendees.some((a) => a.userId === userId && a.status === 'going');
+      if (!alreadyGoing && existing.rsvpCounts.going >= existing.capacity) {
+        res.status(409).json({ ok: false, error: 'This event is full' });
+        return;
+      }
+    }
+
+    const event = withRsvp(existing, userId, status);
+    if (event !== existing) saveAppEvent(event);
+    res.json({ ok: true, event });
+  });
+
+  return router;
+}
@@ -0,0 +1,250 @@
+/**
+ * Fetching event feeds for the client.
+ *
+ * Campus offices publish iCalendar and RSS feeds of their events, and the
+ * client subscribes to them (see FeedSourcesContext). Browsers can't read
+ * most of them directly (no CORS headers), so the client fetches them
+ * through the bot and parses them itself:
+ *
+ *   POST /api/feed-sources/fetch    { "url": "https://...", "etag"?: "...", "lastModified"?: "..." }
+ *
+ * answers with the feed's `text`, `etag` and `lastModified`, or with
+ * `notModified: true` when the validators sent say the client's copy is
+ * current. webcal:// URLs are fetched over https.
+ *
+ * Only public http(s) hosts are fetched — not the bot's own network — and
+ * the connection goes to the very address that was checked. Feeds are
+ * limited to MAX_FEED_BYTES and FETCH_TIMEOUT_MS.
+ */
+
+import dns from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { Router, Request, Response } from 'express';
+
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+class FeedFetchError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'FeedFetchError';
+  }
+}
+
+// ─── Address checks ────────────────────────────────────────────────────
+
+// Addresses a feed URL may not point at: the bot's own host and network,
+// shared, reserved and multicast ranges, and IPv6 forms that reach them.
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1, however the URL parser wrote
+// them) are checked against the IPv4 ranges.
+const PRIVATE_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],   // link-local, including cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],    // benchmarking
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4],      // reserved and broadcast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],           // unspecified
+  ['::1', 128],
+  ['64:ff9b::', 96],     // NAT64, which reaches any IPv4 address
+  ['64:ff9b:1::', 48],   // local-use NAT64
+  ['fc00::', 7],         // unique local
+  ['fe80::', 10],        // link-local
+  ['fec0::', 10],        // site-local
+  ['ff00::', 8],         // multicast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Whether a feed may not be fetched from an IP address. Anything that isn't an IP address is refused. */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// A URL and the public address it was checked against; the request connects to that address
+export interface CheckedUrl {
+  url: URL;
+  address: string;
+  family: number;
+}
+
+/** Parse a feed URL and check that its host only resolves to public addresses. */
+export async function checkedUrl(raw: string): Promise<CheckedUrl> {
+  let url: URL;
+  try {
+    url = new URL(raw.replace(/^webcals?:\/\//i, 'https://'));
+  } catch {
+    throw new FeedFetchError(`Not a URL: "${raw}"`, 400);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FeedFetchError('Only http(s) and webcal feeds can be fetched', 400);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host)
+    ? [{ address: host, family: net.isIP(host) }]
+    : await dns.lookup(host, { all: true }).catch(() => {
+        throw new FeedFetchError(`Could not resolve ${host}`, 502);
+      });
+  if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new FeedFetchError(`${host} is not a public address`, 400);
+  }
+  return { url, ...addresses[0] };
+}
+
+// ─── Fetching ──────────────────────────────────────────────────────────
+
+/**
+ * GET a checked URL. The connection goes to the address that was checked:
+ * resolving the name again could give another one (DNS rebinding).
+ */
+function get(target: CheckedUrl, headers: Record<string, string>, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const { address, family } = target;
+  const lookup: net.LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      (callback as (err: null, addresses: { address: string; family: number }[]) => void)(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+
+  const client = target.url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(target.url, { headers, signal, lookup }, resolve);
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+function decoded(response: http.IncomingMessage): Readable {
+  switch (response.headers['content-encoding']) {
+    case 'gzip':
+      return response.pipe(zlib.createGunzip());
+    case 'deflate':
+      return response.pipe(zlib.createInflate());
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+}
+
+async function readLimited(response: http.IncomingMessage): Promise<string> {
+  const length = Number(response.headers['content-length']);
+  if (length > MAX_FEED_BYTES) throw new FeedFetchError('The feed is too large', 502);
+
+  // Counted after decompression, so a small compressed feed can't expand past the cap
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of decoded(response)) {
+    size += chunk.byteLength;
+    if (size > MAX_FEED_BYTES) {
+      response.destroy();
+      throw new FeedFetchError('The feed is too large', 502);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+interface FetchedFeed {
+  notModified: boolean;
+  text?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+function header(response: http.IncomingMessage, name: string): string | undefined {
+  const value = response.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Fetch a feed, following redirects only to public hosts. */
+async function fetchFeed(raw: string, validators: { etag?: string; lastModified?: string }): Promise<FetchedFeed> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const failed = (error: any): never => {
+    if (error instanceof FeedFetchError) throw error;
+    throw new FeedFetchError(signal.aborted ? 'The feed took too long to answer' : `Could not fetch the feed: ${error.message}`, 502);
+  };
+  let target = await checkedUrl(raw);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await get(
+      target,
+      {
+        Accept: 'text/calendar, application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.5',
+        'Accept-Encoding': 'gzip, deflate, br',
+        'User-Agent': 'Universify feed reader',
+        ...(validators.etag ? { 'If-None-Match': validators.etag } : {}),
+        ...(validators.lastModified ? { 'If-Modified-Since': validators.lastModified } : {}),
+      },
+      signal
+    ).catch(failed);
+    const status = response.statusCode ?? 0;
+
+    const location = header(response, 'location');
+    if (status >= 300 && status < 400 && status !== 304 && location) {
+      response.resume();
+      target = await checkedUrl(new URL(location, target.url).toString());
+      continue;
+    }
+    if (status === 304 || status < 200 || status >= 300) {
+      response.resume();
+      if (status === 304) return { notModified: true };
+      throw new FeedFetchError(`The feed answered HTTP ${status}`, 502);
+    }
+
+    return {
+      notModified: false,
+      text: await readLimited(response).catch(failed),
+      etag: header(response, 'etag'),
+      lastModified: header(response, 'last-modified'),
+    };
+  }
+  throw new FeedFetchError('The feed redirects too many times', 502);
+}
+
+// ─── Routes ────────────────────────────────────────────────────────────
+
+/** The /api/feed-sources routes, mounted behind requireAuth. */
+export function createFeedSourcesRouter(): Router {
+  const router = Router();
+
+  router.post('/fetch', async (req: Request, res: Response) => {
+    const { url, etag, lastModified } = req.body || {};
+    if (typeof url !== 'string' || !url.trim()) {
+      res.status(400).json({ ok: false, error: '"url" is required' });
+      return;
+    }
+
+    try {
+      const feed = await fetchFeed(url.trim(), {
+        etag: typeof etag === 'string' ? etag : undefined,
+        lastModified: typeof lastModified === 'string' ? lastModified : undefined,
+      });
+      res.json({ ok: true, ...feed });
+    } catch (error: any) {
+      const status = error instanceof FeedFetchError ? error.status : 502;
+      res.status(status).json({ ok: false, error: error.message });
+    }
+  });
+
+  return router;
+}
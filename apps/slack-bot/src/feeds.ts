@@ -0,0 +1,171 @@
+/**
+ * Calendar feeds: live iCalendar files that phone and desktop calendars
+ * subscribe to (webcal://) and re-fetch on their own.
+ *
+ *   GET  /feeds/:token.ics          a feed; the token is its credential
+ *   POST /api/feeds                 { "category": "Tech" } or { "organizer": "<id>" }
+ *   PUT  /api/feeds/scheduled       { "userId": "...", "eventIds": [...], "events": [...] }
+ *
+ * The two /api/feeds routes run behind requireAuth and answer with the
+ * feed's `url` and `webcalUrl`:
+ *
+ *   - Category and organizer feeds list the workspace's app events and
+ *     public Slack events with that category / organizer.
+ *   - A user's schedule feed lists the events they scheduled in the app.
+ *     The client sends the ids whenever the schedule changes, plus copies of
+ *     events the bot doesn't store (seeded or imported ones); Google
+ *     Calendar events are left out, since they're already in a calendar.
+ *
+ * A feed's URL never changes (see issueFeedToken), and each event keeps its
+ * UID with SEQUENCE / LAST-MODIFIED moving on every edit, so subscribers
+ * see updates instead of duplicates. Events that ended more than
+ * FEED_HISTORY_DAYS ago are left out. Recurring events are written in the
+ * workspace's time zone (WORKSPACE_TIMEZONE), whatever the server's own is.
+ *
+ * Links in responses use PUBLIC_URL (e.g. https://bot.example.com) when
+ * set, or the host the request came in on.
+ */
+
+import { Router, Request, Response } from 'express';
+import { isEventCategory, normalizeEvents, recurrenceUntil, toICalendar } from '@universify/shared';
+import { UniversifyEvent } from './parser';
+import { FeedScope, canAccessEvent, canActAs, getAuth, issueFeedToken, verifyFeedToken } from './auth';
+import { runWithTeam } from './tenants';
+import { resolveTimeZone } from './timezone';
+import { getAppEvent, getAppEvents, getEvent, getEvents, getScheduleFeed, saveScheduleFeed } from './store';
+
+const FEED_HISTORY_DAYS = 90;
+const REFRESH_MINUTES = 60;
+const MAX_SCHEDULED_EVENTS = 1000;
+
+function isRecent(event: UniversifyEvent, cutoff: number): boolean {
+  if (event.recurring) return recurrenceUntil(event.recurring) >= cutoff;
+  return Date.parse(event.endTime) >= cutoff;
+}
+
+function publicEvents(): UniversifyEvent[] {
+  return [...getAppEvents(), ...getEvents().filter((e) => e.channelVisibility !== 'private')];
+}
+
+/** The events a feed lists, and the calendar name subscribers see. */
+function feedContents(feed: FeedScope): { name: string; events: UniversifyEvent[] } {
+  if ('category' in feed) {
+    return {
+      name: `Universify: ${feed.category}`,
+      events: publicEvents().filter((e) => e.categories.some((c) => c === feed.category)),
+    };
+  }
+  if ('organizer' in feed) {
+    const events = publicEvents().filter((e) => e.organizer.id === feed.organizer);
+    return { name: `Universify: ${events[0]?.organizer.name ?? feed.organizer}`, events };
+  }
+
+  const schedule = getScheduleFeed(feed.user);
+  const copies = new Map((schedule?.events ?? []).map((e) => [e.id, e]));
+  const events = (schedule?.eventIds ?? [])
+    .map((id) => getAppEvent(id) ?? getEvent(id) ?? copies.get(id))
+    .filter((e): e is UniversifyEvent => e !== undefined);
+  return { name: 'Universify: My schedule', events };
+}
+
+function feedLinks(req: Request, teamId: string, feed: FeedScope): { url: string; webcalUrl: string } {
+  const base = (process.env.PUBLIC_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+  const url = `${base}/feeds/${issueFeedToken(teamId, feed)}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:\/\//, 'webcal://') };
+}
+
+/** Answer with a feed's links, or 501 when feed tokens can't be signed. */
+function sendFeedLinks(req: Request, response: Response, feed: FeedScope, extra: object = {}): void {
+  try {
+    response.json({ ok: true, ...feedLinks(req, getAuth(response).teamId, feed), ...extra });
+  } catch (error: any) {
+    response.status(501).json({ ok: false, error: error.message });
+  }
+}
+
+/** GET /feeds/:token.ics, mounted without requireAuth. */
+export function createFeedRouter(): Router {
+  const router = Router();
+
+  router.get('/:file', (req: Request, response: Response) => {
+    const file = req.params.file as string;
+    const verified = file.endsWith('.ics') ? verifyFeedToken(file.slice(0, -'.ics'.length)) : null;
+    if (!verified) {
+      response.status(404).type('text/plain').send('No such calendar feed');
+      return;
+    }
+
+    runWithTeam(verified.teamId, () => {
+      const { name, events } = feedContents(verified.feed);
+      const cutoff = Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+      const ics = toICalendar(events.filter((e) => isRecent(e, cutoff)), {
+        name,
+        refreshMinutes: REFRESH_MINUTES,
+        timeZone: resolveTimeZone(),
+      });
+
+      response
+        .type('text/calendar; charset=utf-8')
+        .set('Cache-Control', `max-age=${REFRESH_MINUTES * 60}`)
+        .set('Content-Disposition', 'inline; filename="universify.ics"')
+        .send(ics);
+    });
+  });
+
+  return router;
+}
+
+/** The /api/feeds routes, mounted behind requireAuth. */
+export function createFeedsRouter(): Router {
+  const router = Router();
+
+  router.post('/', (req: Request, response: Response) => {
+    const { category, organizer } = req.body || {};
+    if (category !== undefined) {
+      if (!isEventCategory(category)) {
+        response.status(400).json({ ok: false, error: `Unknown category "${category}"` });
+        return;
+      }
+      sendFeedLinks(req, response, { category });
+      return;
+    }
+    if (typeof organizer === 'string' && organizer) {
+      sendFeedLinks(req, response, { organizer });
+      return;
+    }
+    response.status(400).json({ ok: false, error: 'A "category" or "organizer" is required' });
+  });
+
+  router.put('/scheduled', (req: Request, response: Response) => {
+    const auth = getAuth(response);
+    const { userId, eventIds, events } = req.body || {};
+    if (typeof userId !== 'string' || !userId) {
+      response.status(400).json({ ok: false, error: '"userId" is required' });
+      return;
+    }
+    if (!canActAs(auth, userId)) {
+      response.status(403).json({ ok: false, error: "Only you can change your schedule's feed" });
+      return;
+    }
+    if (!Array.isArray(eventIds) || eventIds.some((id) => typeof id !== 'string')) {
+      response.status(400).json({ ok: false, error: '"eventIds" must be an array of event ids' });
+      return;
+    }
+
+    // Slack events the credential can't see stay out of the feed
+    const ids = [...new Set<string>(eventIds)]
+      .filter((id) => !id.startsWith('gcal-'))
+      .filter((id) => {
+        const slackEvent = getEvent(id);
+        return !slackEvent || canAccessEvent(auth, slackEvent);
+      })
+      .slice(0, MAX_SCHEDULED_EVENTS);
+    const wanted = new Set(ids.filter((id) => !getAppEvent(id) && !getEvent(id)));
+    const copies = normalizeEvents(events).filter((e) => wanted.has(e.id));
+
+    saveScheduleFeed({ userId, eventIds: ids, events: copies, updatedAt: new Date().toISOString() });
+    sendFeedLinks(req, response, { user: userId }, { count: ids.length });
+  });
+
+  return router;
+}
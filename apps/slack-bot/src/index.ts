@@ -3,11 +3,36 @@
  *
  * Starts two services:
  *   1. Express REST API on PORT (default 3001) for the Expo client to fetch events
- *   2. Bolt.js Socket Mode listener for real-time Slack event streaming
+ *   2. Bolt.js Socket Mode listener for real-time Slack event streaming,
+ *      plus the `/universify` slash command for creating events from a form
  *
  * Usage:
  *   1. Copy .env.example → .env and fill in your Slack credentials
  *   2. Run: pnpm dev
+ *
+ * Event storage is selected with STORE_BACKEND ("memory" or "file");
+ * the file backend writes to STORE_PATH (default ./data/store.json).
+ *
+ * Event times are interpreted in WORKSPACE_TIMEZONE (IANA name, default
+ * America/New_York), with per-channel overrides in CHANNEL_TIMEZONES.
+ *
+ * Reactions on event messages are RSVPs; RSVP_REACTIONS maps emoji to
+ * statuses (see rsvp.ts).
+ *
+ * The REST API requires an API key or client token (see auth.ts); CORS_ORIGINS
+ * limits which browser origins may call it. Further workspaces can be added
+ * through the OAuth install flow (see oauth.ts), each with its own store.
+ *
+ * Slack Web API calls are queued and back off when Slack rate limits them
+ * (see ratelimit.ts); /api/slack/health reports the current backoff state.
+ *
+ * Events created in the app are served from /api/events (see eventsApi.ts),
+ * with the same credentials and per-workspace stores.
+ *
+ * Calendar apps subscribe to iCalendar feeds under /feeds, whose URLs
+ * /api/feeds hands out (see feeds.ts); PUBLIC_URL sets the host in them.
+ * The client reads other calendars' feeds through /api/feed-sources (see
+ * feedSources.ts).
  */
 
 import dotenv from 'dotenv';
@@ -18,18 +43,39 @@ import cors from 'cors';
 import { App as BoltApp } from '@slack/bolt';
 import { WebClient } from '@slack/web-api';
 import { createRouter } from './routes';
+import { createOAuthRouter } from './oauth';
+import { createEventsRouter } from './eventsApi';
+import { createFeedRouter, createFeedsRouter } from './feeds';
+import { createFeedSourcesRouter } from './feedSources';
+import { isAuthDisabled, requireAuth } from './auth';
+import { getInstallation, setDefaultSlackClient, teamForSlackTeam } from './installations';
+import { runWithTeam } from './tenants';
+import { SLACK_CLIENT_OPTIONS } from './ratelimit';
 import { registerListeners } from './listener';
+import { registerInteractions } from './interactions';
+import { flushStore, initStore } from './store';
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
 const SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN;
 const SLACK_SIGNING_SECRET = process.env.SLACK_SIGNING_SECRET;
 const SLACK_APP_TOKEN = process.env.SLACK_APP_TOKEN;
+const SLACK_CLIENT_ID = process.env.SLACK_CLIENT_ID;
 
 // ─── Validate env ──────────────────────────────────────────────────────
 
 function validateEnv(): boolean {
+  if (isAuthDisabled()) {
+    console.warn('\n⚠️  AUTH_DISABLED=true — the REST API is open to anyone who can reach it.\n');
+  } else if (!process.env.API_KEYS && !SLACK_CLIENT_ID) {
+    console.warn(
+      '\n⚠️  No API_KEYS configured: every /api/slack request will be rejected.' +
+      '\n   Set API_KEYS (or AUTH_DISABLED=true for local development).\n'
+    );
+  }
+
   const missing: string[] = [];
-  if (!SLACK_BOT_TOKEN) missing.push('SLACK_BOT_TOKEN');
+  // Workspaces installed via OAuth bring their own tokens
+  if (!SLACK_BOT_TOKEN && !SLACK_CLIENT_ID) missing.push('SLACK_BOT_TOKEN');
   if (!SLACK_SIGNING_SECRET) missing.push('SLACK_SIGNING_SECRET');
 
   if (missing.length > 0) {
@@ -48,14 +94,33 @@ function validateEnv(): boolean {
 async function main() {
   const hasSlackCreds = validateEnv();
 
+  // Load persisted events before anything can read or write the store
+  initStore();
+
+  // Store saves are debounced; write what's pending before exiting
+  process.on('beforeExit', flushStore);
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      flushStore();
+      process.kill(process.pid, signal);
+    });
+  }
+
   // Create Slack web client (may have empty token in dev)
-  const slackClient = new WebClient(SLACK_BOT_TOKEN || '');
+  const slackClient = new WebClient(SLACK_BOT_TOKEN || '', SLACK_CLIENT_OPTIONS);
+  setDefaultSlackClient(slackClient);
 
   // ── 1. Express REST API ──
   const expressApp = express();
-  expressApp.use(cors());
+  const corsOrigins = process.env.CORS_ORIGINS?.split(',').map((o) => o.trim()).filter(Boolean);
+  expressApp.use(cors(corsOrigins?.length ? { origin: corsOrigins } : undefined));
   expressApp.use(express.json());
-  expressApp.use('/api/slack', createRouter(slackClient));
+  expressApp.use('/api/slack/oauth', createOAuthRouter());
+  expressApp.use('/api/slack', requireAuth, createRouter());
+  expressApp.use('/api/events', requireAuth, createEventsRouter());
+  expressApp.use('/api/feeds', requireAuth, createFeedsRouter());
+  expressApp.use('/feeds', createFeedRouter());
+  expressApp.use('/api/feed-sources', requireAuth, createFeedSourcesRouter());
 
   // Root route
   expressApp.get('/', (_req, res) => {
@@ -65,9 +130,19 @@ async function main() {
       endpoints: {
         health: 'GET /api/slack/health',
         channels: 'GET /api/slack/channels',
-        events: 'GET /api/slack/events?channel={id}&limit={n}',
-        cached: 'GET /api/slack/cached?channel={id}',
+        events: 'GET /api/slack/events?channel={id}&limit={n}&minConfidence={0-1}',
+        cached: 'GET /api/slack/cached?channel={id}&minConfidence={0-1}',
+        sync: 'GET /api/slack/sync?since={token}&channel={id}',
+        stream: 'GET /api/slack/stream?channels={id,id} (Server-Sent Events)',
+        monitored: 'GET|POST /api/slack/monitored, DELETE /api/slack/monitored/{id}',
+        token: 'POST /api/slack/auth/token',
+        install: 'GET /api/slack/oauth/install',
+        appEvents: 'GET|POST /api/events?from={iso}&to={iso}&category={c}&q={text}, GET|PATCH|DELETE /api/events/{id}',
+        rsvp: 'PUT /api/events/{id}/rsvp',
+        feeds: 'POST /api/feeds {category | organizer}, PUT /api/feeds/scheduled, GET /feeds/{token}.ics (no auth)',
+        feedSources: 'POST /api/feed-sources/fetch {url}',
       },
+      auth: 'Authorization: Bearer <API key or client token>',
     });
   });
 
@@ -82,14 +157,35 @@ async function main() {
   if (hasSlackCreds && SLACK_APP_TOKEN) {
     try {
       const boltApp = new BoltApp({
-        token: SLACK_BOT_TOKEN,
+        // With OAuth, installed workspaces use their own bot token and
+        // anything else the env one; otherwise it's a single-workspace app
+        ...(SLACK_CLIENT_ID
+          ? {
+              authorize: async ({ teamId }: { teamId?: string }) => {
+                const installation = teamId ? getInstallation(teamId) : undefined;
+                if (installation) {
+                  return { botToken: installation.botToken, botUserId: installation.botUserId, teamId };
+                }
+                if (SLACK_BOT_TOKEN) return { botToken: SLACK_BOT_TOKEN };
+                throw new Error(`No installation for team ${teamId}`);
+              },
+            }
+          : { token: SLACK_BOT_TOKEN }),
         signingSecret: SLACK_SIGNING_SECRET,
+        // Rate-limited calls are retried by slackCall (see ratelimit.ts)
+        clientOptions: SLACK_CLIENT_OPTIONS,
         socketMode: true,
         appToken: SLACK_APP_TOKEN,
         // Don't start Bolt's built-in HTTP server — we use Express
       });
 
+      // Handle every Slack event in its workspace's store
+      boltApp.use(async ({ context, next }) => {
+        await runWithTeam(teamForSlackTeam(context.teamId), next);
+      });
+
       registerListeners(boltApp);
+      registerInteractions(boltApp);
 
       await boltApp.start();
       console.log('⚡ Bolt Socket Mode listener connected to Slack\n');
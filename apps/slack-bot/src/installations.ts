@@ -0,0 +1,114 @@
+/**
+ * Slack workspaces installed via OAuth.
+ *
+ * Each install stores the team's bot token and the hash of its generated
+ * API key in INSTALLATIONS_PATH (default ./data/installations.json), which
+ * therefore holds secrets and must not be world-readable. The workspace
+ * configured with SLACK_BOT_TOKEN needs no install and is DEFAULT_TEAM.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { WebClient } from '@slack/web-api';
+import { DEFAULT_TEAM } from './tenants';
+import { SLACK_CLIENT_OPTIONS } from './ratelimit';
+
+export interface Installation {
+  teamId: string;
+  teamName: string;
+  botToken: string;
+  botUserId?: string;
+  botId?: string;
+  apiKeyHash: string;
+  installedAt: string; // ISO 8601
+}
+
+// Map<teamId, installation>; loaded lazily from disk
+let installations: Map<string, Installation> | null = null;
+
+// Map<teamId, client>
+const clients = new Map<string, WebClient>();
+let defaultClient = new WebClient(undefined, SLACK_CLIENT_OPTIONS);
+
+function installationsPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.INSTALLATIONS_PATH || './data/installations.json');
+}
+
+function load(): Map<string, Installation> {
+  if (installations) return installations;
+  installations = new Map();
+
+  const filePath = installationsPath();
+  if (!fs.existsSync(filePath)) return installations;
+
+  try {
+    const list = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Installation[];
+    for (const installation of list) installations.set(installation.teamId, installation);
+  } catch (error) {
+    console.error(`[Installations] Could not read ${filePath}:`, error);
+  }
+  return installations;
+}
+
+function save(): void {
+  const filePath = installationsPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Write-then-rename so a crash mid-write never leaves a truncated file
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(Array.from(load().values()), null, 2), { mode: 0o600 });
+  fs.renameSync(tmpPath, filePath);
+}
+
+export function getInstallation(teamId: string): Installation | undefined {
+  return load().get(teamId);
+}
+
+export function getInstallations(): Installation[] {
+  return Array.from(load().values());
+}
+
+/**
+ * Add or replace a workspace install (re-installing rotates its token and key).
+ */
+export function saveInstallation(installation: Installation): void {
+  load().set(installation.teamId, installation);
+  clients.delete(installation.teamId);
+  save();
+}
+
+export function findTeamByApiKeyHash(hash: string): string | undefined {
+  for (const installation of load().values()) {
+    if (installation.apiKeyHash === hash) return installation.teamId;
+  }
+  return undefined;
+}
+
+/**
+ * The team context for a Slack team id: its own if installed via OAuth,
+ * otherwise the default (env-configured) workspace.
+ */
+export function teamForSlackTeam(slackTeamId: string | undefined): string {
+  return slackTeamId && load().has(slackTeamId) ? slackTeamId : DEFAULT_TEAM;
+}
+
+// ─── Web API clients ───────────────────────────────────────────────────
+
+export function setDefaultSlackClient(client: WebClient): void {
+  defaultClient = client;
+}
+
+/**
+ * A WebClient authorized for the team's workspace.
+ */
+export function getSlackClient(teamId: string): WebClient {
+  const installation = teamId === DEFAULT_TEAM ? undefined : getInstallation(teamId);
+  if (!installation) return defaultClient;
+
+  let client = clients.get(teamId);
+  if (!client) {
+    client = new WebClient(installation.botToken, SLACK_CLIENT_OPTIONS);
+    clients.set(teamId, client);
+  }
+  return client;
+}
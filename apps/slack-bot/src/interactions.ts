@@ -0,0 +1,544 @@
+/**
+ * Slack interactions: the `/universify` slash command and the
+ * "Add to Universify" message shortcut.
+ *
+ * Club officers who don't want to rely on `parseSlackMessage` reading their
+ * prose can run `/universify` in a channel, fill in a modal (title, date,
+ * time, location, categories, capacity) and get an event stored with exactly
+ * those fields.
+ *
+ * When the parser gets a message wrong, the message shortcut opens the same
+ * form pre-filled with what the parser extracted, so anyone can correct it.
+ * Events saved from either form are marked `manuallyVerified`, and later
+ * re-parses of the message no longer overwrite them.
+ *
+ * The slash command and the shortcut (callback id `add_to_universify`) must be
+ * configured in the Slack app settings; in Socket Mode no request URL is needed.
+ */
+
+import { App, ViewOutput, ViewStateValue, types } from '@slack/bolt';
+import { ChannelVisibility, EVENT_CATEGORIES, EventCategory } from '@universify/shared';
+import { SLACK_EVENT_COLOR, UniversifyEvent, parseSlackMessage } from './parser';
+import { addEvent, getEvent } from './store';
+import { getChannelInfo } from './lookups';
+import {
+  formatInTimeZone,
+  getWallClock,
+  resolveTimeZone,
+  zonedTimeToInstant,
+} from './timezone';
+
+const CREATE_EVENT_CALLBACK = 'universify_create_event';
+const ADD_MESSAGE_SHORTCUT = 'add_to_universify';
+const VERIFY_EVENT_CALLBACK = 'universify_verify_event';
+
+// Slack caps plain_text_input values at 3000 characters
+const MAX_INPUT_LENGTH = 3000;
+
+// Block ids double as the field names read back on submit
+const FIELD = {
+  title: 'title',
+  date: 'date',
+  startTime: 'start_time',
+  endTime: 'end_time',
+  location: 'location',
+  categories: 'categories',
+  capacity: 'capacity',
+  description: 'description',
+} as const;
+
+/** Where the modal was opened from, carried through `private_metadata`. */
+interface ModalContext {
+  channelId: string;
+  channelName: string;
+  // Set when correcting an existing message via the shortcut
+  messageTs?: string;
+  organizer?: { id: string; name: string };
+  imageUrl?: string;
+}
+
+/** The fields an officer fills in. */
+export interface EventFormValues {
+  title: string;
+  date: string;        // YYYY-MM-DD
+  startTime: string;   // HH:mm
+  endTime?: string;    // HH:mm
+  location: string;
+  categories: EventCategory[];
+  capacity?: number;
+  description?: string;
+}
+
+// ─── Modal ─────────────────────────────────────────────────────────────
+
+function plainText(text: string): types.PlainTextElement {
+  return { type: 'plain_text', text };
+}
+
+function categoryOption(category: EventCategory): types.PlainTextOption {
+  return { text: plainText(category), value: category };
+}
+
+/**
+ * Input blocks for the event form, pre-filled from `initial` when given.
+ */
+export function eventFormBlocks(initial: Partial<EventFormValues> = {}): types.KnownBlock[] {
+  return [
+    {
+      type: 'input',
+      block_id: FIELD.title,
+      label: plainText('Title'),
+      element: {
+        type: 'plain_text_input',
+        action_id: 'value',
+        max_length: 100,
+        ...(initial.title ? { initial_value: initial.title } : {}),
+      },
+    },
+    {
+      type: 'input',
+      block_id: FIELD.date,
+      label: plainText('Date'),
+      element: {
+        type: 'datepicker',
+        action_id: 'value',
+        ...(initial.date ? { initial_date: initial.date } : {}),
+      },
+    },
+    {
+      type: 'input',
+      block_id: FIELD.startTime,
+      label: plainText('Start time'),
+      element: {
+        type: 'timepicker',
+        action_id: 'value',
+        ...(initial.startTime ? { initial_time: initial.startTime } : {}),
+      },
+    },
+    {
+      type: 'input',
+      block_id: FIELD.endTime,
+      label: plainText('End time'),
+      hint: plainText('Defaults to one hour after the start'),
+      optional: true,
+      element: {
+        type: 'timepicker',
+        action_id: 'value',
+        ...(initial.endTime ? { initial_time: initial.endTime } : {}),
+      },
+    },
+    {
+      type: 'input',
+      block_id: FIELD.location,
+      label: plainText('Location'),
+      element: {
+        type: 'plain_text_input',
+        action_id: 'value',
+        ...(initial.location ? { initial_value: initial.location } : {}),
+      },
+    },
+    {
+      type: 'input',
+      block_id: FIELD.categories,
+      label: plainText('Categories'),
+      optional: true,
+      element: {
+        type: 'multi_static_select',
+        action_id: 'value',
+        options: EVENT_CATEGORIES.map(categoryOption),
+        ...(initial.categories?.length
+          ? { initial_options: initial.categories.map(categoryOption) }
+          : {}),
+      },
+    },
+    {
+      type: 'input',
+      block_id: FIELD.capacity,
+      label: plainText('Capacity'),
+      optional: true,
+      element: {
+        type: 'number_input',
+        action_id: 'value',
+        is_decimal_allowed: false,
+        min_value: '1',
+        ...(initial.capacity ? { initial_value: String(initial.capacity) } : {}),
+      },
+    },
+    {
+      type: 'input',
+      block_id: FIELD.description,
+      label: plainText('Description'),
+      optional: true,
+      element: {
+        type: 'plain_text_input',
+        action_id: 'value',
+        multiline: true,
+        max_length: MAX_INPUT_LENGTH,
+        ...(initial.description
+          ? { initial_value: initial.description.substring(0, MAX_INPUT_LENGTH) }
+          : {}),
+      },
+    },
+  ];
+}
+
+type ViewState = ViewOutput['state']['values'];
+
+function readValue(state: ViewState, blockId: string): ViewStateValue | undefined {
+  return state[blockId]?.value;
+}
+
+/**
+ * Read the submitted form. Returns either the values or a map of
+ * block id → error message, in the shape `ack({ response_action: 'errors' })` wants.
+ */
+export function readEventForm(
+  state: ViewState
+): { values: EventFormValues } | { errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  const title = readValue(state, FIELD.title)?.value?.trim() || '';
+  const date = readValue(state, FIELD.date)?.selected_date || '';
+  const startTime = readValue(state, FIELD.startTime)?.selected_time || '';
+  const endTime = readValue(state, FIELD.endTime)?.selected_time || undefined;
+  const location = readValue(state, FIELD.location)?.value?.trim() || '';
+  const categories = (readValue(state, FIELD.categories)?.selected_options || [])
+    .map((option) => option.value as EventCategory)
+    .filter((category) => EVENT_CATEGORIES.includes(category));
+  const rawCapacity = readValue(state, FIELD.capacity)?.value;
+  const description = readValue(state, FIELD.description)?.value?.trim() || undefined;
+
+  if (!title) errors[FIELD.title] = 'Give the event a title';
+  if (!date) errors[FIELD.date] = 'Pick a date';
+  if (!startTime) errors[FIELD.startTime] = 'Pick a start time';
+  if (endTime && startTime && endTime <= startTime) {
+    errors[FIELD.endTime] = 'End time must be after the start time';
+  }
+
+  let capacity: number | undefined;
+  if (rawCapacity) {
+    capacity = parseInt(rawCapacity, 10);
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      errors[FIELD.capacity] = 'Capacity must be a positive whole number';
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+  return {
+    values: { title, date, startTime, endTime, location, categories, capacity, description },
+  };
+}
+
+function createEventModal(context: ModalContext): types.ModalView {
+  return {
+    type: 'modal',
+    callback_id: CREATE_EVENT_CALLBACK,
+    private_metadata: JSON.stringify(context),
+    title: plainText('New Universify event'),
+    submit: plainText('Create'),
+    close: plainText('Cancel'),
+    blocks: eventFormBlocks(),
+  };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** Form values for an already-parsed event, with times shown in `timeZone`. */
+function formValuesFromEvent(event: UniversifyEvent, timeZone: string): Partial<EventFormValues> {
+  const start = getWallClock(new Date(event.startTime), timeZone);
+  const end = getWallClock(new Date(event.endTime), timeZone);
+  return {
+    title: event.title,
+    date: `${start.year}-${pad(start.month + 1)}-${pad(start.day)}`,
+    startTime: `${pad(start.hour)}:${pad(start.minute)}`,
+    endTime: `${pad(end.hour)}:${pad(end.minute)}`,
+    location: event.location,
+    categories: event.categories,
+    capacity: event.capacity,
+    description: event.description,
+  };
+}
+
+function describeParse(event: UniversifyEvent, timeZone: string): string {
+  const when = new Date(event.startTime).toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  const where = event.location ? ` at ${event.location}` : ' (no location found)';
+  const confidence =
+    event.confidence !== undefined ? ` — ${Math.round(event.confidence * 100)}% confident` : '';
+  return `*${event.title}*\n${when}${where}${confidence}`;
+}
+
+function verifyEventModal(event: UniversifyEvent, context: ModalContext, timeZone: string): types.ModalView {
+  const heading = event.manuallyVerified
+    ? ':white_check_mark: This event was already verified. Saving replaces it.'
+    : ':mag: Here is what Universify read from this message. Fix anything that is wrong, then save.';
+
+  return {
+    type: 'modal',
+    callback_id: VERIFY_EVENT_CALLBACK,
+    private_metadata: JSON.stringify(context),
+    title: plainText('Add to Universify'),
+    submit: plainText('Save'),
+    close: plainText('Cancel'),
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: heading } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: describeParse(event, timeZone) }] },
+      { type: 'divider' },
+      ...eventFormBlocks(formValuesFromEvent(event, timeZone)),
+    ],
+  };
+}
+
+function errorModal(message: string): types.ModalView {
+  return {
+    type: 'modal',
+    title: plainText('Add to Universify'),
+    close: plainText('Close'),
+    blocks: [{ type: 'section', text: { type: 'mrkdwn', text: message } }],
+  };
+}
+
+// ─── Event construction ────────────────────────────────────────────────
+
+function wallClockToInstant(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return zonedTimeToInstant({ year, month: month - 1, day, hour, minute, second: 0 }, timeZone);
+}
+
+/**
+ * Apply form values to an event: times are read in the channel's timezone,
+ * and an empty end time means one hour after the start. A human filled in
+ * these fields, so the result is marked verified and no longer needs review.
+ */
+export function applyEventForm(
+  event: UniversifyEvent,
+  values: EventFormValues,
+  timeZone: string
+): UniversifyEvent {
+  const start = wallClockToInstant(values.date, values.startTime, timeZone);
+  const end = values.endTime
+    ? wallClockToInstant(values.date, values.endTime, timeZone)
+    : new Date(start.getTime() + 60 * 60 * 1000);
+
+  return {
+    ...event,
+    title: values.title,
+    description: values.description ?? event.description,
+    startTime: formatInTimeZone(start, timeZone),
+    endTime: formatInTimeZone(end, timeZone),
+    location: values.location,
+    categories: values.categories.length > 0 ? values.categories : ['Events'],
+    capacity: values.capacity,
+    tags: event.tags.filter((tag) => tag !== 'Needs Review'),
+    needsReview: false,
+    manuallyVerified: true,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Who can see a form's channel: the stored event's visibility when Slack
+ * can't be asked (see lookups.ts), or undefined after telling the user to
+ * try again rather than store a guess.
+ */
+async function formChannelVisibility(
+  client: App['client'],
+  context: ModalContext,
+  userId: string
+): Promise<ChannelVisibility | undefined> {
+  const channel = await getChannelInfo(client, context.channelId);
+  if (!channel.guessed) return channel.visibility;
+  const existing = context.messageTs ? getEvent(`slack-${context.channelId}-${context.messageTs}`) : undefined;
+  if (existing?.channelVisibility) return existing.channelVisibility;
+
+  try {
+    await client.chat.postEphemeral({
+      channel: context.channelId,
+      user: userId,
+      text: ":warning: Slack is busy, so Universify couldn't check who can see this channel. Please submit the event again in a minute.",
+    });
+  } catch {
+    // Non-critical — the bot may not be in the channel
+  }
+  return undefined;
+}
+
+/**
+ * Event for a submitted form. Corrections to a message keep its event id
+ * (and so replace the parsed event); `/universify` events get a fresh one.
+ * Events from private channels are marked so only clients allowed to read
+ * the channel see them.
+ */
+function buildFormEvent(
+  values: EventFormValues,
+  context: ModalContext,
+  user: { id: string; name: string },
+  channelVisibility: ChannelVisibility
+): UniversifyEvent {
+  const now = new Date().toISOString();
+  const timeZone = resolveTimeZone(context.channelId);
+  const organizer = context.organizer ?? user;
+
+  // Same prefix as parsed messages so channel filters and the SSE stream pick it up
+  const id = context.messageTs
+    ? `slack-${context.channelId}-${context.messageTs}`
+    : `slack-${context.channelId}-form-${Date.now()}`;
+
+  const existing = getEvent(id);
+  if (existing) return applyEventForm({ ...existing, channelVisibility }, values, timeZone);
+
+  const base: UniversifyEvent = {
+    id,
+    title: '',
+    description: '',
+    startTime: '',
+    endTime: '',
+    location: '',
+    categories: [],
+    organizer: {
+      id: `slack-user-${organizer.id}`,
+      name: organizer.name || context.channelName,
+      type: 'club',
+    },
+    color: SLACK_EVENT_COLOR,
+    rsvpEnabled: true,
+    rsvpCounts: { going: 0, maybe: 0, notGoing: 0 },
+    attendees: [],
+    attendeeVisibility: 'public',
+    isClubEvent: true,
+    isSocialEvent: false,
+    tags: ['Slack', context.channelName],
+    createdAt: now,
+    updatedAt: now,
+    ...(context.imageUrl ? { imageUrl: context.imageUrl } : {}),
+    confidence: 1,
+    channelVisibility,
+  };
+
+  return applyEventForm(base, values, timeZone);
+}
+
+// ─── Registration ──────────────────────────────────────────────────────
+
+/**
+ * Register slash commands, shortcuts and modal handlers on the Bolt app.
+ */
+export function registerInteractions(app: App): void {
+  app.command('/universify', async ({ ack, body, client }) => {
+    await ack();
+
+    try {
+      await client.views.open({
+        trigger_id: body.trigger_id,
+        view: createEventModal({ channelId: body.channel_id, channelName: body.channel_name }),
+      });
+    } catch (error) {
+      console.error('[Interactions] Failed to open /universify modal:', error);
+    }
+  });
+
+  app.view(CREATE_EVENT_CALLBACK, async ({ ack, body, view, client }) => {
+    const form = readEventForm(view.state.values);
+    if ('errors' in form) {
+      await ack({ response_action: 'errors', errors: form.errors });
+      return;
+    }
+    await ack();
+
+    const context: ModalContext = JSON.parse(view.private_metadata);
+    const visibility = await formChannelVisibility(client, context, body.user.id);
+    if (!visibility) return;
+    const event = buildFormEvent(form.values, context, body.user, visibility);
+    addEvent(event);
+    console.log(`[Interactions] Event created via /universify in #${context.channelName}: "${event.title}"`);
+
+    try {
+      await client.chat.postEphemeral({
+        channel: context.channelId,
+        user: body.user.id,
+        text: `:white_check_mark: *${event.title}* was added to Universify.`,
+      });
+    } catch {
+      // Non-critical — the bot may not be in the channel
+    }
+  });
+
+  app.shortcut(ADD_MESSAGE_SHORTCUT, async ({ ack, shortcut, client }) => {
+    await ack();
+    if (shortcut.type !== 'message_action') return;
+
+    const channelId = shortcut.channel.id;
+    const channelName = shortcut.channel.name;
+    const message = shortcut.message as any;
+    const timeZone = resolveTimeZone(channelId);
+
+    try {
+      // Prefer what's stored (it may include thread amendments or an earlier correction);
+      // otherwise parse now, keeping even low-confidence results so they can be fixed
+      const event =
+        getEvent(`slack-${channelId}-${message.ts}`) ??
+        parseSlackMessage(
+          {
+            text: message.text || '',
+            ts: message.ts,
+            user: message.user,
+            channel: channelId,
+            username: message.username,
+            blocks: message.blocks,
+            attachments: message.attachments,
+            files: message.files,
+          },
+          channelName,
+          channelId,
+          { skipBelow: 0 }
+        );
+
+      const view = event
+        ? verifyEventModal(
+            event,
+            {
+              channelId,
+              channelName,
+              messageTs: message.ts,
+              organizer: { id: message.user || 'unknown', name: event.organizer.name },
+              imageUrl: event.imageUrl,
+            },
+            timeZone
+          )
+        : errorModal('This message has no text Universify can turn into an event.');
+
+      await client.views.open({ trigger_id: shortcut.trigger_id, view });
+    } catch (error) {
+      console.error('[Interactions] Failed to open "Add to Universify" preview:', error);
+    }
+  });
+
+  app.view(VERIFY_EVENT_CALLBACK, async ({ ack, body, view, client }) => {
+    const form = readEventForm(view.state.values);
+    if ('errors' in form) {
+      await ack({ response_action: 'errors', errors: form.errors });
+      return;
+    }
+    await ack();
+
+    const context: ModalContext = JSON.parse(view.private_metadata);
+    const visibility = await formChannelVisibility(client, context, body.user.id);
+    if (!visibility) return;
+    const event = buildFormEvent(form.values, context, body.user, visibility);
+    addEvent(event);
+    console.log(
+      `[Interactions] Event ${event.id} verified by ${body.user.name || body.user.id}: "${event.title}"`
+    );
+  });
+
+  console.log('[Interactions] /universify command and "Add to Universify" shortcut registered');
+}
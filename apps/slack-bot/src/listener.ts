@@ -3,12 +3,225 @@
  *
  * Subscribes to message events in Slack channels.
  * When a new message arrives in a monitored channel, it parses the message
- * and stores the result in the in-memory store.
+ * and stores the result in the event store. Edits re-parse the stored event
+ * and deletions tombstone it. Thread replies amend their parent event instead
+ * of becoming events of their own. Reactions on an event's message are
+ * RSVPs (see rsvp.ts).
+ *
+ * Private channels and group DMs the bot is invited to are opt-in: their
+ * messages are only ingested once the channel is on the monitored list, and
+ * their events are marked private (see canAccessEvent in auth.ts). Requires
+ * the `groups:history` / `mpim:history` scopes and the `message.groups` /
+ * `message.mpim` event subscriptions.
  */
 
 import { App } from '@slack/bolt';
-import { parseSlackMessage } from './parser';
-import { addEvent, isChannelMonitored, getMonitoredChannels } from './store';
+import { WebClient } from '@slack/web-api';
+import { ChannelVisibility } from '@universify/shared';
+import { parseSlackMessage, applyThreadReply } from './parser';
+import { amendWithThreadReplies } from './sync';
+import { getRsvpReactions, refreshReactionRsvps } from './rsvp';
+import { ChannelInfo, getChannelInfo, getUserName } from './lookups';
+import {
+  addEvent,
+  getEvent,
+  tombstoneEvent,
+  isChannelMonitored,
+  getMonitoredChannels,
+} from './store';
+
+// `channel_type` on message events: channel | group (private) | mpim | im
+function visibilityOfChannelType(channelType?: string): ChannelVisibility | undefined {
+  if (channelType === 'group' || channelType === 'mpim' || channelType === 'im') return 'private';
+  if (channelType === 'channel') return 'public';
+  return undefined;
+}
+
+function shouldProcessChannel(channelId: string, channelType?: string): boolean {
+  // Direct messages to the bot are never announcements
+  if (channelType === 'im') return false;
+  // Private channels and group DMs only when explicitly monitored
+  if (visibilityOfChannelType(channelType) === 'private') return isChannelMonitored(channelId);
+
+  // If we have a monitored channel list, only process those
+  const monitored = getMonitoredChannels();
+  return monitored.length === 0 || isChannelMonitored(channelId);
+}
+
+/**
+ * Channel name and visibility, preferring the event's own `channel_type`
+ * over the (cached) conversations.info lookup.
+ */
+async function resolveChannel(client: WebClient, channelId: string, channelType?: string): Promise<ChannelInfo> {
+  const info = await getChannelInfo(client, channelId);
+  const visibility = visibilityOfChannelType(channelType);
+  return visibility ? { name: info.name, visibility } : info;
+}
+
+// ─── Message handlers ──────────────────────────────────────────────────
+
+function isThreadReply(msg: any): boolean {
+  return !!msg.thread_ts && msg.thread_ts !== msg.ts;
+}
+
+/**
+ * A reply in a thread patches the parent event's location/time/description.
+ * Replies to messages we never stored (chatter threads) are ignored.
+ */
+function handleThreadReply(msg: any, channelId: string): void {
+  const parentId = `slack-${channelId}-${msg.thread_ts}`;
+  const parent = getEvent(parentId);
+  if (!parent) return;
+
+  const amended = applyThreadReply(parent, {
+    text: msg.text || '',
+    ts: msg.ts,
+    threadTs: msg.thread_ts,
+    user: msg.user,
+    channel: channelId,
+    blocks: msg.blocks,
+    attachments: msg.attachments,
+  });
+
+  if (amended) {
+    addEvent(amended);
+    console.log(`[Listener] Thread reply updated event "${amended.title}" (${parentId})`);
+  }
+}
+
+async function handleNewMessage(msg: any, client: WebClient): Promise<void> {
+  const channelId = msg.channel as string;
+  const text = msg.text as string;
+  const ts = msg.ts as string;
+
+  // Skip if empty (bot posts may have only blocks, attachments or a flyer)
+  const hasRichContent = !!(msg.blocks?.length || msg.attachments?.length || msg.files?.length);
+  if ((!text || !text.trim()) && !hasRichContent) return;
+
+  if (isThreadReply(msg)) {
+    handleThreadReply(msg, channelId);
+    return;
+  }
+
+  const { name: channelName, visibility, guessed } = await resolveChannel(client, channelId, msg.channel_type);
+  if (guessed) {
+    // Not stored with a guessed visibility; the channel's next history sync picks it up
+    console.warn(`[Listener] Couldn't look up channel ${channelId}; leaving message ${ts} for the next sync`);
+    return;
+  }
+  const username = await getUserName(client, msg.user);
+
+  // Parse and store
+  const event = parseSlackMessage(
+    {
+      text: text || '',
+      ts,
+      user: msg.user,
+      channel: channelId,
+      username,
+      blocks: msg.blocks,
+      attachments: msg.attachments,
+      files: msg.files,
+    },
+    channelName,
+    channelId,
+    { channelVisibility: visibility }
+  );
+
+  if (event) {
+    const isNew = addEvent(event);
+    if (isNew) {
+      console.log(
+        `[Listener] New event from #${channelName}: "${event.title}" (${event.startTime})`
+      );
+    }
+  }
+}
+
+/**
+ * `message_changed`: the edited message is nested under `message`.
+ * Re-parse it and update the stored event in place, keeping its id and createdAt.
+ */
+async function handleMessageChanged(msg: any, client: WebClient): Promise<void> {
+  const channelId = msg.channel as string;
+  const edited = msg.message || {};
+  const ts = edited.ts as string;
+  const text = (edited.text as string) || '';
+  if (!ts) return;
+
+  // An edited thread reply is re-applied to its parent
+  if (isThreadReply(edited)) {
+    handleThreadReply(edited, channelId);
+    return;
+  }
+
+  const eventId = `slack-${channelId}-${ts}`;
+  const existing = getEvent(eventId);
+
+  const channel = await resolveChannel(client, channelId, msg.channel_type);
+  const { name: channelName } = channel;
+  const visibility = channel.guessed ? existing?.channelVisibility : channel.visibility;
+  if (!visibility) {
+    console.warn(`[Listener] Couldn't look up channel ${channelId}; ignoring the edit of message ${ts}`);
+    return;
+  }
+  const username = await getUserName(client, edited.user);
+
+  let event = parseSlackMessage(
+    {
+      text,
+      ts,
+      user: edited.user,
+      channel: channelId,
+      username,
+      blocks: edited.blocks,
+      attachments: edited.attachments,
+      files: edited.files,
+    },
+    channelName,
+    channelId,
+    { channelVisibility: visibility }
+  );
+
+  if (!event) {
+    // The edit emptied the message — treat it like a deletion
+    if (tombstoneEvent(eventId)) {
+      console.log(`[Listener] Event ${eventId} removed after edit left no content`);
+    }
+    return;
+  }
+
+  // Re-parsing the parent loses earlier amendments, so fold its thread back in
+  if (edited.reply_count > 0) {
+    event = await amendWithThreadReplies(client, channelId, event, ts);
+  }
+
+  if (existing) {
+    event.createdAt = existing.createdAt;
+  }
+  event.updatedAt = new Date().toISOString();
+
+  addEvent(event);
+  console.log(
+    `[Listener] ${existing ? 'Updated' : 'New'} event from edit in #${channelName}: "${event.title}"`
+  );
+}
+
+/**
+ * `message_deleted`: tombstone the event so clients drop it on next sync.
+ */
+function handleMessageDeleted(msg: any): void {
+  const channelId = msg.channel as string;
+  const deletedTs = (msg.deleted_ts || msg.previous_message?.ts) as string | undefined;
+  if (!deletedTs) return;
+
+  const eventId = `slack-${channelId}-${deletedTs}`;
+  if (tombstoneEvent(eventId)) {
+    console.log(`[Listener] Event ${eventId} removed (message deleted)`);
+  }
+}
+
+// ─── Registration ──────────────────────────────────────────────────────
 
 /**
  * Register Slack event listeners on the Bolt app.
@@ -16,77 +229,62 @@ import { addEvent, isChannelMonitored, getMonitoredChannels } from './store';
  * The app listens for `message` events in channels.
  * If the channel is in the monitored list (or if no channels are explicitly
  * monitored, it listens to ALL channels the bot is in), it parses the message
- * and stores it as a Universify event.
+ * and stores it as a Universify event. `message_changed` and `message_deleted`
+ * subtypes keep already-stored events in sync with the Slack message, and
+ * `reaction_added` / `reaction_removed` keep its RSVPs in sync.
  */
 export function registerListeners(app: App): void {
   // Listen for all messages in channels the bot is a member of
   app.message(async ({ message, client }) => {
     try {
-      // Type guard: only handle regular messages (not edits, deletes, etc.)
-      if (message.subtype && message.subtype !== 'bot_message') return;
-
       const msg = message as any;
       const channelId = msg.channel as string;
-      const text = msg.text as string;
-      const ts = msg.ts as string;
-
-      // Skip if empty
-      if (!text || !text.trim()) return;
 
-      // If we have a monitored channel list, only process those
-      const monitored = getMonitoredChannels();
-      if (monitored.length > 0 && !isChannelMonitored(channelId)) {
-        return;
-      }
+      if (!shouldProcessChannel(channelId, msg.channel_type)) return;
 
-      // Look up channel name
-      let channelName = channelId;
-      try {
-        const info = await client.conversations.info({ channel: channelId });
-        channelName = (info.channel as any)?.name || channelId;
-      } catch {
-        // Non-critical
+      switch (message.subtype) {
+        case undefined:
+        case 'bot_message':
+        case 'thread_broadcast':
+        case 'file_share': // flyer uploads
+          await handleNewMessage(msg, client);
+          break;
+        case 'message_changed':
+          await handleMessageChanged(msg, client);
+          break;
+        case 'message_deleted':
+          handleMessageDeleted(msg);
+          break;
+        default:
+          // Joins, topic changes, etc. are not events
+          break;
       }
+    } catch (error) {
+      console.error('[Listener] Error processing message:', error);
+    }
+  });
 
-      // Look up user display name
-      let username: string | undefined;
-      if (msg.user) {
-        try {
-          const userInfo = await client.users.info({ user: msg.user });
-          username =
-            (userInfo.user as any)?.real_name ||
-            (userInfo.user as any)?.name ||
-            undefined;
-        } catch {
-          // Non-critical
-        }
-      }
+  // Reactions on an event's message are RSVPs
+  const handleReaction = async ({ event, client }: { event: any; client: WebClient }) => {
+    try {
+      if (event.item?.type !== 'message') return;
+      const channelId = event.item.channel as string;
+      if (!shouldProcessChannel(channelId)) return;
 
-      // Parse and store
-      const event = parseSlackMessage(
-        {
-          text,
-          ts,
-          user: msg.user,
-          channel: channelId,
-          username,
-        },
-        channelName,
-        channelId
-      );
+      // Ignore reactions that aren't RSVP emoji before calling the API
+      const reaction = (event.reaction as string).split('::')[0];
+      if (!getRsvpReactions().has(reaction)) return;
 
-      if (event) {
-        const isNew = addEvent(event);
-        if (isNew) {
-          console.log(
-            `[Listener] New event from #${channelName}: "${event.title}" (${event.startTime})`
-          );
-        }
+      if (await refreshReactionRsvps(client, channelId, event.item.ts)) {
+        console.log(`[Listener] RSVPs updated for slack-${channelId}-${event.item.ts} (:${reaction}:)`);
       }
     } catch (error) {
-      console.error('[Listener] Error processing message:', error);
+      console.error('[Listener] Error processing reaction:', error);
     }
-  });
+  };
+
+  app.event('reaction_added', handleReaction);
+  app.event('reaction_removed', handleReaction);
 
   console.log('[Listener] Slack message listeners registered');
 }
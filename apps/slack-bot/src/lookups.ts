@@ -0,0 +1,135 @@
+/**
+ * Cached channel and user lookups.
+ *
+ * Every ingested message needs its channel's name and visibility, and live
+ * messages their author's display name. These rarely change, so they are
+ * cached per workspace (channels for CHANNEL_TTL_MS, users for USER_TTL_MS)
+ * and concurrent lookups of the same id share one request. A failed lookup
+ * answers with the last value Slack gave, or else a fallback (the channel id
+ * / no name), and is retried after FAILURE_TTL_MS, so a missing scope or
+ * deleted user doesn't cost a request per message. While Slack has the
+ * method paused (see ratelimit.ts), the same is used instead of waiting.
+ *
+ * A channel Slack has never described gets a `guessed` private visibility,
+ * so its events aren't served more widely than they should be meanwhile.
+ * Callers must not store or act on a guess as if it were the channel's.
+ */
+
+import { WebClient } from '@slack/web-api';
+import { ChannelVisibility } from '@universify/shared';
+import { currentTeam } from './tenants';
+import { isBackedOff, slackCall } from './ratelimit';
+
+const CHANNEL_TTL_MS = 60 * 60 * 1000;
+const USER_TTL_MS = 6 * 60 * 60 * 1000;
+const FAILURE_TTL_MS = 5 * 60 * 1000;
+const MAX_ENTRIES = 5000; // per cache; the oldest entries are dropped first
+
+export interface ChannelInfo {
+  name: string;
+  visibility: ChannelVisibility;
+  guessed?: boolean; // Slack couldn't be asked and never said; `visibility` is the private fallback
+}
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+  known?: { value: T }; // the last value Slack gave, kept through failed lookups
+}
+
+// Map<`${teamId}:${id}`, entry>
+const channels = new Map<string, CacheEntry<ChannelInfo>>();
+const userNames = new Map<string, CacheEntry<string | undefined>>();
+
+function setEntry<T>(cache: Map<string, CacheEntry<T>>, key: string, entry: CacheEntry<T>): void {
+  cache.delete(key); // re-insert so Map order stays oldest-first
+  cache.set(key, entry);
+  if (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
+
+function lookup<T>(
+  cache: Map<string, CacheEntry<T>>,
+  id: string,
+  method: string,
+  ttlMs: number,
+  fetch: () => Promise<T>,
+  fallback: T
+): Promise<T> {
+  const key = `${currentTeam()}:${id}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const known = cached?.known;
+  const lastKnown = known ? known.value : fallback;
+  // Don't queue behind a rate limit for a name; a stale one will do
+  if (isBackedOff(method)) return Promise.resolve(lastKnown);
+
+  const entry: CacheEntry<T> = { value: Promise.resolve(lastKnown), expiresAt: Date.now() + ttlMs, known };
+  entry.value = slackCall(method, fetch).then(
+    (value) => {
+      entry.known = { value };
+      return value;
+    },
+    () => {
+      entry.expiresAt = Date.now() + FAILURE_TTL_MS;
+      return lastKnown;
+    }
+  );
+  setEntry(cache, key, entry);
+  return entry.value;
+}
+
+/**
+ * Private channels, group DMs and 1:1 DMs are private. Slack leaves
+ * `is_private` off DMs, so `is_im` has to be checked as well.
+ */
+export function channelVisibilityOf(channel: { is_private?: boolean; is_mpim?: boolean; is_im?: boolean }): ChannelVisibility {
+  return channel.is_private || channel.is_mpim || channel.is_im ? 'private' : 'public';
+}
+
+export function getChannelInfo(client: WebClient, channelId: string): Promise<ChannelInfo> {
+  return lookup<ChannelInfo>(
+    channels,
+    channelId,
+    'conversations.info',
+    CHANNEL_TTL_MS,
+    async () => {
+      const info = await client.conversations.info({ channel: channelId });
+      const channel = (info.channel || {}) as { name?: string; is_private?: boolean; is_mpim?: boolean; is_im?: boolean };
+      return { name: channel.name || channelId, visibility: channelVisibilityOf(channel) };
+    },
+    { name: channelId, visibility: 'private', guessed: true }
+  );
+}
+
+export function getUserName(client: WebClient, userId?: string): Promise<string | undefined> {
+  if (!userId) return Promise.resolve(undefined);
+  return lookup(
+    userNames,
+    userId,
+    'users.info',
+    USER_TTL_MS,
+    async () => {
+      const info = await client.users.info({ user: userId });
+      return (info.user as any)?.real_name || (info.user as any)?.name || undefined;
+    },
+    undefined
+  );
+}
+
+/**
+ * Seed the channel cache from a `conversations.list` response.
+ */
+export function rememberChannel(channelId: string, info: ChannelInfo): void {
+  setEntry(channels, `${currentTeam()}:${channelId}`, {
+    value: Promise.resolve(info),
+    expiresAt: Date.now() + CHANNEL_TTL_MS,
+    known: { value: info },
+  });
+}
+
+export function getLookupCacheSizes(): { channels: number; users: number } {
+  return { channels: channels.size, users: userNames.size };
+}
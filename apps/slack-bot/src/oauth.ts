@@ -0,0 +1,151 @@
+/**
+ * OAuth install flow for additional Slack workspaces.
+ *
+ *   GET /api/slack/oauth/install   → redirects to Slack's consent screen
+ *   GET /api/slack/oauth/callback  → exchanges the code for a bot token,
+ *                                    stores the installation and shows the
+ *                                    workspace's API key (once)
+ *
+ * Configuration:
+ *   SLACK_CLIENT_ID, SLACK_CLIENT_SECRET — from the Slack app's Basic Information page
+ *   SLACK_REDIRECT_URI                   — optional; must match the app's redirect URL
+ *   API_TOKEN_SECRET                     — signs the `state` parameter
+ *
+ * These routes are public: they're how a workspace gets its first credential.
+ */
+
+import { Router, Request, Response } from 'express';
+import { WebClient } from '@slack/web-api';
+import { generateApiKey, hashApiKey, signPayload, verifyPayload } from './auth';
+import { saveInstallation } from './installations';
+
+const STATE_PREFIX = 'uvs';
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// Everything the listeners, RSVP tracking and interactions need
+const BOT_SCOPES = [
+  'channels:history',
+  'channels:read',
+  'chat:write',
+  'commands',
+  // Private channels and group DMs the bot is invited to (ingested only when monitored)
+  'groups:history',
+  'groups:read',
+  'mpim:history',
+  'mpim:read',
+  'reactions:read',
+  'users:read',
+];
+
+interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  stateSecret: string;
+  redirectUri?: string;
+}
+
+function getOAuthConfig(env: NodeJS.ProcessEnv = process.env): OAuthConfig | null {
+  const { SLACK_CLIENT_ID, SLACK_CLIENT_SECRET, API_TOKEN_SECRET, SLACK_REDIRECT_URI } = env;
+  if (!SLACK_CLIENT_ID || !SLACK_CLIENT_SECRET || !API_TOKEN_SECRET) return null;
+  return {
+    clientId: SLACK_CLIENT_ID,
+    clientSecret: SLACK_CLIENT_SECRET,
+    stateSecret: API_TOKEN_SECRET,
+    redirectUri: SLACK_REDIRECT_URI || undefined,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>` +
+    `<body style="font-family: sans-serif; max-width: 40rem; margin: 3rem auto;">` +
+    `<h1>${escapeHtml(title)}</h1>${body}</body></html>`;
+}
+
+export function createOAuthRouter(): Router {
+  const router = Router();
+
+  router.get('/install', (_req: Request, res: Response) => {
+    const config = getOAuthConfig();
+    if (!config) {
+      res.status(501).send(page('Install unavailable', '<p>OAuth is not configured on this server.</p>'));
+      return;
+    }
+
+    const state = signPayload(STATE_PREFIX, { exp: Date.now() + STATE_TTL_MS }, config.stateSecret);
+    const params = new URLSearchParams({
+      client_id: config.clientId,
+      scope: BOT_SCOPES.join(','),
+      state,
+      ...(config.redirectUri ? { redirect_uri: config.redirectUri } : {}),
+    });
+    res.redirect(`https://slack.com/oauth/v2/authorize?${params}`);
+  });
+
+  router.get('/callback', async (req: Request, res: Response) => {
+    const config = getOAuthConfig();
+    if (!config) {
+      res.status(501).send(page('Install unavailable', '<p>OAuth is not configured on this server.</p>'));
+      return;
+    }
+
+    if (req.query.error) {
+      res.status(400).send(page('Install cancelled', `<p>${escapeHtml(String(req.query.error))}</p>`));
+      return;
+    }
+
+    const state = verifyPayload<{ exp: number }>(STATE_PREFIX, String(req.query.state || ''), config.stateSecret);
+    if (!state || state.exp < Date.now()) {
+      res.status(400).send(page('Install failed', '<p>The install link expired. Please start again.</p>'));
+      return;
+    }
+
+    const code = req.query.code;
+    if (typeof code !== 'string' || !code) {
+      res.status(400).send(page('Install failed', '<p>Slack did not return an authorization code.</p>'));
+      return;
+    }
+
+    try {
+      const result = await new WebClient().oauth.v2.access({
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        code,
+        ...(config.redirectUri ? { redirect_uri: config.redirectUri } : {}),
+      });
+
+      const teamId = result.team?.id;
+      if (!teamId || !result.access_token) {
+        throw new Error('Slack response is missing the team or bot token');
+      }
+
+      const apiKey = generateApiKey();
+      saveInstallation({
+        teamId,
+        teamName: result.team?.name || teamId,
+        botToken: result.access_token,
+        botUserId: result.bot_user_id,
+        apiKeyHash: hashApiKey(apiKey),
+        installedAt: new Date().toISOString(),
+      });
+      console.log(`[OAuth] Installed in workspace ${result.team?.name} (${teamId})`);
+
+      res.send(
+        page(
+          'Universify is installed',
+          `<p>Universify was added to <strong>${escapeHtml(result.team?.name || teamId)}</strong>.</p>` +
+          `<p>API key for this workspace (shown only once — paste it into the Universify app's Slack settings):</p>` +
+          `<pre style="background:#f3f4f6;padding:1rem;word-break:break-all;">${escapeHtml(apiKey)}</pre>`
+        )
+      );
+    } catch (error: any) {
+      console.error('[OAuth] Install failed:', error.message);
+      res.status(500).send(page('Install failed', `<p>${escapeHtml(error.message || 'Unknown error')}</p>`));
+    }
+  });
+
+  return router;
+}
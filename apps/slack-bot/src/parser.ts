@@ -5,51 +5,31 @@
  * Uses regex patterns to extract date/time, location, and other fields.
  */
 
-// Mirror the Event type from apps/client/types/event.ts
-// We duplicate it here so the backend has no dependency on the Expo client package.
-export type EventCategory =
-  | 'Career'
-  | 'Food'
-  | 'Fun'
-  | 'Afternoon'
-  | 'Events'
-  | 'Academic'
-  | 'Networking'
-  | 'Social'
-  | 'Sports'
-  | 'Arts'
-  | 'Tech'
-  | 'Wellness';
-
-export interface UniversifyEvent {
-  id: string;
-  title: string;
-  description: string;
-  startTime: string;   // ISO 8601
-  endTime: string;     // ISO 8601
-  location: string;
-  categories: EventCategory[];
-  organizer: {
-    id: string;
-    name: string;
-    type: 'club' | 'individual';
-  };
-  color: string;
-  rsvpEnabled: boolean;
-  rsvpCounts: { going: number; maybe: number; notGoing: number };
-  attendees: Array<{ userId: string; status: string; timestamp: string }>;
-  attendeeVisibility: 'public' | 'private';
-  isClubEvent: boolean;
-  isSocialEvent: boolean;
-  capacity?: number;
-  tags: string[];
-  createdAt: string;
-  updatedAt: string;
-  imageUrl?: string;
-}
+import { ChannelVisibility, Event, EventCategory } from '@universify/shared';
+import { classifyMessage } from './classifier';
+import { SlackAttachment, SlackBlock, SlackFile, extractMessageContent } from './blocks';
+import { isReactionRsvpEnabled } from './rsvp';
+import {
+  TIMEZONE_ABBREVIATIONS,
+  getWallClock,
+  zonedTimeToInstant,
+  formatInTimeZone,
+  resolveTimeZone,
+} from './timezone';
+
+/**
+ * An event as the bot stores and serves it: the shared Universify event
+ * model, which is also the REST API's wire format.
+ */
+export type UniversifyEvent = Event;
 
 // Slack purple color for imported events
-const SLACK_EVENT_COLOR = '#611f69';
+export const SLACK_EVENT_COLOR = '#611f69';
+
+// Classifier thresholds: below SKIP the message is not an event at all;
+// between SKIP and REVIEW it becomes an event flagged for review.
+export const DEFAULT_SKIP_BELOW = 0.2;
+export const DEFAULT_REVIEW_BELOW = 0.5;
 
 // ─── Date / Time extraction helpers ────────────────────────────────────
 
@@ -57,95 +37,312 @@ const MONTH_NAMES: Record<string, number> = {
   january: 0, february: 1, march: 2, april: 3, may: 4, june: 5,
   july: 6, august: 7, september: 8, october: 9, november: 10, december: 11,
   jan: 0, feb: 1, mar: 2, apr: 3, jun: 5,
-  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+  jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11,
 };
 
+// A clock time with am/pm or minutes, optionally preceded by a range start ("3-5pm")
+const EXPLICIT_TIME =
+  /\b(?:\d{1,2}(?::\d{2})?\s*(?:am|pm)?\s*(?:-|–|to)\s*)?(?:\d{1,2}(?::\d{2})?\s*(?:am|pm)\b|\d{1,2}:\d{2}\b)/i;
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  sun: 0, mon: 1, tue: 2, tues: 2, wed: 3, thu: 4, thur: 4, thurs: 4, fri: 5, sat: 6,
+};
+
+const MONTH_PATTERN =
+  'january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates without a year that would fall this far before the message are
+// assumed to mean next year (a December post about "Jan 10").
+const PAST_DATE_GRACE_DAYS = 60;
+
+export interface DateRange {
+  start: Date;
+  end: Date | null;  // last day of a multi-day event ("Nov 8–9"), else null
+  matched: string;   // the text that was recognised as the date
+}
+
+/**
+ * Convert a Slack message ts ("1701234567.123456") to the Date it was posted.
+ */
+export function slackTsToDate(ts: string | undefined): Date {
+  const seconds = parseFloat(ts || '');
+  return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : new Date();
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+// The date helpers above use Date objects as plain calendar dates (their local
+// y/m/d fields). These two convert between those and real instants in a zone.
+
+function toCalendarDate(instant: Date, timeZone: string): Date {
+  const wall = getWallClock(instant, timeZone);
+  return new Date(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+function atTimeInZone(calendarDate: Date, hour: number, minute: number, timeZone: string): Date {
+  return zonedTimeToInstant(
+    {
+      year: calendarDate.getFullYear(),
+      month: calendarDate.getMonth(),
+      day: calendarDate.getDate(),
+      hour,
+      minute,
+      second: 0,
+    },
+    timeZone
+  );
+}
+
+function isValidDay(month: number, day: number): boolean {
+  return month >= 0 && month <= 11 && day >= 1 && day <= 31;
+}
+
+/**
+ * Build a date for a month/day with no year, choosing the year that puts it
+ * closest after the anchor.
+ */
+function resolveYearless(month: number, day: number, anchor: Date): Date {
+  const candidate = new Date(anchor.getFullYear(), month, day);
+  if (candidate.getTime() < startOfDay(anchor).getTime() - PAST_DATE_GRACE_DAYS * DAY_MS) {
+    return new Date(anchor.getFullYear() + 1, month, day);
+  }
+  return candidate;
+}
+
 /**
- * Try to extract a date from the text.
+ * Resolve a weekday name relative to the anchor.
+ *   - "Friday" / "this Friday": the next Friday on or after the anchor day
+ *   - "next Friday": the Friday of the following week
+ */
+function resolveWeekday(weekday: number, modifier: string | undefined, anchor: Date): Date {
+  const today = startOfDay(anchor);
+  const daysAhead = (weekday - today.getDay() + 7) % 7;
+  const upcoming = addDays(today, daysAhead);
+
+  if (modifier && modifier.toLowerCase() === 'next') {
+    // Still in the anchor's Sunday–Saturday week → jump to the week after
+    const sameWeek = today.getDay() + daysAhead <= 6;
+    return sameWeek ? addDays(upcoming, 7) : upcoming;
+  }
+  return upcoming;
+}
+
+/**
+ * Try to extract a date (or multi-day range) from the text.
+ * Relative expressions are resolved against `anchor`, which should be the time
+ * the Slack message was posted rather than the server's clock.
  * Supports:
- *   - MM/DD/YYYY, MM/DD/YY, MM-DD-YYYY
- *   - "December 5, 2025", "Dec 5 2025", "December 5th"
+ *   - ISO dates: 2025-12-05
+ *   - MM/DD/YYYY, MM/DD/YY, MM-DD-YYYY, and MM/DD without a year ("Sat 11/8")
+ *   - "December 5, 2025", "Dec 5 2025", "December 5th", "Nov 8–9", "Nov 30 - Dec 2"
+ *   - "today", "tonight", "tomorrow"
+ *   - weekday names: "Friday", "this Friday", "next Tuesday", "Sat"
  */
-function extractDate(text: string): Date | null {
-  // Pattern 1: MM/DD/YYYY or MM-DD-YYYY
-  const slashDate = text.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/);
+export function extractDateRange(text: string, anchor: Date = new Date()): DateRange | null {
+  // Pattern 1: ISO YYYY-MM-DD
+  const isoDate = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (isoDate) {
+    const month = parseInt(isoDate[2], 10) - 1;
+    const day = parseInt(isoDate[3], 10);
+    if (isValidDay(month, day)) {
+      return { start: new Date(parseInt(isoDate[1], 10), month, day), end: null, matched: isoDate[0] };
+    }
+  }
+
+  // Pattern 2: MM/DD/YYYY or MM-DD-YYYY
+  const slashDate = text.match(/\b(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4}|\d{2})\b/);
   if (slashDate) {
     const month = parseInt(slashDate[1], 10) - 1;
     const day = parseInt(slashDate[2], 10);
     let year = parseInt(slashDate[3], 10);
     if (year < 100) year += 2000;
-    return new Date(year, month, day);
+    if (isValidDay(month, day)) {
+      return { start: new Date(year, month, day), end: null, matched: slashDate[0] };
+    }
   }
 
-  // Pattern 2: "Month Day, Year" or "Month Day Year" or "Month Day" (assumes current year)
+  // Pattern 3: MM/DD with no year, optionally a range "11/8-11/9" or "11/8-9"
+  const shortSlash = text.match(
+    /\b(\d{1,2})\/(\d{1,2})(?![\/\d])(?:\s*[-–]\s*(?:(\d{1,2})\/)?(\d{1,2})(?![\/\d]))?/
+  );
+  if (shortSlash) {
+    const month = parseInt(shortSlash[1], 10) - 1;
+    const day = parseInt(shortSlash[2], 10);
+    if (isValidDay(month, day)) {
+      const start = resolveYearless(month, day, anchor);
+      let end: Date | null = null;
+      if (shortSlash[4]) {
+        const endMonth = shortSlash[3] ? parseInt(shortSlash[3], 10) - 1 : month;
+        const endDay = parseInt(shortSlash[4], 10);
+        if (isValidDay(endMonth, endDay)) {
+          end = new Date(start.getFullYear(), endMonth, endDay);
+          if (end < start) end.setFullYear(end.getFullYear() + 1);
+        }
+      }
+      return { start, end, matched: shortSlash[0] };
+    }
+  }
+
+  // Pattern 4: "Month Day[, Year]" with an optional range "–9" or "- Dec 2"
   const namedDate = text.match(
-    /\b(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sep|oct|nov|dec)\s+(\d{1,2})(?:st|nd|rd|th)?(?:[,\s]+(\d{4}))?\b/i
+    new RegExp(
+      `\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?` +
+      `(?:\\s*[-–]\\s*(?:(${MONTH_PATTERN})\\.?\\s+)?(\\d{1,2})(?:st|nd|rd|th)?)?` +
+      `(?:[,\\s]+(\\d{4}))?\\b`,
+      'i'
+    )
   );
   if (namedDate) {
     const month = MONTH_NAMES[namedDate[1].toLowerCase()];
     const day = parseInt(namedDate[2], 10);
-    const year = namedDate[3] ? parseInt(namedDate[3], 10) : new Date().getFullYear();
-    if (month !== undefined) {
-      return new Date(year, month, day);
+    if (month !== undefined && isValidDay(month, day)) {
+      const start = namedDate[5]
+        ? new Date(parseInt(namedDate[5], 10), month, day)
+        : resolveYearless(month, day, anchor);
+      let end: Date | null = null;
+      if (namedDate[4]) {
+        const endMonth = namedDate[3] ? MONTH_NAMES[namedDate[3].toLowerCase()] : month;
+        const endDay = parseInt(namedDate[4], 10);
+        if (endMonth !== undefined && isValidDay(endMonth, endDay)) {
+          end = new Date(start.getFullYear(), endMonth, endDay);
+          if (end < start) end.setFullYear(end.getFullYear() + 1);
+        }
+      }
+      return { start, end, matched: namedDate[0] };
+    }
+  }
+
+  // Pattern 5: today / tonight / tomorrow
+  const relativeDay = text.match(/\b(today|tonight|tomorrow|tmrw|tmr)\b/i);
+  if (relativeDay) {
+    const word = relativeDay[1].toLowerCase();
+    const offset = word === 'today' || word === 'tonight' ? 0 : 1;
+    return { start: addDays(startOfDay(anchor), offset), end: null, matched: relativeDay[0] };
+  }
+
+  // Pattern 6: weekday names. Full names in any case; abbreviations only when
+  // capitalised, so "I sat down" or "the sun" don't count.
+  const fullWeekday = text.match(
+    /\b(?:(this|next|on)\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?\b/i
+  );
+  const shortWeekday = text.match(
+    /\b(?:(this|next|on)\s+)?(Sun|Mon|Tues?|Wed|Thu(?:rs?)?|Fri|Sat)\b\.?/
+  );
+  const weekday = fullWeekday || shortWeekday;
+  if (weekday) {
+    const day = WEEKDAYS[weekday[2].toLowerCase()];
+    if (day !== undefined) {
+      return { start: resolveWeekday(day, weekday[1], anchor), end: null, matched: weekday[0] };
     }
   }
 
   return null;
 }
 
+/**
+ * Try to extract the (start) date from the text. See extractDateRange.
+ */
+export function extractDate(text: string, anchor: Date = new Date()): Date | null {
+  return extractDateRange(text, anchor)?.start ?? null;
+}
+
+/**
+ * Find a timezone abbreviation written right after a time ("3pm ET", "15:00 (PST)").
+ * Abbreviations must be upper case so words like "at" or "pt" never match.
+ */
+function extractTimeZone(text: string): string | undefined {
+  const match = text.match(
+    /(?:\d|[AaPp]\.?[Mm]\.?)\s*\(?\s*(ET|EST|EDT|CT|CST|CDT|MT|MST|MDT|PT|PST|PDT|UTC|GMT)\b/
+  );
+  return match ? TIMEZONE_ABBREVIATIONS[match[1]] : undefined;
+}
+
 /**
  * Try to extract a time (or time range) from the text.
  * Supports:
- *   - "3:00 PM", "3pm", "15:00"
- *   - "3-5pm", "3:00 PM - 5:00 PM"
- * Returns { startHour, startMinute, endHour, endMinute } in 24-hour format.
+ *   - "3:00 PM", "3pm", "15:00", "noon"
+ *   - "3-5pm", "3:00 PM - 5:00 PM", "10am to 12pm"
+ *   - bare hours only after "at"/"from" ("at 7", "from 6-8"), read as evening
+ *   - an explicit zone after the time: "3pm ET", "15:00 PST"
+ * Numbers that are part of longer digit runs or course codes ("CS 15-213",
+ * "412-268-3000", "Gates 4401") are not times.
+ * Returns { startHour, startMinute, endHour, endMinute } in 24-hour format,
+ * plus the IANA timeZone when the text names one.
  */
 function extractTime(text: string): {
   startHour: number;
   startMinute: number;
   endHour: number;
   endMinute: number;
+  timeZone?: string;
 } | null {
-  // Pattern: time range  "3:00 PM - 5:00 PM" or "3-5pm" or "3pm-5pm"
+  const timeZone = extractTimeZone(text);
+
+  // Pattern: time range  "3:00 PM - 5:00 PM" or "3-5pm" or "3pm to 5pm" or "from 6-8"
   const rangePattern =
-    /(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*[-–to]+\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i;
-  const rangeMatch = text.match(rangePattern);
-  if (rangeMatch) {
-    let startH = parseInt(rangeMatch[1], 10);
-    const startM = rangeMatch[2] ? parseInt(rangeMatch[2], 10) : 0;
-    const startMeridian = (rangeMatch[3] || rangeMatch[6] || '').toLowerCase(); // inherit end meridian
-    let endH = parseInt(rangeMatch[4], 10);
-    const endM = rangeMatch[5] ? parseInt(rangeMatch[5], 10) : 0;
-    const endMeridian = (rangeMatch[6] || '').toLowerCase();
+    /(\bfrom\s+)?(?<![\d:\/.-])(\d{1,2})(?::(\d{2}))?\s*([ap]\.?m\.?)?\s*(?:-|–|—|\bto\b|\buntil\b|\btill\b)\s*(\d{1,2})(?::(\d{2}))?(?![\d\/])\s*([ap]\.?m\.?)?/gi;
+  for (const rangeMatch of text.matchAll(rangePattern)) {
+    const hasFrom = !!rangeMatch[1];
+    const hasMinutes = !!(rangeMatch[3] || rangeMatch[6]);
+    const hasMeridian = !!(rangeMatch[4] || rangeMatch[7]);
+    // "15-213" or "3-5 people" are not times: need a meridian, minutes, or "from"
+    if (!hasMeridian && !hasMinutes && !hasFrom) continue;
+
+    let startH = parseInt(rangeMatch[2], 10);
+    const startM = rangeMatch[3] ? parseInt(rangeMatch[3], 10) : 0;
+    let endH = parseInt(rangeMatch[5], 10);
+    const endM = rangeMatch[6] ? parseInt(rangeMatch[6], 10) : 0;
+    if (startH > 23 || endH > 23 || startM > 59 || endM > 59) continue;
+
+    const startMeridian = normalizeMeridian(rangeMatch[4]);
+    const endMeridian = normalizeMeridian(rangeMatch[7]) || (hasMeridian ? '' : inferMeridian(endH));
 
     // Convert to 24h
-    if (endMeridian === 'pm' && endH < 12) endH += 12;
-    if (endMeridian === 'am' && endH === 12) endH = 0;
+    endH = to24Hour(endH, endMeridian);
 
     // If start meridian not given, infer from end
-    const effectiveStartMeridian = startMeridian || endMeridian;
-    if (effectiveStartMeridian === 'pm' && startH < 12) startH += 12;
-    if (effectiveStartMeridian === 'am' && startH === 12) startH = 0;
-
-    // Edge case: "9-11am" → if start > end after conversion, start was actually AM
-    if (startH > endH) {
-      // Recalculate without PM bump
-      startH = parseInt(rangeMatch[1], 10);
+    if (startMeridian) {
+      startH = to24Hour(startH, startMeridian);
+    } else {
+      const inherited = to24Hour(startH, endMeridian);
+      // Edge case: "11-1pm" → start is 11am, not 11pm
+      startH = inherited > endH ? startH : inherited;
     }
 
-    return { startHour: startH, startMinute: startM, endHour: endH, endMinute: endM };
+    return { startHour: startH, startMinute: startM, endHour: endH, endMinute: endM, timeZone };
   }
 
-  // Pattern: single time "3:00 PM" or "3pm" or "15:00"
-  const singlePattern = /(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i;
-  const singleMatch = text.match(singlePattern);
-  if (singleMatch) {
+  // Pattern: "noon" / "midnight"
+  const namedTime = text.match(/\b(noon|midday|midnight)\b/i);
+
+  // Pattern: single time "3:00 PM" or "3pm" or "15:00" or "at 7"
+  const singlePattern =
+    /(?<![\d:\/.-])(\d{1,2})(?::(\d{2}))?(?![\d\/])\s*([ap]\.?m\.?)?(?![a-z])/gi;
+  for (const singleMatch of text.matchAll(singlePattern)) {
+    const minutes = singleMatch[2];
+    const meridian = normalizeMeridian(singleMatch[3]);
+    const before = text.slice(0, singleMatch.index).toLowerCase();
+    const afterAt = /(?:\bat|@|\bfrom)\s*$/.test(before);
+
+    // A bare number is only a time right after "at"/"from" ("at 7")
+    if (!meridian && !minutes && !afterAt) continue;
+
     let hour = parseInt(singleMatch[1], 10);
-    const minute = singleMatch[2] ? parseInt(singleMatch[2], 10) : 0;
-    const meridian = (singleMatch[3] || '').toLowerCase();
+    const minute = minutes ? parseInt(minutes, 10) : 0;
+    if (hour > 23 || minute > 59 || (meridian && hour > 12)) continue;
 
-    if (meridian === 'pm' && hour < 12) hour += 12;
-    if (meridian === 'am' && hour === 12) hour = 0;
+    hour = to24Hour(hour, meridian || (minutes ? '' : inferMeridian(hour)));
 
     // Default to 1 hour duration
     return {
@@ -153,27 +350,78 @@ function extractTime(text: string): {
       startMinute: minute,
       endHour: hour + 1,
       endMinute: minute,
+      timeZone,
     };
   }
 
+  if (namedTime) {
+    const hour = namedTime[1].toLowerCase() === 'midnight' ? 0 : 12;
+    return { startHour: hour, startMinute: 0, endHour: hour + 1, endMinute: 0, timeZone };
+  }
+
   return null;
 }
 
+function normalizeMeridian(raw: string | undefined): 'am' | 'pm' | '' {
+  if (!raw) return '';
+  return raw.toLowerCase().startsWith('p') ? 'pm' : 'am';
+}
+
+// Club events are rarely at 1–8am: a bare "at 7" means 7pm
+function inferMeridian(hour: number): 'am' | 'pm' | '' {
+  return hour >= 1 && hour <= 8 ? 'pm' : '';
+}
+
+function to24Hour(hour: number, meridian: 'am' | 'pm' | ''): number {
+  if (meridian === 'pm' && hour < 12) return hour + 12;
+  if (meridian === 'am' && hour === 12) return 0;
+  return hour;
+}
+
 // ─── Location extraction ───────────────────────────────────────────────
 
+// Words that follow "in"/"at" but are not places ("in November", "at noon")
+const NOT_A_PLACE =
+  /^(?:january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept?|oct|nov|dec|monday|tuesday|wednesday|thursday|friday|saturday|sunday|today|tonight|tomorrow|noon|midnight|the (?:morning|afternoon|evening)|person|advance)\b/i;
+
+function cleanLocation(raw: string): string {
+  return raw
+    .replace(/<[^|>]+\|([^>]+)>/g, '$1')  // Slack links: <url|label> → label
+    .replace(/[*_~`]/g, '')               // Slack bold/italic/strike/code markers
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.,;!]+$/, '')
+    .trim();
+}
+
 function extractLocation(text: string): string {
   const lines = text.split('\n');
   for (const line of lines) {
     const trimmed = line.trim();
 
-    // "Location: XYZ" or "Where: XYZ"
-    const labelMatch = trimmed.match(/^(?:location|where|place|venue)\s*[:]\s*(.+)/i);
-    if (labelMatch) return labelMatch[1].trim();
+    // "Location: XYZ", "*Where:* XYZ", "Room - XYZ"
+    const labelMatch = trimmed.match(
+      /^[*_]*(?:location|where|place|venue|room)[*_]*\s*[:\-–][*_]*\s*(.+)/i
+    );
+    if (labelMatch) return cleanLocation(labelMatch[1]);
+
+    // "📍 Gates 4401" or ":round_pushpin: Gates 4401"
+    const pinMatch = trimmed.match(/^(?:📍|📌|:round_pushpin:|:pushpin:)\s*(.{3,})/);
+    if (pinMatch) return cleanLocation(pinMatch[1]);
 
     // "at The Cut" or "@ Wiegand"  (must be start of line or after punctuation)
     const atMatch = trimmed.match(/^(?:at|@)\s+(.{3,})/i);
-    if (atMatch) return atMatch[1].trim();
+    if (atMatch && !NOT_A_PLACE.test(atMatch[1]) && !/^\d/.test(atMatch[1])) {
+      return cleanLocation(atMatch[1]);
+    }
+  }
+
+  // Inline "in Gates 4401" / "at the Cohon Center": capitalised words, optional room number
+  const inlinePattern =
+    /(?:\b(?:in|at)|@)\s+((?:the\s+)?[A-Z][\w&'-]*(?:\s+(?:[A-Z][\w&'-]*|of|and|&))*(?:\s+\d{1,5}[A-Z]?)?)/g;
+  for (const inline of text.matchAll(inlinePattern)) {
+    if (!NOT_A_PLACE.test(inline[1])) return cleanLocation(inline[1]);
   }
+
   return '';
 }
 
@@ -183,16 +431,17 @@ function inferCategories(text: string): EventCategory[] {
   const lower = text.toLowerCase();
   const categories: EventCategory[] = [];
 
-  if (/career|job|interview|hiring|recruit/.test(lower)) categories.push('Career');
-  if (/food|lunch|dinner|breakfast|pizza|snack|coffee|tea|boba/.test(lower)) categories.push('Food');
-  if (/fun|party|game night|trivia|karaoke/.test(lower)) categories.push('Fun');
-  if (/academic|class|lecture|study|homework|exam|office hours/.test(lower)) categories.push('Academic');
-  if (/network|meetup|mixer/.test(lower)) categories.push('Networking');
-  if (/social|hangout|meet people|casual/.test(lower)) categories.push('Social');
-  if (/sport|fitness|gym|basketball|soccer|volleyball|yoga|run|pickup/.test(lower)) categories.push('Sports');
-  if (/art|music|theater|theatre|dance|paint|drawing|creative/.test(lower)) categories.push('Arts');
-  if (/tech|code|coding|hackathon|workshop|programming|ai|ml/.test(lower)) categories.push('Tech');
-  if (/wellness|health|meditation|mindful|self[- ]care/.test(lower)) categories.push('Wellness');
+  // Leading \b so "email" isn't AI and "TartanHacks" isn't Arts; plurals still match
+  if (/\b(?:career|job|interview|hiring|recruit)/.test(lower)) categories.push('Career');
+  if (/\b(?:food|lunch|dinner|breakfast|pizza|snack|coffee|tea\b|boba)/.test(lower)) categories.push('Food');
+  if (/\b(?:fun\b|party|game night|trivia|karaoke)/.test(lower)) categories.push('Fun');
+  if (/\b(?:academic|class|lecture|study|homework|exam|office hours)/.test(lower)) categories.push('Academic');
+  if (/\b(?:network|meetup|mixer)/.test(lower)) categories.push('Networking');
+  if (/\b(?:social|hangout|meet people|casual)/.test(lower)) categories.push('Social');
+  if (/\b(?:sport|fitness|gym|basketball|soccer|volleyball|yoga|run|pickup)/.test(lower)) categories.push('Sports');
+  if (/\b(?:art|music|theater|theatre|dance|paint|drawing|creative)/.test(lower)) categories.push('Arts');
+  if (/\b(?:tech|code|coding|hackathon|workshop|programming|ai\b|ml\b)/.test(lower)) categories.push('Tech');
+  if (/\b(?:wellness|health|meditation|mindful|self[- ]care)/.test(lower)) categories.push('Wellness');
 
   return categories.length > 0 ? categories : ['Events'];
 }
@@ -202,24 +451,41 @@ function inferCategories(text: string): EventCategory[] {
 export interface SlackMessage {
   text: string;
   ts: string;          // Slack message timestamp (e.g. "1701234567.123456")
+  threadTs?: string;   // Parent message ts when this is a thread reply
   user?: string;        // Slack user ID who posted
   channel?: string;     // Channel ID
   username?: string;    // Display name if available
+  blocks?: SlackBlock[];            // Block Kit content (workflow / bot posts)
+  attachments?: SlackAttachment[];  // Legacy attachments
+  files?: SlackFile[];              // Uploaded files (flyers)
+}
+
+export interface ParseOptions {
+  skipBelow?: number;    // confidence under which the message is dropped
+  reviewBelow?: number;  // confidence under which the event is flagged needsReview
+  timeZone?: string;     // IANA zone the message is written in (defaults to the channel/workspace zone)
+  now?: Date;            // clock for createdAt/updatedAt (fixed in tests)
+  channelVisibility?: ChannelVisibility;  // of the source channel (defaults to public)
 }
 
 /**
  * Parse a Slack message into a Universify Event.
+ * Returns null for messages the classifier decides are chatter.
  *
  * @param message  - The raw Slack message object
  * @param channelName - Human-readable channel name (e.g. "announcements")
  * @param channelId   - Slack channel ID
+ * @param options     - Classifier thresholds, timezone override and clock
  */
 export function parseSlackMessage(
   message: SlackMessage,
   channelName: string,
-  channelId: string
+  channelId: string,
+  options: ParseOptions = {}
 ): UniversifyEvent | null {
-  const text = (message.text || '').trim();
+  // Bot and workflow posts carry the real content in blocks/attachments
+  const content = extractMessageContent(message);
+  const text = content.text;
   if (!text) return null;
 
   // Skip system / join / leave messages
@@ -227,52 +493,65 @@ export function parseSlackMessage(
     return null;
   }
 
-  // ── Title: first non-empty line, truncated ──
+  // ── Title: header block / attachment title, else first non-empty line, truncated ──
   const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
-  const title = (lines[0] || 'Untitled Slack Event').substring(0, 100);
+  const title = (content.title || lines[0] || 'Untitled Slack Event').substring(0, 100);
+
+  // ── Date / Time (relative dates are anchored to when the message was posted,
+  //    as seen on the workspace's clocks — not the server's) ──
+  const zone = options.timeZone ?? resolveTimeZone(channelId);
+  const postedAt = toCalendarDate(slackTsToDate(message.ts), zone);
+  const extractedRange = extractDateRange(text, postedAt);
+  const extractedDate = extractedRange?.start ?? null;
+  // Blank out the date first so "Nov 8–9" isn't read as a time range
+  const extractedTime = extractTime(
+    extractedRange ? text.replace(extractedRange.matched, ' ') : text
+  );
 
-  // ── Date / Time ──
-  const extractedDate = extractDate(text);
-  const extractedTime = extractTime(text);
+  // ── Location ──
+  const location = extractLocation(text);
 
-  // Default: tomorrow at noon if nothing found
-  const baseDate = extractedDate || (() => {
-    const d = new Date();
-    d.setDate(d.getDate() + 1);
-    return d;
-  })();
+  // ── Is this an event at all? ──
+  const { confidence } = classifyMessage(text, {
+    hasDate: extractedDate !== null,
+    hasTime: extractedTime !== null,
+    hasLocation: location !== '',
+  });
+  if (confidence < (options.skipBelow ?? DEFAULT_SKIP_BELOW)) return null;
+  const needsReview = confidence < (options.reviewBelow ?? DEFAULT_REVIEW_BELOW);
+
+  // Default: the day after the message was posted, at noon, if nothing found
+  const baseDate = extractedDate || addDays(startOfDay(postedAt), 1);
 
   const startHour = extractedTime?.startHour ?? 12;
   const startMinute = extractedTime?.startMinute ?? 0;
   const endHour = extractedTime?.endHour ?? startHour + 1;
   const endMinute = extractedTime?.endMinute ?? 0;
 
-  const startTime = new Date(baseDate);
-  startTime.setHours(startHour, startMinute, 0, 0);
+  // An explicit zone in the text ("3pm PT") wins over the channel's zone
+  const timeZone = extractedTime?.timeZone ?? zone;
+  const startTime = atTimeInZone(baseDate, startHour, startMinute, timeZone);
 
-  const endTime = new Date(baseDate);
-  endTime.setHours(endHour, endMinute, 0, 0);
+  // Multi-day events ("Nov 8–9") end on the last day
+  const endTime = atTimeInZone(extractedRange?.end || baseDate, endHour, endMinute, timeZone);
 
   // If end is before start (e.g. parsing error), add 1 hour
   if (endTime <= startTime) {
     endTime.setTime(startTime.getTime() + 60 * 60 * 1000);
   }
 
-  // ── Location ──
-  const location = extractLocation(text);
-
   // ── Categories ──
   const categories = inferCategories(text);
 
   // ── Build event ──
-  const now = new Date().toISOString();
+  const now = (options.now ?? new Date()).toISOString();
 
   const event: UniversifyEvent = {
     id: `slack-${channelId}-${message.ts}`,
     title,
     description: text,
-    startTime: startTime.toISOString(),
-    endTime: endTime.toISOString(),
+    startTime: formatInTimeZone(startTime, zone),
+    endTime: formatInTimeZone(endTime, zone),
     location,
     categories,
     organizer: {
@@ -281,16 +560,117 @@ export function parseSlackMessage(
       type: 'club',
     },
     color: SLACK_EVENT_COLOR,
-    rsvpEnabled: false,
+    rsvpEnabled: isReactionRsvpEnabled(), // members RSVP by reacting to the message
     rsvpCounts: { going: 0, maybe: 0, notGoing: 0 },
     attendees: [],
     attendeeVisibility: 'public',
     isClubEvent: true,
     isSocialEvent: false,
-    tags: ['Slack', channelName],
+    tags: needsReview ? ['Slack', channelName, 'Needs Review'] : ['Slack', channelName],
     createdAt: now,
     updatedAt: now,
+    ...(content.imageUrl ? { imageUrl: content.imageUrl } : {}),
+    confidence,
+    needsReview,
+    channelVisibility: options.channelVisibility ?? 'public',
   };
 
   return event;
 }
+
+// ─── Thread reply amendments ───────────────────────────────────────────
+
+// Words organizers use when a reply changes the announced details
+const UPDATE_SIGNAL =
+  /\b(update[sd]?|moved|moving|changed?|reschedul\w*|postponed|correction|now (?:at|in|on)|new (?:time|date|location|room|place|venue))\b|^(?:location|where|place|venue|time|when)\s*:/im;
+
+
+/**
+ * Pull a location out of update phrasing like "moved to Gates 4401" or
+ * "now in the Cohon Center", falling back to the regular location rules.
+ */
+function extractAmendedLocation(text: string): string {
+  const moved = text.match(
+    /\b(?:moved|moving|changed|relocated)\s+(?:to|into)\s+([^.,!\n]{3,}?)(?:\s+(?:at|on|from)\s+\d|[.,!\n]|$)/i
+  );
+  if (
+    moved &&
+    !extractDate(moved[1]) &&
+    !EXPLICIT_TIME.test(moved[1]) &&
+    !/^(?:the\s+)?(?:next|this)\b/i.test(moved[1])
+  ) {
+    return moved[1].trim();
+  }
+
+  const nowIn = text.match(/\bnow\s+(?:in|at)\s+([^.,!\n]{3,}?)(?:[.,!\n]|$)/i);
+  if (nowIn && !/^\d/.test(nowIn[1])) return nowIn[1].trim();
+
+  const newLocation = text.match(/\bnew\s+(?:location|room|place|venue)\s*(?::|is)?\s*([^.!\n]{3,})/i);
+  if (newLocation) return newLocation[1].trim();
+
+  return extractLocation(text);
+}
+
+/**
+ * Apply a thread reply to its parent event.
+ *
+ * Replies are amendments, not new events: when the announcement's poster
+ * replies with update phrasing ("moved to 7pm"), any date, time or location
+ * the reply mentions replaces the parent's, and the reply text is appended to
+ * the description. Returns null for anything else — other members' questions
+ * ("can I come late? I have class until 7pm") and chatter ("see you
+ * tomorrow!") — in which case the parent should be left alone.
+ */
+export function applyThreadReply(
+  parent: UniversifyEvent,
+  reply: SlackMessage,
+  options: Pick<ParseOptions, 'timeZone' | 'now'> = {}
+): UniversifyEvent | null {
+  const text = extractMessageContent(reply).text;
+  if (!text) return null;
+
+  const fromPoster = parent.organizer.id === `slack-user-${reply.user || 'unknown'}`;
+  if (!fromPoster || !UPDATE_SIGNAL.test(text)) return null;
+
+  const zone = options.timeZone ?? resolveTimeZone(reply.channel);
+  const replyDate = extractDate(text, toCalendarDate(slackTsToDate(reply.ts), zone));
+  // Only trust explicit clock times here — room numbers like "4401" are common in updates
+  const timeMatch = text.match(EXPLICIT_TIME);
+  const replyTime = timeMatch ? extractTime(timeMatch[0]) : null;
+
+  const replyLocation = extractAmendedLocation(text);
+
+  const start = new Date(parent.startTime);
+  const end = new Date(parent.endTime);
+  const durationMs = Math.max(end.getTime() - start.getTime(), 60 * 60 * 1000);
+
+  // Work in wall-clock terms so "moved to 7pm" means 7pm in the channel's zone
+  const day = replyDate ?? toCalendarDate(start, zone);
+  const timeZone = (replyTime && extractTimeZone(text)) || zone;
+  const startWall = getWallClock(start, timeZone);
+  const newStart = replyTime
+    ? atTimeInZone(day, replyTime.startHour, replyTime.startMinute, timeZone)
+    : atTimeInZone(day, startWall.hour, startWall.minute, timeZone);
+
+  // A single new time keeps the original duration; a new range replaces it
+  let newEnd = new Date(newStart.getTime() + durationMs);
+  if (replyTime && timeMatch && /-|–|\bto\b/i.test(timeMatch[0])) {
+    newEnd = atTimeInZone(day, replyTime.endHour, replyTime.endMinute, timeZone);
+    if (newEnd <= newStart) newEnd = new Date(newStart.getTime() + durationMs);
+  }
+
+  // Don't append the same update twice if a reply is re-processed
+  const updateLine = `Update: ${text}`;
+  const description = parent.description.includes(updateLine)
+    ? parent.description
+    : `${parent.description}\n\n${updateLine}`;
+
+  return {
+    ...parent,
+    startTime: formatInTimeZone(newStart, zone),
+    endTime: formatInTimeZone(newEnd, zone),
+    location: replyLocation || parent.location,
+    description,
+    updatedAt: (options.now ?? new Date()).toISOString(),
+  };
+}
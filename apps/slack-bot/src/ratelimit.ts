@@ -0,0 +1,144 @@
+/**
+ * Rate-limit aware access to the Slack Web API.
+ *
+ * Slack limits every Web API method per workspace (e.g. `conversations.history`
+ * is Tier 3, roughly 50 calls a minute) and answers with HTTP 429 and a
+ * `Retry-After` header when a limit is hit. Our WebClients are created with
+ * SLACK_CLIENT_OPTIONS so a 429 surfaces as a rate-limited error instead of
+ * being retried inside the client, and `slackCall` handles it:
+ *
+ *   - at most MAX_CONCURRENT Slack requests run at once; the rest wait in
+ *     a FIFO queue
+ *   - a rate-limited method is paused for its workspace until `Retry-After`
+ *     has passed, then the call is retried (up to MAX_RETRIES times)
+ *   - later calls to a paused method wait out the pause before they start
+ *
+ * `getRateLimitStatus()` reports the queue and active backoffs for /health.
+ */
+
+import { ErrorCode, WebAPIRateLimitedError, WebClientOptions } from '@slack/web-api';
+import { currentTeam } from './tenants';
+
+const MAX_CONCURRENT = 4;
+const MAX_RETRIES = 3;
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+export const SLACK_CLIENT_OPTIONS: WebClientOptions = { rejectRateLimitedCalls: true };
+
+interface Backoff {
+  teamId: string;
+  method: string;
+  until: number; // ms since epoch
+  retryAfterSeconds: number;
+  hits: number; // consecutive rate-limited responses
+}
+
+export interface RateLimitStatus {
+  active: number;
+  queued: number;
+  backoffs: { method: string; retryAt: string; retryAfterSeconds: number; hits: number }[];
+}
+
+// Map<`${teamId}:${method}`, backoff>
+const backoffs = new Map<string, Backoff>();
+
+const waiting: (() => void)[] = [];
+let active = 0;
+
+// ─── Queue ─────────────────────────────────────────────────────────────
+
+function acquireSlot(): Promise<void> {
+  if (active < MAX_CONCURRENT) {
+    active++;
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  // Hand the slot straight to the next caller, or free it
+  if (next) next();
+  else active--;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRateLimited(error: unknown): error is WebAPIRateLimitedError {
+  return (error as WebAPIRateLimitedError | undefined)?.code === ErrorCode.RateLimitedError;
+}
+
+// ─── Calls ─────────────────────────────────────────────────────────────
+
+/**
+ * Whether `method` is currently paused for the current workspace.
+ * Lets callers with a cheap fallback skip the call instead of waiting.
+ */
+export function isBackedOff(method: string): boolean {
+  const backoff = backoffs.get(`${currentTeam()}:${method}`);
+  return !!backoff && backoff.until > Date.now();
+}
+
+/**
+ * Run a Slack Web API call through the queue, e.g.
+ * `slackCall('conversations.info', () => client.conversations.info({ channel }))`.
+ * Rate-limited calls are retried after `Retry-After`; other errors are thrown.
+ */
+export async function slackCall<T>(method: string, call: () => Promise<T>): Promise<T> {
+  const teamId = currentTeam();
+  const key = `${teamId}:${method}`;
+
+  for (let attempt = 0; ; attempt++) {
+    // Wait out a pause before taking a slot, so it doesn't hold up other methods
+    let backoff = backoffs.get(key);
+    while (backoff && backoff.until > Date.now()) {
+      await sleep(backoff.until - Date.now());
+      backoff = backoffs.get(key);
+    }
+
+    await acquireSlot();
+    try {
+      const result = await call();
+      const current = backoffs.get(key);
+      if (current && current.until <= Date.now()) backoffs.delete(key);
+      return result;
+    } catch (error) {
+      if (!isRateLimited(error) || attempt >= MAX_RETRIES) throw error;
+
+      const retryAfterSeconds = error.retryAfter > 0 ? error.retryAfter : DEFAULT_RETRY_AFTER_SECONDS;
+      backoffs.set(key, {
+        teamId,
+        method,
+        until: Date.now() + retryAfterSeconds * 1000,
+        retryAfterSeconds,
+        hits: (backoffs.get(key)?.hits ?? 0) + 1,
+      });
+      console.warn(`[Slack] ${method} rate limited; retrying in ${retryAfterSeconds}s`);
+    } finally {
+      releaseSlot();
+    }
+  }
+}
+
+/**
+ * Queue depth and the current workspace's active backoffs.
+ */
+export function getRateLimitStatus(): RateLimitStatus {
+  const teamId = currentTeam();
+  const now = Date.now();
+
+  return {
+    active,
+    queued: waiting.length,
+    backoffs: Array.from(backoffs.values())
+      .filter((b) => b.teamId === teamId && b.until > now)
+      .map((b) => ({
+        method: b.method,
+        retryAt: new Date(b.until).toISOString(),
+        retryAfterSeconds: b.retryAfterSeconds,
+        hits: b.hits,
+      })),
+  };
+}
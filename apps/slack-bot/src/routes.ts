@@ -3,45 +3,162 @@
  *
  * These endpoints are consumed by the Universify Expo client
  * to fetch channels and import Slack events.
+ *
+ * Every route runs behind requireAuth (see auth.ts), in the team context of
+ * the caller's credential: the store and Slack client are that workspace's.
+ * Client tokens limited to some channels only see those channels' events,
+ * and private-channel events are only served to tokens minted for them.
+ *
+ * Private channels and group DMs are opt-in: the bot must be invited, and
+ * the channel added to the monitored list with an API key, before its
+ * history is ingested.
  */
 
 import { Router, Request, Response } from 'express';
-import { WebClient } from '@slack/web-api';
-import { parseSlackMessage } from './parser';
-import { addEvent, getEvents, getEventsByChannel, getEventCount } from './store';
+import { parseSlackMessage, UniversifyEvent } from './parser';
+import { SlackAttachment, SlackBlock, SlackFile } from './blocks';
+import { ingestChannelHistory, amendWithThreadReplies } from './sync';
+import { streamHandler } from './stream';
+import { applyReactionRsvps } from './rsvp';
+import { AuthContext, canAccessChannel, canAccessEvent, getAuth, issueClientToken } from './auth';
+import { getSlackClient } from './installations';
+import { currentTeam } from './tenants';
+import { channelVisibilityOf, getChannelInfo, getLookupCacheSizes, rememberChannel } from './lookups';
+import { getRateLimitStatus, slackCall } from './ratelimit';
+import {
+  addEvent,
+  getEvent,
+  getEvents,
+  getEventsByChannel,
+  getEventCount,
+  getBackendName,
+  getTombstones,
+  addMonitoredChannel,
+  removeMonitoredChannel,
+  getMonitoredChannels,
+  isChannelMonitored,
+  getChangesSince,
+  getLastSeq,
+  getResetSeq,
+  getChannelSyncState,
+} from './store';
+
+// Marks sync tokens of pages after the first (see GET /sync)
+const SYNC_PAGE_SUFFIX = ':more';
+
+/**
+ * Read the optional `minConfidence` query param (0–1).
+ * Events below it — likely chatter rather than announcements — are filtered out.
+ */
+function parseMinConfidence(req: Request): number {
+  const value = parseFloat(req.query.minConfidence as string);
+  return Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : 0;
+}
+
+function meetsConfidence(event: UniversifyEvent, minConfidence: number): boolean {
+  // Events created before the classifier existed have no score; keep them
+  return (event.confidence ?? 1) >= minConfidence;
+}
 
-export function createRouter(slackClient: WebClient): Router {
+function rejectChannel(res: Response, channelId: string): void {
+  res.status(403).json({ ok: false, error: `Not authorized for channel ${channelId}` });
+}
+
+function rejectUnmonitoredPrivateChannel(res: Response, channelId: string): void {
+  res.status(403).json({
+    ok: false,
+    error: `Channel ${channelId} is private: add it with POST /api/slack/monitored before importing it`,
+  });
+}
+
+// Monitored channel ids the credential may see; a limited token mustn't learn the others
+function monitoredChannelsFor(auth: AuthContext): string[] {
+  return getMonitoredChannels().filter((c) => canAccessChannel(auth, c));
+}
+
+export function createRouter(): Router {
   const router = Router();
 
   // ─── Health check ─────────────────────────────────────────────────
 
+  // `slackApi` reports queued Slack calls and methods Slack has rate limited;
+  // the bot stays usable meanwhile, so `status` is still "ok"
+
   router.get('/health', (_req: Request, res: Response) => {
     res.json({
       status: 'ok',
       service: 'universify-slack-bot',
       eventsInStore: getEventCount(),
+      storeBackend: getBackendName(),
+      slackApi: { ...getRateLimitStatus(), cachedNames: getLookupCacheSizes() },
       timestamp: new Date().toISOString(),
     });
   });
 
+  // ─── Client tokens ────────────────────────────────────────────────
+  // POST /api/slack/auth/token  { "channels": ["C12345"], "userId": "...", "ttlSeconds": 86400 }
+  // Mint a short-lived token (e.g. for a browser client), acting as `userId`
+  // if given. API keys only.
+
+  router.post('/auth/token', (req: Request, res: Response) => {
+    const auth = getAuth(res);
+    if (auth.kind === 'token') {
+      res.status(403).json({ ok: false, error: 'Client tokens cannot mint tokens' });
+      return;
+    }
+
+    const channels = req.body?.channels;
+    if (channels !== undefined && (!Array.isArray(channels) || channels.some((c) => typeof c !== 'string'))) {
+      res.status(400).json({ ok: false, error: '"channels" must be an array of channel ids' });
+      return;
+    }
+
+    const userId = req.body?.userId;
+    if (userId !== undefined && (typeof userId !== 'string' || !userId)) {
+      res.status(400).json({ ok: false, error: '"userId" must be a user id' });
+      return;
+    }
+
+    try {
+      const issued = issueClientToken(auth.teamId, {
+        channels,
+        userId,
+        ttlSeconds: Number(req.body?.ttlSeconds) || undefined,
+      });
+      res.status(201).json({ ok: true, ...issued });
+    } catch (error: any) {
+      res.status(501).json({ ok: false, error: error.message });
+    }
+  });
+
   // ─── List channels the bot can access ─────────────────────────────
 
   router.get('/channels', async (_req: Request, res: Response) => {
+    const auth = getAuth(res);
     try {
-      const result = await slackClient.conversations.list({
-        types: 'public_channel',
-        exclude_archived: true,
-        limit: 200,
-      });
+      const slackClient = getSlackClient(currentTeam());
+      const result = await slackCall('conversations.list', () =>
+        slackClient.conversations.list({
+          // Private channels and group DMs are only listed once the bot is invited
+          types: 'public_channel,private_channel,mpim',
+          exclude_archived: true,
+          limit: 200,
+        })
+      );
 
-      const channels = (result.channels || []).map((ch: any) => ({
-        id: ch.id,
-        name: ch.name,
-        topic: ch.topic?.value || '',
-        purpose: ch.purpose?.value || '',
-        memberCount: ch.num_members || 0,
-        isPrivate: ch.is_private || false,
-      }));
+      const channels = (result.channels || []).map((ch: any) => {
+        const visibility = channelVisibilityOf(ch);
+        rememberChannel(ch.id, { name: ch.name, visibility });
+        return {
+          id: ch.id,
+          name: ch.name,
+          topic: ch.topic?.value || '',
+          purpose: ch.purpose?.value || '',
+          memberCount: ch.num_members || 0,
+          isPrivate: visibility === 'private',
+          isMpim: ch.is_mpim || false,
+        };
+      }).filter((ch) => canAccessChannel(auth, ch.id, ch.isPrivate ? 'private' : 'public'));
 
       res.json({ ok: true, channels });
     } catch (error: any) {
@@ -54,57 +171,86 @@ export function createRouter(slackClient: WebClient): Router {
   });
 
   // ─── Fetch events from a channel ──────────────────────────────────
-  // GET /api/slack/events?channel=C12345&limit=50
+  // GET /api/slack/events?channel=C12345&limit=50&minConfidence=0.5
 
   router.get('/events', async (req: Request, res: Response) => {
     const channelId = req.query.channel as string | undefined;
     const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+    const minConfidence = parseMinConfidence(req);
+    const auth = getAuth(res);
 
     // If no channel specified, return all cached events
     if (!channelId) {
-      const events = getEvents();
+      const events = getEvents().filter(
+        (e) => meetsConfidence(e, minConfidence) && canAccessEvent(auth, e)
+      );
       res.json({ ok: true, events, count: events.length });
       return;
     }
 
+    if (!canAccessChannel(auth, channelId)) {
+      rejectChannel(res, channelId);
+      return;
+    }
+
+    const slackClient = getSlackClient(currentTeam());
     try {
-      // Look up channel name
-      let channelName = channelId;
-      try {
-        const info = await slackClient.conversations.info({ channel: channelId });
-        channelName = (info.channel as any)?.name || channelId;
-      } catch {
-        // Non-critical — we can fall back to the id
+      const channel = await getChannelInfo(slackClient, channelId);
+      if (channel.guessed) {
+        res.status(503).json({ ok: false, error: `Couldn't look up channel ${channelId}; try again later` });
+        return;
+      }
+      if (!canAccessChannel(auth, channelId, channel.visibility)) {
+        rejectChannel(res, channelId);
+        return;
       }
+      if (channel.visibility === 'private' && !isChannelMonitored(channelId)) {
+        rejectUnmonitoredPrivateChannel(res, channelId);
+        return;
+      }
+      const channelName = channel.name;
 
       // Fetch message history
-      const result = await slackClient.conversations.history({
-        channel: channelId,
-        limit,
-      });
+      const result = await slackCall('conversations.history', () =>
+        slackClient.conversations.history({
+          channel: channelId,
+          limit,
+        })
+      );
 
       const messages = result.messages || [];
-      const events = [];
+      const events: UniversifyEvent[] = [];
 
       for (const msg of messages) {
-        // Skip bot messages, thread replies, and subtypes like channel_join
-        if (msg.subtype && msg.subtype !== 'bot_message') continue;
+        // Skip subtypes like channel_join (thread replies are not in history)
+        if (msg.subtype && msg.subtype !== 'bot_message' && msg.subtype !== 'file_share') continue;
 
-        const event = parseSlackMessage(
+        let event = parseSlackMessage(
           {
             text: msg.text || '',
             ts: msg.ts || '',
             user: msg.user,
             channel: channelId,
             username: (msg as any).username,
+            blocks: msg.blocks as SlackBlock[] | undefined,
+            attachments: msg.attachments as SlackAttachment[] | undefined,
+            files: msg.files as SlackFile[] | undefined,
           },
           channelName,
-          channelId
+          channelId,
+          { channelVisibility: channel.visibility }
         );
 
         if (event) {
+          // Fold thread replies ("Update: moved to …") into the parent event
+          if ((msg as any).reply_count > 0 && msg.ts) {
+            event = await amendWithThreadReplies(slackClient, channelId, event, msg.ts);
+          }
           addEvent(event); // Cache in store
-          events.push(event);
+          // Reactions already on the message count as RSVPs
+          if (msg.reactions?.length) applyReactionRsvps(event.id, msg.reactions);
+          const stored = getEvent(event.id) ?? event;
+          if (meetsConfidence(stored, minConfidence)) events.push(stored);
         }
       }
 
@@ -123,12 +269,156 @@ export function createRouter(slackClient: WebClient): Router {
     }
   });
 
-  // ─── Get cached events (from in-memory store) ────────────────────
+  // ─── Get cached events (from the event store) ────────────────────
+
+  // Also returns ids of events whose Slack message was deleted, so clients can drop them.
 
   router.get('/cached', (req: Request, res: Response) => {
     const channelId = req.query.channel as string | undefined;
-    const events = channelId ? getEventsByChannel(channelId) : getEvents();
-    res.json({ ok: true, events, count: events.length });
+    const minConfidence = parseMinConfidence(req);
+    const auth = getAuth(res);
+    if (channelId && !canAccessChannel(auth, channelId)) {
+      rejectChannel(res, channelId);
+      return;
+    }
+
+    const events = (channelId ? getEventsByChannel(channelId) : getEvents()).filter(
+      (e) => meetsConfidence(e, minConfidence) && canAccessEvent(auth, e)
+    );
+    const deleted = getTombstones()
+      .map((t) => t.id)
+      .filter((id) => (!channelId || id.startsWith(`slack-${channelId}-`)) && canAccessEvent(auth, { id }));
+    res.json({ ok: true, events, count: events.length, deleted });
+  });
+
+  // ─── Incremental sync ─────────────────────────────────────────────
+  // GET /api/slack/sync?since=<token>&channel=C12345&limit=200&minConfidence=0.5
+  //
+  // Returns events created/updated/deleted since `since` plus a new sync token.
+  // With `channel`, first pulls any new messages from that channel's history
+  // (paging through the full history on the first sync). Keep calling with the
+  // returned token while `hasMore` is true. Tokens of pages that only have more
+  // changes to send end in SYNC_PAGE_SUFFIX, and skip pulling history again.
+
+  router.get('/sync', async (req: Request, res: Response) => {
+    const channelId = req.query.channel as string | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 200, 1000);
+    const sinceParam = (req.query.since as string | undefined) || '0';
+    const minConfidence = parseMinConfidence(req);
+    const auth = getAuth(res);
+    if (channelId && !canAccessChannel(auth, channelId)) {
+      rejectChannel(res, channelId);
+      return;
+    }
+
+    const nextPage = sinceParam.endsWith(SYNC_PAGE_SUFFIX);
+    let since = Number(nextPage ? sinceParam.slice(0, -SYNC_PAGE_SUFFIX.length) : sinceParam);
+    if (!Number.isInteger(since) || since < 0) {
+      res.status(400).json({ ok: false, error: `Invalid sync token "${sinceParam}"` });
+      return;
+    }
+
+    // A token from before the store was reset or cleared — tell the client to start over
+    const reset = since > getLastSeq() || (since > 0 && since < getResetSeq());
+    if (reset) since = 0;
+
+    try {
+      let backfillComplete = true;
+      if (channelId) {
+        const slackClient = getSlackClient(currentTeam());
+        const channel = await getChannelInfo(slackClient, channelId);
+        if (!channel.guessed && channel.visibility === 'private' && !isChannelMonitored(channelId)) {
+          rejectUnmonitoredPrivateChannel(res, channelId);
+          return;
+        }
+        // New messages were pulled on the sync's first page; a backfill continues on every page.
+        // While Slack can't say who may see the channel, only what's stored is sent.
+        if (!channel.guessed && (!nextPage || getChannelSyncState(channelId).resumeCursor)) {
+          const ingest = await ingestChannelHistory(slackClient, channelId);
+          backfillComplete = ingest.complete;
+        }
+      }
+
+      const changes = getChangesSince(since, { channelId, limit });
+      const visible = (e: UniversifyEvent) =>
+        meetsConfidence(e, minConfidence) && canAccessEvent(auth, e);
+
+      res.json({
+        ok: true,
+        created: changes.created.filter(visible),
+        updated: changes.updated.filter(visible),
+        deleted: changes.deleted.filter((id) => canAccessEvent(auth, { id })),
+        syncToken: changes.hasMore && backfillComplete ? `${changes.seq}${SYNC_PAGE_SUFFIX}` : String(changes.seq),
+        hasMore: changes.hasMore || !backfillComplete,
+        reset,
+      });
+    } catch (error: any) {
+      console.error(`Error syncing events${channelId ? ` for channel ${channelId}` : ''}:`, error.message);
+      res.status(500).json({
+        ok: false,
+        error: error.message || 'Failed to sync events',
+      });
+    }
+  });
+
+  // ─── Live stream of store changes (Server-Sent Events) ───────────
+  // GET /api/slack/stream?channels=C12345,C67890
+
+  router.get('/stream', streamHandler);
+
+  // ─── Monitored channels ───────────────────────────────────────────
+  // The Bolt listener only ingests these channels (or every channel when empty).
+
+  router.get('/monitored', (_req: Request, res: Response) => {
+    const channels = monitoredChannelsFor(getAuth(res));
+    res.json({ ok: true, channels, count: channels.length });
+  });
+
+  // POST /api/slack/monitored  { "channel": "C12345" }
+  // Private channels need an API key: client tokens only ever read them.
+  router.post('/monitored', async (req: Request, res: Response) => {
+    const channelId = (req.body?.channel || req.body?.channelId) as string | undefined;
+    if (!channelId || typeof channelId !== 'string') {
+      res.status(400).json({ ok: false, error: 'Missing "channel" in request body' });
+      return;
+    }
+    const auth = getAuth(res);
+    const channel = await getChannelInfo(getSlackClient(currentTeam()), channelId);
+    if (channel.guessed) {
+      res.status(503).json({ ok: false, error: `Couldn't look up channel ${channelId}; try again later` });
+      return;
+    }
+    if (!canAccessChannel(auth, channelId, channel.visibility)) {
+      rejectChannel(res, channelId);
+      return;
+    }
+    if (channel.visibility === 'private' && auth.kind === 'token') {
+      res.status(403).json({ ok: false, error: `Channel ${channelId} is private: only an API key can monitor it` });
+      return;
+    }
+
+    const added = !isChannelMonitored(channelId);
+    addMonitoredChannel(channelId);
+    res
+      .status(added ? 201 : 200)
+      .json({ ok: true, channel: channelId, channels: monitoredChannelsFor(auth) });
+  });
+
+  // DELETE /api/slack/monitored/C12345
+  router.delete('/monitored/:channel', (req: Request, res: Response) => {
+    const channelId = req.params.channel as string;
+    const auth = getAuth(res);
+    if (!canAccessChannel(auth, channelId)) {
+      rejectChannel(res, channelId);
+      return;
+    }
+    if (!isChannelMonitored(channelId)) {
+      res.status(404).json({ ok: false, error: `Channel ${channelId} is not monitored` });
+      return;
+    }
+
+    removeMonitoredChannel(channelId);
+    res.json({ ok: true, channel: channelId, channels: monitoredChannelsFor(auth) });
   });
 
   return router;
@@ -0,0 +1,149 @@
+/**
+ * Reaction-based RSVP.
+ *
+ * Members RSVP to a Slack announcement by reacting to it: by default
+ * ✅ means going, 🤔 maybe and ❌ not going. The stored event's `attendees`
+ * and `rsvpCounts` are rebuilt from the message's full reaction list, so
+ * removals, duplicates and reactions added while the bot was offline all
+ * come out right.
+ *
+ * Configuration:
+ *   RSVP_REACTIONS — emoji=status pairs, e.g. "white_check_mark=going,eyes=maybe,x=not-going".
+ *                    Statuses are going | maybe | not-going. Set to "off" to disable.
+ *
+ * Requires the `reactions:read` bot scope and the `reaction_added` /
+ * `reaction_removed` event subscriptions.
+ */
+
+import { WebClient } from '@slack/web-api';
+import { RSVPStatus, countRsvps } from '@universify/shared';
+import { UniversifyEvent } from './parser';
+import { getEvent, updateEventRsvp } from './store';
+import { slackCall } from './ratelimit';
+
+export type RsvpStatus = Exclude<RSVPStatus, null>;
+
+type Attendee = UniversifyEvent['attendees'][number];
+
+export interface SlackReaction {
+  name?: string;
+  users?: string[];
+  count?: number;
+}
+
+const RSVP_STATUSES: RsvpStatus[] = ['going', 'maybe', 'not-going'];
+
+const DEFAULT_RSVP_REACTIONS =
+  'white_check_mark=going,heavy_check_mark=going,+1=going,' +
+  'thinking_face=maybe,x=not-going,no_entry_sign=not-going';
+
+// ─── Configuration ─────────────────────────────────────────────────────
+
+/**
+ * Map of reaction name → RSVP status, from RSVP_REACTIONS or the defaults.
+ * Empty when reaction RSVPs are turned off.
+ */
+export function getRsvpReactions(env: NodeJS.ProcessEnv = process.env): Map<string, RsvpStatus> {
+  const raw = env.RSVP_REACTIONS?.trim() || DEFAULT_RSVP_REACTIONS;
+  const reactions = new Map<string, RsvpStatus>();
+  if (raw.toLowerCase() === 'off') return reactions;
+
+  for (const entry of raw.split(',')) {
+    const [name, status] = entry.split('=').map((s) => s.trim().replace(/^:|:$/g, ''));
+    if (!name || !status) continue;
+    if (RSVP_STATUSES.includes(status as RsvpStatus)) {
+      reactions.set(name, status as RsvpStatus);
+    } else {
+      console.warn(`[RSVP] Ignoring unknown status "${status}" for :${name}:`);
+    }
+  }
+  return reactions;
+}
+
+export function isReactionRsvpEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return getRsvpReactions(env).size > 0;
+}
+
+// ─── Attendees ─────────────────────────────────────────────────────────
+
+// "+1::skin-tone-3" counts as "+1"
+function baseReactionName(name: string): string {
+  return name.split('::')[0];
+}
+
+/**
+ * Build the attendee list from a message's reactions. A member who reacted
+ * with several RSVP emoji counts once, with the most committed status
+ * (going over maybe over not going). Members whose status is unchanged keep
+ * their original timestamp.
+ */
+export function attendeesFromReactions(
+  reactions: SlackReaction[],
+  previous: Attendee[],
+  mapping: Map<string, RsvpStatus> = getRsvpReactions(),
+  now: Date = new Date()
+): Attendee[] {
+  const statusByUser = new Map<string, RsvpStatus>();
+
+  for (const reaction of reactions) {
+    const status = reaction.name ? mapping.get(baseReactionName(reaction.name)) : undefined;
+    if (!status) continue;
+
+    for (const user of reaction.users || []) {
+      const current = statusByUser.get(user);
+      if (!current || RSVP_STATUSES.indexOf(status) < RSVP_STATUSES.indexOf(current)) {
+        statusByUser.set(user, status);
+      }
+    }
+  }
+
+  const previousById = new Map(previous.map((a) => [a.userId, a]));
+  const timestamp = now.toISOString();
+
+  return Array.from(statusByUser, ([user, status]) => {
+    const userId = `slack-user-${user}`;
+    const before = previousById.get(userId);
+    return {
+      userId,
+      status,
+      timestamp: before && before.status === status ? before.timestamp : timestamp,
+    };
+  });
+}
+
+/**
+ * Rebuild a stored event's RSVPs from its message's reactions.
+ * Returns true if the attendees changed.
+ */
+export function applyReactionRsvps(eventId: string, reactions: SlackReaction[]): boolean {
+  const mapping = getRsvpReactions();
+  if (mapping.size === 0) return false;
+
+  // Only the canonical message's reactions count; a merged cross-post's
+  // would overwrite them
+  const event = getEvent(eventId);
+  if (!event || event.id !== eventId) return false;
+
+  const attendees = attendeesFromReactions(reactions, event.attendees, mapping);
+  return updateEventRsvp(eventId, { attendees, rsvpCounts: countRsvps(attendees) });
+}
+
+/**
+ * Fetch the current reactions on a message and rebuild its event's RSVPs.
+ * Used by the reaction listeners, where the event payload only says which
+ * single reaction changed.
+ */
+export async function refreshReactionRsvps(
+  slackClient: WebClient,
+  channelId: string,
+  ts: string
+): Promise<boolean> {
+  const eventId = `slack-${channelId}-${ts}`;
+  if (getEvent(eventId)?.id !== eventId) return false;
+
+  const result = await slackCall('reactions.get', () =>
+    slackClient.reactions.get({ channel: channelId, timestamp: ts, full: true })
+  );
+  const reactions = ((result.message as any)?.reactions || []) as SlackReaction[];
+  return applyReactionRsvps(eventId, reactions);
+}
@@ -0,0 +1,261 @@
+/**
+ * Storage backends for the Slack bot event store.
+ *
+ * The store keeps its working set in memory and hands a full snapshot to a
+ * backend shortly after each mutation (see persist in store.ts). Backends are selected with STORE_BACKEND:
+ *   - "memory" (default) — nothing is persisted, restarts start empty
+ *   - "file"             — JSON snapshot at STORE_PATH (default ./data/store.json)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { normalizeEvent } from '@universify/shared';
+import { UniversifyEvent } from './parser';
+
+// Bump this whenever the snapshot shape changes and add a migration below.
+export const SCHEMA_VERSION = 7;
+
+export interface Tombstone {
+  id: string;
+  deletedAt: string; // ISO 8601
+  seq: number;       // change sequence number of the deletion
+}
+
+/** Change sequence numbers for a stored event, used by incremental sync. */
+export interface EventRevision {
+  id: string;
+  createdSeq: number;
+  updatedSeq: number;
+}
+
+/** How far the bot has read a channel's history. */
+export interface ChannelSyncState {
+  latestTs?: string;       // newest message ts fully ingested
+  resumeCursor?: string;   // set while a history backfill is still in progress
+  resumeLatestTs?: string; // newest ts seen by the in-progress backfill
+}
+
+/** The events a user scheduled in the app, served as their calendar feed (see feeds.ts). */
+export interface ScheduleFeed {
+  userId: string;
+  eventIds: string[];
+  events: UniversifyEvent[]; // copies of scheduled events the bot doesn't store itself
+  updatedAt: string;
+}
+
+export interface StoreSnapshot {
+  events: UniversifyEvent[];
+  appEvents: UniversifyEvent[]; // created through the events API (see eventsApi.ts)
+  monitoredChannels: string[];
+  tombstones: Tombstone[];
+  revisions: EventRevision[];
+  lastSeq: number;
+  resetSeq: number; // lastSeq when the events were last cleared; older sync tokens are stale
+  channelSync: Record<string, ChannelSyncState>;
+  scheduleFeeds: ScheduleFeed[];
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  load(): StoreSnapshot;
+  save(snapshot: StoreSnapshot): void;
+}
+
+interface PersistedSnapshot extends StoreSnapshot {
+  schemaVersion: number;
+  savedAt: string;
+}
+
+function emptySnapshot(): StoreSnapshot {
+  return {
+    events: [],
+    appEvents: [],
+    monitoredChannels: [],
+    tombstones: [],
+    revisions: [],
+    lastSeq: 0,
+    resetSeq: 0,
+    channelSync: {},
+    scheduleFeeds: [],
+  };
+}
+
+// ─── Migrations ────────────────────────────────────────────────────────
+
+type StoredData = Record<string, unknown>;
+
+// Store files are untrusted input: anything that isn't the expected shape reads as empty
+function asRecord(value: unknown): StoredData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as StoredData) : {};
+}
+
+function arrayOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Keyed by the version being migrated *from*. Each step returns data at version + 1.
+const MIGRATIONS: Record<number, (data: unknown) => StoredData> = {
+  // v0 files were a bare array of events written by early dev builds
+  0: (data) => ({
+    events: Array.isArray(data) ? data : arrayOf(asRecord(data).events),
+    monitoredChannels: arrayOf(asRecord(data).monitoredChannels),
+  }),
+  // v2 added tombstones for deleted Slack messages
+  1: (data) => ({ ...asRecord(data), tombstones: [] }),
+  // v3 added change sequence numbers for incremental sync
+  2: (data) => {
+    const record = asRecord(data);
+    let seq = 0;
+    const revisions: EventRevision[] = arrayOf(record.events).map((e) => {
+      seq++;
+      return { id: String(asRecord(e).id), createdSeq: seq, updatedSeq: seq };
+    });
+    const tombstones = arrayOf(record.tombstones).map((t) => ({ ...asRecord(t), seq: ++seq }));
+    return { ...record, tombstones, revisions, lastSeq: seq, channelSync: {} };
+  },
+  // v4 checks events against the shared event model; ones that can't be
+  // repaired with defaults are dropped (with their revisions)
+  3: (data) => {
+    const record = asRecord(data);
+    const events: UniversifyEvent[] = [];
+    for (const raw of arrayOf(record.events)) {
+      const event = normalizeEvent(raw);
+      if (event) events.push(event);
+      else console.warn(`[Store] Dropping stored event that isn't a valid event: ${asRecord(raw).id}`);
+    }
+    const kept = new Set(events.map((e) => e.id));
+    const revisions = arrayOf(record.revisions).filter((r) => {
+      const { id } = asRecord(r);
+      return typeof id === 'string' && kept.has(id);
+    });
+    return { ...record, events, revisions };
+  },
+  // v5 added events created through the events API
+  4: (data) => ({ ...asRecord(data), appEvents: [] }),
+  // v6 added users' schedule feeds
+  5: (data) => ({ ...asRecord(data), scheduleFeeds: [] }),
+  // v7 remembers when the events were cleared, so older sync tokens get a reset
+  6: (data) => ({ ...asRecord(data), resetSeq: 0 }),
+};
+
+function migrate(data: unknown): StoreSnapshot {
+  const { schemaVersion } = asRecord(data);
+  let version = typeof schemaVersion === 'number' ? schemaVersion : 0;
+
+  if (version > SCHEMA_VERSION) {
+    throw new Error(
+      `Store file has schema version ${version}, but this build only understands up to ${SCHEMA_VERSION}`
+    );
+  }
+
+  let current = data;
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No store migration from schema version ${version}`);
+    current = step(current);
+    version++;
+  }
+
+  const snapshot = asRecord(current);
+  return {
+    events: arrayOf(snapshot.events) as UniversifyEvent[],
+    appEvents: arrayOf(snapshot.appEvents) as UniversifyEvent[],
+    monitoredChannels: arrayOf(snapshot.monitoredChannels) as string[],
+    tombstones: arrayOf(snapshot.tombstones) as Tombstone[],
+    revisions: arrayOf(snapshot.revisions) as EventRevision[],
+    lastSeq: typeof snapshot.lastSeq === 'number' ? snapshot.lastSeq : 0,
+    resetSeq: typeof snapshot.resetSeq === 'number' ? snapshot.resetSeq : 0,
+    channelSync: asRecord(snapshot.channelSync) as Record<string, ChannelSyncState>,
+    scheduleFeeds: arrayOf(snapshot.scheduleFeeds) as ScheduleFeed[],
+  };
+}
+
+// ─── Backends ──────────────────────────────────────────────────────────
+
+/**
+ * Keeps nothing between restarts. Useful for local development.
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly name = 'memory';
+
+  load(): StoreSnapshot {
+    return emptySnapshot();
+  }
+
+  save(_snapshot: StoreSnapshot): void {
+    // Nothing to persist
+  }
+}
+
+/**
+ * Persists the store as a single versioned JSON document.
+ * Writes go to a temp file first and are renamed into place so a crash
+ * mid-write never leaves a truncated store behind. A file that still can't
+ * be parsed is moved aside (store.json.corrupt-<time>) and the store starts
+ * empty, rather than the bot failing to start.
+ */
+export class JsonFileBackend implements StorageBackend {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  load(): StoreSnapshot {
+    if (!fs.existsSync(this.filePath)) return emptySnapshot();
+
+    const raw = fs.readFileSync(this.filePath, 'utf8');
+    if (!raw.trim()) return emptySnapshot();
+
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch (error) {
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, corruptPath);
+      console.error(
+        `[Store] ${this.filePath} is not valid JSON; moved it to ${corruptPath} and starting empty:`,
+        error
+      );
+      return emptySnapshot();
+    }
+    return migrate(data);
+  }
+
+  save(snapshot: StoreSnapshot): void {
+    const persisted: PersistedSnapshot = {
+      schemaVersion: SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      ...snapshot,
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(persisted, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Build the backend named by STORE_BACKEND for a workspace's store. The default workspace uses STORE_PATH;
+ * workspaces installed via OAuth get their own file next to it
+ * (./data/teams/<teamId>.json).
+ */
+export function createBackendFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  teamId?: string
+): StorageBackend {
+  const kind = (env.STORE_BACKEND || 'memory').toLowerCase();
+  const storePath = path.resolve(env.STORE_PATH || './data/store.json');
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryBackend();
+    case 'file':
+    case 'json':
+      return new JsonFileBackend(
+        teamId ? path.join(path.dirname(storePath), 'teams', `${teamId}.json`) : storePath
+      );
+    default:
+      console.warn(`[Store] Unknown STORE_BACKEND "${kind}", falling back to memory`);
+      return new MemoryBackend();
+  }
+}
@@ -1,94 +1,641 @@
 /**
- * In-memory event store for the Slack bot.
+ * Event store for the Slack bot.
  *
  * Holds parsed Universify events keyed by their id.
  * Provides helpers to add, retrieve, and query events.
+ *
+ * The working set lives in memory and is saved to the configured storage
+ * backend (see storage.ts) so events survive restarts. Saves are debounced:
+ * mutations within PERSIST_DELAY_MS of each other share one write, and
+ * flushStore writes anything pending before the process exits.
+ *
+ * Each Slack workspace has its own store. Functions act on the workspace of
+ * the current request or Slack event (see tenants.ts); outside any team
+ * context that is the default, env-configured workspace.
+ *
+ * Cross-posts of the same announcement (see dedup in @universify/shared) are
+ * merged into the first stored copy, which lists every message in
+ * `sources`. Lookups, edits and deletions by a merged message's id act on
+ * that canonical event.
+ *
+ * Events people create in the app (see eventsApi.ts) are kept apart from
+ * Slack events: they are never merged, synced or streamed as Slack events.
  */
 
+import { EventEmitter } from 'events';
+import {
+  findDuplicate,
+  hasSource,
+  isDuplicate,
+  mergeDuplicate,
+  removeSource,
+  sourcesOf,
+  validateEvent,
+} from '@universify/shared';
 import { UniversifyEvent } from './parser';
+import {
+  StorageBackend,
+  Tombstone,
+  EventRevision,
+  ChannelSyncState,
+  ScheduleFeed,
+  createBackendFromEnv,
+} from './storage';
+import { DEFAULT_TEAM, currentTeam } from './tenants';
+
+/**
+ * Everything stored for one Slack workspace. Each installed team gets its
+ * own, so workspaces sharing a deployment never see each other's events.
+ */
+interface TeamStore {
+  // Map<eventId, event>
+  events: Map<string, UniversifyEvent>;
+  // Map<eventId, event> for events created through the events API
+  appEvents: Map<string, UniversifyEvent>;
+  // Map<eventId, tombstone> for events whose Slack message was deleted
+  tombstones: Map<string, Tombstone>;
+  // Map<eventId, revision> — change sequence numbers for incremental sync
+  revisions: Map<string, EventRevision>;
+  // Track which channels we are monitoring
+  monitoredChannels: Set<string>;
+  // Map<channelId, state> — how far each channel's history has been ingested
+  channelSync: Map<string, ChannelSyncState>;
+  // Map<userId, feed> — what each user scheduled, for their calendar feed
+  scheduleFeeds: Map<string, ScheduleFeed>;
+  // Monotonic counter bumped on every event create/update/delete
+  lastSeq: number;
+  // lastSeq when the events were last cleared (see clearEvents)
+  resetSeq: number;
+  backend: StorageBackend;
+  // Set while a save is scheduled (see persist)
+  saveTimer?: NodeJS.Timeout;
+  // Every open SSE stream adds a listener
+  changes: EventEmitter;
+}
+
+// Map<teamId, store>
+const teamStores = new Map<string, TeamStore>();
+
+function loadTeamStore(backend: StorageBackend): TeamStore {
+  const snapshot = backend.load();
+  const changes = new EventEmitter();
+  changes.setMaxListeners(0);
+
+  return {
+    events: new Map(snapshot.events.map((event) => [event.id, event])),
+    appEvents: new Map(snapshot.appEvents.map((event) => [event.id, event])),
+    tombstones: new Map(snapshot.tombstones.map((tombstone) => [tombstone.id, tombstone])),
+    revisions: new Map(snapshot.revisions.map((revision) => [revision.id, revision])),
+    monitoredChannels: new Set(snapshot.monitoredChannels),
+    channelSync: new Map(Object.entries(snapshot.channelSync)),
+    scheduleFeeds: new Map(snapshot.scheduleFeeds.map((feed) => [feed.userId, feed])),
+    lastSeq: snapshot.lastSeq,
+    resetSeq: snapshot.resetSeq,
+    backend,
+    changes,
+  };
+}
+
+/**
+ * The store of the team the current request or Slack event belongs to
+ * (see tenants.ts). Stores of additional workspaces are loaded on first use.
+ */
+function store(): TeamStore {
+  const teamId = currentTeam();
+  let teamStore = teamStores.get(teamId);
+  if (!teamStore) {
+    teamStore = loadTeamStore(
+      createBackendFromEnv(process.env, teamId === DEFAULT_TEAM ? undefined : teamId)
+    );
+    teamStores.set(teamId, teamStore);
+  }
+  return teamStore;
+}
+
+// ─── Change notifications ──────────────────────────────────────────────
+
+export type StoreChange =
+  | { type: 'event.created' | 'event.updated'; seq: number; event: UniversifyEvent }
+  | { type: 'event.deleted'; seq: number; id: string };
+
+/**
+ * Subscribe to the current team's event changes. Returns an unsubscribe function.
+ */
+export function onStoreChange(listener: (change: StoreChange) => void): () => void {
+  const { changes } = store();
+  changes.on('change', listener);
+  return () => {
+    changes.off('change', listener);
+  };
+}
+
+function emitChange(change: StoreChange): void {
+  try {
+    store().changes.emit('change', change);
+  } catch (error) {
+    console.error('[Store] Change listener threw:', error);
+  }
+}
+
+// ─── Persistence ───────────────────────────────────────────────────────
+
+/**
+ * Load the default workspace's store from a backend and write all future
+ * changes through to it. Defaults to the backend selected by STORE_BACKEND.
+ */
+export function initStore(storageBackend: StorageBackend = createBackendFromEnv()): void {
+  const teamStore = loadTeamStore(storageBackend);
+  teamStores.set(DEFAULT_TEAM, teamStore);
+
+  console.log(
+    `[Store] Using ${storageBackend.name} backend ` +
+    `(${teamStore.events.size} events, ${teamStore.monitoredChannels.size} monitored channels)`
+  );
+}
+
+export function getBackendName(): string {
+  return store().backend.name;
+}
+
+// How long a mutation waits for others before the store is saved
+const PERSIST_DELAY_MS = 1000;
 
-// Map<eventId, event>
-const events = new Map<string, UniversifyEvent>();
+function saveTeamStore(teamStore: TeamStore): void {
+  clearTimeout(teamStore.saveTimer);
+  teamStore.saveTimer = undefined;
 
-// Track which channels we are monitoring
-const monitoredChannels = new Set<string>();
+  const {
+    events,
+    appEvents,
+    monitoredChannels,
+    tombstones,
+    revisions,
+    lastSeq,
+    resetSeq,
+    channelSync,
+    scheduleFeeds,
+    backend,
+  } = teamStore;
+  try {
+    backend.save({
+      events: Array.from(events.values()),
+      appEvents: Array.from(appEvents.values()),
+      monitoredChannels: Array.from(monitoredChannels),
+      tombstones: Array.from(tombstones.values()),
+      revisions: Array.from(revisions.values()),
+      lastSeq,
+      resetSeq,
+      channelSync: Object.fromEntries(channelSync),
+      scheduleFeeds: Array.from(scheduleFeeds.values()),
+    });
+  } catch (error) {
+    console.error(`[Store] Failed to persist to ${backend.name} backend:`, error);
+  }
+}
+
+/** Schedule a save of the current team's store, unless one is already pending. */
+function persist(): void {
+  const teamStore = store();
+  if (teamStore.saveTimer) return;
+  teamStore.saveTimer = setTimeout(() => saveTeamStore(teamStore), PERSIST_DELAY_MS);
+  // A pending save shouldn't keep the process alive; flushStore runs on exit
+  teamStore.saveTimer.unref();
+}
+
+/**
+ * Save every workspace's pending changes now. Call before the process exits.
+ */
+export function flushStore(): void {
+  for (const teamStore of teamStores.values()) {
+    if (teamStore.saveTimer) saveTeamStore(teamStore);
+  }
+}
 
 // ─── Public API ────────────────────────────────────────────────────────
 
+// Compare events ignoring bookkeeping timestamps, so re-parsing an
+// unchanged message does not show up as an update in sync.
+function isSameContent(a: UniversifyEvent, b: UniversifyEvent): boolean {
+  const strip = ({ createdAt: _c, updatedAt: _u, ...rest }: UniversifyEvent) => rest;
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+}
+
+// Write an event, bump its revision and notify listeners
+function writeEvent(event: UniversifyEvent, existing: UniversifyEvent | undefined): void {
+  const teamStore = store();
+  const seq = ++teamStore.lastSeq;
+  const revision = teamStore.revisions.get(event.id);
+  teamStore.revisions.set(event.id, {
+    id: event.id,
+    createdSeq: existing && revision ? revision.createdSeq : seq,
+    updatedSeq: seq,
+  });
+
+  teamStore.events.set(event.id, event);
+  teamStore.tombstones.delete(event.id);
+  persist();
+  emitChange({ type: existing ? 'event.updated' : 'event.created', seq, event });
+}
+
 /**
  * Add or update an event in the store.
  * Returns true if the event was new, false if it was an update.
+ *
+ * Updates keep the original createdAt and the stored RSVP state (attendees
+ * and counts are only changed through updateEventRsvp, so re-parsing a
+ * message doesn't wipe them). A manually verified event is only replaced by
+ * another verified version, never by fresh parser output. Writing an event
+ * whose content is unchanged is a no-op and does not advance the sync sequence.
+ * Events that don't fit the shared event model are rejected, so clients
+ * never receive them.
  */
 export function addEvent(event: UniversifyEvent): boolean {
-  const isNew = !events.has(event.id);
-  events.set(event.id, event);
-  return isNew;
+  const issues = validateEvent(event);
+  if (issues.length > 0) {
+    console.warn(`[Store] Rejected invalid event ${event.id}: ${issues.join('; ')}`);
+    return false;
+  }
+
+  const existing = store().events.get(event.id);
+
+  // Events a person entered are never folded into a parsed one
+  if (!existing && !event.manuallyVerified && mergeIfDuplicate(event)) return false;
+
+  if (existing) {
+    if (existing.manuallyVerified && !event.manuallyVerified) return false;
+    event = {
+      ...event,
+      createdAt: existing.createdAt,
+      rsvpEnabled: existing.rsvpEnabled || event.rsvpEnabled,
+      rsvpCounts: existing.rsvpCounts,
+      attendees: existing.attendees,
+      ...(existing.sources ? { sources: existing.sources } : {}),
+    };
+    if (isSameContent(existing, event)) return false;
+  }
+
+  writeEvent(event, existing);
+  return !existing;
+}
+
+// ─── Duplicates ────────────────────────────────────────────────────────
+
+// Event ids are `slack-<channelId>-<ts>` (or `slack-<channelId>-form-<n>`)
+function channelIdOf(eventId: string): string | undefined {
+  return eventId.startsWith('slack-') ? eventId.split('-')[1] : undefined;
 }
 
 /**
- * Get a single event by id.
+ * Whether an event, or any cross-post merged into it, was posted in the channel.
+ */
+export function isEventFromChannel(event: UniversifyEvent, channelId: string): boolean {
+  return sourcesOf(event).some((ref) => channelIdOf(ref.id) === channelId);
+}
+
+/**
+ * The stored event that `id` was merged into as a duplicate, if any.
+ */
+function mergedInto(id: string): UniversifyEvent | undefined {
+  for (const event of store().events.values()) {
+    if (event.id !== id && hasSource(event, id)) return event;
+  }
+  return undefined;
+}
+
+// Public cross-posts merge across channels. Private ones only within their
+// own channel, so no channel's content reaches readers of another.
+function mergeCandidates(event: UniversifyEvent): UniversifyEvent[] {
+  const events = Array.from(store().events.values());
+  if (event.channelVisibility !== 'private') {
+    return events.filter((e) => e.channelVisibility !== 'private');
+  }
+  const channelId = channelIdOf(event.id);
+  return events.filter((e) => e.channelVisibility === 'private' && channelIdOf(e.id) === channelId);
+}
+
+function writeMerged(canonical: UniversifyEvent, duplicate: UniversifyEvent): void {
+  const merged = mergeDuplicate(canonical, duplicate);
+  // A verified event only gains the source; a person's fields stay as entered
+  const event = canonical.manuallyVerified ? { ...canonical, sources: merged.sources } : merged;
+  if (isSameContent(canonical, event)) return;
+  writeEvent({ ...event, updatedAt: new Date().toISOString() }, canonical);
+}
+
+function detachSource(canonical: UniversifyEvent, id: string): void {
+  const rest = removeSource(canonical, id);
+  if (rest) writeEvent({ ...rest, updatedAt: new Date().toISOString() }, canonical);
+}
+
+/**
+ * Fold a new event into the stored event it duplicates. Returns false if it
+ * isn't a duplicate and should be stored on its own. A cross-post that was
+ * merged before is re-merged, unless an edit made it a different event.
+ */
+function mergeIfDuplicate(event: UniversifyEvent): boolean {
+  const previous = mergedInto(event.id);
+  if (previous && (previous.manuallyVerified || isDuplicate(previous, event))) {
+    writeMerged(previous, event);
+    return true;
+  }
+  if (previous) detachSource(previous, event.id);
+
+  const canonical = findDuplicate(event, mergeCandidates(event));
+  if (!canonical) return false;
+
+  writeMerged(canonical, event);
+  console.log(`[Store] Merged ${event.id} into duplicate ${canonical.id} ("${canonical.title}")`);
+  return true;
+}
+
+/**
+ * Replace an event's attendees and RSVP counts.
+ * Returns false if the event is not stored or nothing changed.
+ */
+export function updateEventRsvp(
+  id: string,
+  rsvp: Pick<UniversifyEvent, 'attendees' | 'rsvpCounts'>
+): boolean {
+  const existing = store().events.get(id);
+  if (!existing) return false;
+
+  const event: UniversifyEvent = {
+    ...existing,
+    rsvpEnabled: true,
+    attendees: rsvp.attendees,
+    rsvpCounts: rsvp.rsvpCounts,
+    updatedAt: new Date().toISOString(),
+  };
+  if (isSameContent(existing, event)) return false;
+
+  writeEvent(event, existing);
+  return true;
+}
+
+/**
+ * Get a single event by id, or the event it was merged into as a duplicate.
  */
 export function getEvent(id: string): UniversifyEvent | undefined {
-  return events.get(id);
+  return store().events.get(id) ?? mergedInto(id);
 }
 
 /**
  * Get all stored events, sorted by startTime descending (newest first).
  */
 export function getEvents(): UniversifyEvent[] {
-  return Array.from(events.values()).sort(
+  return Array.from(store().events.values()).sort(
     (a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
   );
 }
 
 /**
- * Get events that originated from a specific Slack channel.
- * Matches events whose id starts with `slack-{channelId}-`.
+ * Get events that were posted in a specific Slack channel, including
+ * events merged with a cross-post there (see isEventFromChannel).
  */
 export function getEventsByChannel(channelId: string): UniversifyEvent[] {
-  const prefix = `slack-${channelId}-`;
-  return Array.from(events.values())
-    .filter((e) => e.id.startsWith(prefix))
+  return Array.from(store().events.values())
+    .filter((e) => isEventFromChannel(e, channelId))
     .sort(
       (a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
     );
 }
 
 /**
- * Remove an event from the store.
+ * Remove an event and remember that it was deleted, so clients that
+ * already imported it can drop it on their next sync.
+ * Returns false if the event was not in the store.
+ *
+ * Deleting a merged cross-post only drops it from `sources`. Deleting the
+ * canonical event's own message while cross-posts remain re-creates the
+ * event under the next cross-post's id.
  */
-export function removeEvent(id: string): boolean {
-  return events.delete(id);
+export function tombstoneEvent(id: string): boolean {
+  const teamStore = store();
+  const event = teamStore.events.get(id);
+  if (!event) {
+    const canonical = mergedInto(id);
+    if (canonical) detachSource(canonical, id);
+    return !!canonical;
+  }
+
+  teamStore.events.delete(id);
+  teamStore.revisions.delete(id);
+  const seq = ++teamStore.lastSeq;
+  teamStore.tombstones.set(id, { id, deletedAt: new Date().toISOString(), seq });
+  persist();
+  emitChange({ type: 'event.deleted', seq, id });
+
+  const remaining = sourcesOf(event).filter((ref) => ref.id !== id);
+  if (remaining.length > 0) {
+    const { sources: _sources, ...rest } = event;
+    writeEvent(
+      {
+        ...rest,
+        id: remaining[0].id,
+        title: remaining[0].title ?? rest.title,
+        ...(remaining.length > 1 ? { sources: remaining } : {}),
+        updatedAt: new Date().toISOString(),
+      },
+      undefined
+    );
+  }
+  return true;
 }
 
 /**
- * Clear all events.
+ * Get tombstones for deleted events, optionally only those deleted after `since`.
+ */
+export function getTombstones(since?: string): Tombstone[] {
+  const all = Array.from(store().tombstones.values());
+  if (!since) return all;
+  const sinceMs = new Date(since).getTime();
+  return all.filter((t) => new Date(t.deletedAt).getTime() > sinceMs);
+}
+
+/**
+ * Clear all events. Without tombstones, clients can't be told what was
+ * deleted, so sync tokens from before this get a reset (see getResetSeq).
  */
 export function clearEvents(): void {
+  const teamStore = store();
+  const { events, tombstones, revisions, channelSync } = teamStore;
+  teamStore.resetSeq = ++teamStore.lastSeq;
   events.clear();
+  tombstones.clear();
+  revisions.clear();
+  channelSync.clear();
+  persist();
 }
 
 /**
  * Get the total number of stored events.
  */
 export function getEventCount(): number {
-  return events.size;
+  return store().events.size;
+}
+
+// ─── App events ────────────────────────────────────────────────────────
+
+export function getAppEvents(): UniversifyEvent[] {
+  return Array.from(store().appEvents.values());
+}
+
+export function getAppEvent(id: string): UniversifyEvent | undefined {
+  return store().appEvents.get(id);
+}
+
+/**
+ * Create or replace an event created in the app. The caller validates it.
+ */
+export function saveAppEvent(event: UniversifyEvent): void {
+  store().appEvents.set(event.id, event);
+  persist();
+}
+
+export function deleteAppEvent(id: string): boolean {
+  if (!store().appEvents.delete(id)) return false;
+  persist();
+  return true;
+}
+
+// ─── Schedule feeds ────────────────────────────────────────────────────
+
+export function getScheduleFeed(userId: string): ScheduleFeed | undefined {
+  return store().scheduleFeeds.get(userId);
+}
+
+export function saveScheduleFeed(feed: ScheduleFeed): void {
+  store().scheduleFeeds.set(feed.userId, feed);
+  persist();
+}
+
+// ─── Incremental sync ──────────────────────────────────────────────────
+
+export interface ChangeSet {
+  created: UniversifyEvent[];
+  updated: UniversifyEvent[];
+  deleted: string[];
+  seq: number;      // sequence number to resume from on the next call
+  hasMore: boolean;
+}
+
+/**
+ * Get the current change sequence number.
+ */
+export function getLastSeq(): number {
+  return store().lastSeq;
+}
+
+/**
+ * The sequence number the events were last cleared at. Clients synced to
+ * an earlier one must start over.
+ */
+export function getResetSeq(): number {
+  return store().resetSeq;
+}
+
+type LoggedChange = { seq: number; kind: 'created' | 'updated' | 'deleted'; id: string };
+
+// Each event's latest change after `since`, oldest first
+function changesAfter(since: number, channelId?: string): LoggedChange[] {
+  const prefix = channelId ? `slack-${channelId}-` : '';
+  const { events, revisions, tombstones } = store();
+  const inChannel = (id: string) => {
+    const event = events.get(id);
+    return !channelId || (!!event && isEventFromChannel(event, channelId));
+  };
+
+  const changes: LoggedChange[] = [];
+
+  for (const revision of revisions.values()) {
+    if (revision.updatedSeq <= since || !inChannel(revision.id)) continue;
+    changes.push({
+      seq: revision.updatedSeq,
+      kind: revision.createdSeq > since ? 'created' : 'updated',
+      id: revision.id,
+    });
+  }
+  for (const tombstone of tombstones.values()) {
+    if (tombstone.seq <= since || !tombstone.id.startsWith(prefix)) continue;
+    changes.push({ seq: tombstone.seq, kind: 'deleted', id: tombstone.id });
+  }
+
+  return changes.sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Get events created, updated, or deleted after sequence number `since`,
+ * in the order the changes happened. At most `limit` changes are returned;
+ * when more remain, `hasMore` is true and `seq` points at the last one returned.
+ *
+ * An event that was both created and updated after `since` is reported as created.
+ */
+export function getChangesSince(
+  since: number,
+  options: { channelId?: string; limit?: number } = {}
+): ChangeSet {
+  const limit = options.limit ?? Infinity;
+  const { events, lastSeq } = store();
+  const changes = changesAfter(since, options.channelId);
+  const page = changes.slice(0, limit);
+  const hasMore = changes.length > page.length;
+
+  const result: ChangeSet = {
+    created: [],
+    updated: [],
+    deleted: [],
+    seq: hasMore ? page[page.length - 1].seq : lastSeq,
+    hasMore,
+  };
+
+  for (const change of page) {
+    if (change.kind === 'deleted') {
+      result.deleted.push(change.id);
+    } else {
+      result[change.kind].push(events.get(change.id)!);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The changes after sequence number `since` as stream messages, in sequence
+ * order and each with its own `seq`, for replaying to a reconnecting stream.
+ * Like getChangesSince, an event appears once, with its latest change.
+ */
+export function getChangeLogSince(since: number): StoreChange[] {
+  const { events } = store();
+  return changesAfter(since).map((change): StoreChange =>
+    change.kind === 'deleted'
+      ? { type: 'event.deleted', seq: change.seq, id: change.id }
+      : { type: `event.${change.kind}`, seq: change.seq, event: events.get(change.id)! }
+  );
+}
+
+export function getChannelSyncState(channelId: string): ChannelSyncState {
+  return store().channelSync.get(channelId) || {};
+}
+
+export function setChannelSyncState(channelId: string, state: ChannelSyncState): void {
+  store().channelSync.set(channelId, state);
+  persist();
 }
 
 // ─── Monitored channels ────────────────────────────────────────────────
 
 export function addMonitoredChannel(channelId: string): void {
-  monitoredChannels.add(channelId);
+  store().monitoredChannels.add(channelId);
+  persist();
 }
 
 export function removeMonitoredChannel(channelId: string): void {
-  monitoredChannels.delete(channelId);
+  if (store().monitoredChannels.delete(channelId)) persist();
 }
 
 export function getMonitoredChannels(): string[] {
-  return Array.from(monitoredChannels);
+  return Array.from(store().monitoredChannels);
 }
 
 export function isChannelMonitored(channelId: string): boolean {
-  return monitoredChannels.has(channelId);
+  return store().monitoredChannels.has(channelId);
 }
@@ -0,0 +1,81 @@
+/**
+ * Server-Sent Events stream of store changes.
+ *
+ * GET /api/slack/stream?channels=C123,C456
+ *
+ * Pushes `event.created`, `event.updated` and `event.deleted` messages as the
+ * Bolt listener (or a sync) changes the store. Each message id is the store's
+ * change sequence number, so a reconnecting EventSource that sends
+ * `Last-Event-ID` gets the changes it missed replayed first.
+ *
+ * EventSource cannot send headers, so clients pass a client token in
+ * `?access_token=` (see auth.ts). Private-channel events are only pushed to
+ * credentials allowed to see them.
+ */
+
+import { Request, Response } from 'express';
+import { StoreChange, onStoreChange, getChangeLogSince, getLastSeq, isEventFromChannel } from './store';
+import { canAccessChannel, canAccessEvent, getAuth } from './auth';
+
+const HEARTBEAT_MS = 25_000;
+
+function parseChannels(raw: unknown): string[] {
+  if (typeof raw !== 'string' || !raw.trim()) return [];
+  return raw.split(',').map((c) => c.trim()).filter(Boolean);
+}
+
+
+function writeChange(res: Response, change: StoreChange): void {
+  const data = change.type === 'event.deleted' ? { id: change.id } : { event: change.event };
+  res.write(`id: ${change.seq}\nevent: ${change.type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function streamHandler(req: Request, res: Response): void {
+  // Channel-scoped client tokens only ever stream their own channels
+  const auth = getAuth(res);
+  const requested = parseChannels(req.query.channels ?? req.query.channel);
+  const channels = auth.channels
+    ? (requested.length > 0 ? requested : auth.channels).filter((c) => canAccessChannel(auth, c))
+    : requested;
+  if (auth.channels && channels.length === 0) {
+    res.status(403).json({ ok: false, error: 'Not authorized for the requested channels' });
+    return;
+  }
+  const prefixes = channels.map((c) => `slack-${c}-`);
+  const matches = (id: string) =>
+    prefixes.length === 0 || prefixes.some((prefix) => id.startsWith(prefix));
+  const visible = (change: StoreChange) =>
+    change.type === 'event.deleted'
+      ? matches(change.id)
+      : (channels.length === 0 || channels.some((c) => isEventFromChannel(change.event, c))) &&
+        canAccessEvent(auth, change.event);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // don't let proxies buffer the stream
+  });
+  res.write(`retry: 5000\n\n`);
+
+  // Replay anything the client missed while disconnected, in the order it happened
+  const lastEventId = Number(req.header('Last-Event-ID'));
+  if (Number.isInteger(lastEventId) && lastEventId >= 0 && lastEventId <= getLastSeq()) {
+    for (const change of getChangeLogSince(lastEventId)) {
+      if (visible(change)) writeChange(res, change);
+    }
+  }
+
+  const unsubscribe = onStoreChange((change) => {
+    if (visible(change)) writeChange(res, change);
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(`: heartbeat ${Date.now()}\n\n`);
+  }, HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * Channel history ingestion for incremental sync.
+ *
+ * Pages through `conversations.history` for a channel, parses every message
+ * into the store, and remembers the newest message ts so the next call only
+ * asks Slack for messages posted since then. Large backfills are spread over
+ * several calls: when the page budget runs out, the Slack cursor is saved and
+ * the next call resumes from it.
+ *
+ * Thread replies never appear in channel history, so for every parent message
+ * with replies the thread is fetched via `conversations.replies` and applied
+ * to the parent event as amendments.
+ *
+ * All Slack calls go through the rate-limit queue (see ratelimit.ts), so a
+ * long backfill slows down rather than failing when Slack pushes back.
+ */
+
+import { WebClient } from '@slack/web-api';
+import { UniversifyEvent, parseSlackMessage, applyThreadReply } from './parser';
+import { SlackAttachment, SlackBlock, SlackFile } from './blocks';
+import { addEvent, getChannelSyncState, setChannelSyncState } from './store';
+import { applyReactionRsvps } from './rsvp';
+import { getChannelInfo } from './lookups';
+import { slackCall } from './ratelimit';
+
+const PAGE_SIZE = 200;
+const DEFAULT_MAX_PAGES = 10;
+
+export interface IngestResult {
+  channelName: string;
+  messagesRead: number;
+  eventsStored: number;
+  complete: boolean; // false while an older-history backfill is still pending
+}
+
+function newerTs(a: string | undefined, b: string | undefined): string | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return parseFloat(a) >= parseFloat(b) ? a : b;
+}
+
+/**
+ * Fetch a thread and apply each reply to the parent event, in order.
+ * Returns the amended event (or the original if no reply changed it);
+ * the caller is responsible for storing it.
+ */
+export async function amendWithThreadReplies(
+  slackClient: WebClient,
+  channelId: string,
+  parent: UniversifyEvent,
+  threadTs: string
+): Promise<UniversifyEvent> {
+  let event = parent;
+  let cursor: string | undefined;
+
+  do {
+    const result = await slackCall('conversations.replies', () =>
+      slackClient.conversations.replies({
+        channel: channelId,
+        ts: threadTs,
+        limit: PAGE_SIZE,
+        ...(cursor ? { cursor } : {}),
+      })
+    );
+
+    for (const reply of result.messages || []) {
+      // The first message of a thread is the parent itself
+      if (!reply.ts || reply.ts === threadTs) continue;
+
+      const amended = applyThreadReply(event, {
+        text: reply.text || '',
+        ts: reply.ts,
+        threadTs,
+        user: reply.user,
+        channel: channelId,
+        blocks: reply.blocks as SlackBlock[] | undefined,
+        attachments: reply.attachments as SlackAttachment[] | undefined,
+      });
+      if (amended) event = amended;
+    }
+
+    cursor = result.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+
+  return event;
+}
+
+/**
+ * Pull new messages from a channel's history into the store. Throws while
+ * Slack can't say whether the channel is private (see lookups.ts), rather
+ * than store its events with a guess; the next call picks up where this
+ * one would have.
+ */
+export async function ingestChannelHistory(
+  slackClient: WebClient,
+  channelId: string,
+  maxPages: number = DEFAULT_MAX_PAGES
+): Promise<IngestResult> {
+  const { name: channelName, visibility, guessed } = await getChannelInfo(slackClient, channelId);
+  if (guessed) throw new Error(`Couldn't look up channel ${channelId}; try again later`);
+
+  const state = getChannelSyncState(channelId);
+  const oldest = state.latestTs;
+  let cursor = state.resumeCursor;
+  let newestSeen = state.resumeLatestTs;
+
+  let messagesRead = 0;
+  let eventsStored = 0;
+  let complete = false;
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await slackCall('conversations.history', () =>
+      slackClient.conversations.history({
+        channel: channelId,
+        limit: PAGE_SIZE,
+        ...(oldest ? { oldest } : {}),
+        ...(cursor ? { cursor } : {}),
+      })
+    );
+
+    for (const msg of result.messages || []) {
+      messagesRead++;
+      newestSeen = newerTs(newestSeen, msg.ts);
+
+      // Skip thread broadcasts, joins, and other non-announcement subtypes
+      if (msg.subtype && msg.subtype !== 'bot_message' && msg.subtype !== 'file_share') continue;
+
+      let event = parseSlackMessage(
+        {
+          text: msg.text || '',
+          ts: msg.ts || '',
+          user: msg.user,
+          channel: channelId,
+          username: (msg as any).username,
+          blocks: msg.blocks as SlackBlock[] | undefined,
+          attachments: msg.attachments as SlackAttachment[] | undefined,
+          files: msg.files as SlackFile[] | undefined,
+        },
+        channelName,
+        channelId,
+        { channelVisibility: visibility }
+      );
+
+      if (event) {
+        if ((msg as any).reply_count > 0 && msg.ts) {
+          event = await amendWithThreadReplies(slackClient, channelId, event, msg.ts);
+        }
+        addEvent(event);
+        if (msg.reactions?.length) applyReactionRsvps(event.id, msg.reactions);
+        eventsStored++;
+      }
+    }
+
+    cursor = result.response_metadata?.next_cursor || undefined;
+    if (!result.has_more || !cursor) {
+      complete = true;
+      break;
+    }
+  }
+
+  if (complete) {
+    setChannelSyncState(channelId, { latestTs: newerTs(oldest, newestSeen) });
+  } else {
+    setChannelSyncState(channelId, {
+      latestTs: oldest,
+      resumeCursor: cursor,
+      resumeLatestTs: newestSeen,
+    });
+  }
+
+  return { channelName, messagesRead, eventsStored, complete };
+}
@@ -0,0 +1,25 @@
+/**
+ * Which Slack workspace the current work belongs to.
+ *
+ * One deployment can serve several workspaces (see installations.ts). Rather
+ * than threading a team id through every store call, the REST layer and the
+ * Bolt middleware run each request / Slack event inside `runWithTeam`, and
+ * the store looks the team up with `currentTeam()`.
+ *
+ * Work outside any team context (startup, the single-workspace setup with
+ * SLACK_BOT_TOKEN) belongs to DEFAULT_TEAM.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const DEFAULT_TEAM = 'default';
+
+const teamContext = new AsyncLocalStorage<string>();
+
+export function runWithTeam<T>(teamId: string, fn: () => T): T {
+  return teamContext.run(teamId, fn);
+}
+
+export function currentTeam(): string {
+  return teamContext.getStore() ?? DEFAULT_TEAM;
+}
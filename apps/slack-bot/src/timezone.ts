@@ -0,0 +1,157 @@
+/**
+ * Timezone helpers for the Slack parser.
+ *
+ * Announcements are written in the workspace's local time ("7pm Friday"), but
+ * the bot may run in a UTC container. All event times are therefore built
+ * from wall-clock parts in an explicit IANA zone, never from the server's
+ * local zone, and serialized with that zone's UTC offset.
+ *
+ * Configuration:
+ *   WORKSPACE_TIMEZONE — IANA zone for the workspace (default America/New_York)
+ *   CHANNEL_TIMEZONES  — per-channel overrides, e.g. "C123=America/Los_Angeles,C456=Europe/London"
+ */
+
+export const DEFAULT_WORKSPACE_TIMEZONE = 'America/New_York';
+
+export interface WallClock {
+  year: number;
+  month: number;   // 0-11, like Date#getMonth
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Abbreviations people write after a time ("3pm ET"). Standard/daylight
+// variants map to the region's zone: "EST" in July almost always means local time.
+export const TIMEZONE_ABBREVIATIONS: Record<string, string> = {
+  ET: 'America/New_York', EST: 'America/New_York', EDT: 'America/New_York',
+  CT: 'America/Chicago', CST: 'America/Chicago', CDT: 'America/Chicago',
+  MT: 'America/Denver', MST: 'America/Denver', MDT: 'America/Denver',
+  PT: 'America/Los_Angeles', PST: 'America/Los_Angeles', PDT: 'America/Los_Angeles',
+  UTC: 'UTC', GMT: 'UTC',
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The wall-clock reading in `timeZone` at the given instant.
+ */
+export function getWallClock(instant: Date, timeZone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in minutes (e.g. -300 for EST).
+ */
+export function getOffsetMinutes(instant: Date, timeZone: string): number {
+  const wall = getWallClock(instant, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second);
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+/**
+ * The instant at which clocks in `timeZone` read the given wall-clock time.
+ * Times skipped by a DST jump resolve to the later offset.
+ */
+export function zonedTimeToInstant(wall: WallClock, timeZone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second);
+  let instant = asUtc - getOffsetMinutes(new Date(asUtc), timeZone) * 60000;
+  // The offset can differ on the other side of a DST boundary; correct once
+  const corrected = asUtc - getOffsetMinutes(new Date(instant), timeZone) * 60000;
+  if (corrected !== instant) instant = corrected;
+  return new Date(instant);
+}
+
+function pad(value: number, width = 2): string {
+  return String(Math.abs(value)).padStart(width, '0');
+}
+
+/**
+ * ISO 8601 string for the instant as seen in `timeZone`, with its offset
+ * (e.g. "2025-11-07T19:00:00-05:00").
+ */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  const wall = getWallClock(instant, timeZone);
+  const offset = getOffsetMinutes(instant, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  return (
+    `${wall.year}-${pad(wall.month + 1)}-${pad(wall.day)}` +
+    `T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  );
+}
+
+// ─── Configuration ─────────────────────────────────────────────────────
+
+function parseChannelTimeZones(raw: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!raw) return result;
+
+  for (const entry of raw.split(',')) {
+    const [channelId, zone] = entry.split('=').map((s) => s.trim());
+    if (!channelId || !zone) continue;
+    if (isValidTimeZone(zone)) {
+      result[channelId] = zone;
+    } else {
+      console.warn(`[Timezone] Ignoring invalid timezone "${zone}" for channel ${channelId}`);
+    }
+  }
+  return result;
+}
+
+/**
+ * The timezone announcements in a channel are written in:
+ * the channel override if one is configured, else the workspace timezone.
+ */
+export function resolveTimeZone(channelId?: string, env: NodeJS.ProcessEnv = process.env): string {
+  if (channelId) {
+    const override = parseChannelTimeZones(env.CHANNEL_TIMEZONES)[channelId];
+    if (override) return override;
+  }
+
+  const workspace = env.WORKSPACE_TIMEZONE || DEFAULT_WORKSPACE_TIMEZONE;
+  if (isValidTimeZone(workspace)) return workspace;
+
+  console.warn(`[Timezone] Invalid WORKSPACE_TIMEZONE "${workspace}", using ${DEFAULT_WORKSPACE_TIMEZONE}`);
+  return DEFAULT_WORKSPACE_TIMEZONE;
+}
@@ -0,0 +1,115 @@
+/**
+ * Tests for the feed fetcher's address guard (see src/feedSources.ts).
+ *
+ * Feed URLs come from clients, so the bot must refuse any that reach its
+ * own host or network — including IPv6 spellings of private IPv4 addresses,
+ * which the URL parser rewrites (http://[::ffff:127.0.0.1]/ becomes
+ * [::ffff:7f00:1]). Only IP-literal hosts are used, so nothing is resolved
+ * or fetched.
+ *
+ * Usage:
+ *   ts-node test/feedSources/run-address-checks.ts
+ */
+
+import { checkedUrl, isPrivateAddress } from '../../src/feedSources';
+
+const PRIVATE_ADDRESSES = [
+  '0.0.0.0',
+  '0.1.2.3',
+  '10.1.2.3',
+  '100.64.0.1',
+  '127.0.0.1',
+  '169.254.169.254',
+  '172.16.0.1',
+  '172.31.255.255',
+  '192.0.0.1',
+  '192.168.1.1',
+  '198.18.0.1',
+  '198.19.255.255',
+  '224.0.0.1',
+  '255.255.255.255',
+  '::',
+  '::1',
+  '::ffff:127.0.0.1',
+  '::ffff:7f00:1',
+  '::ffff:a9fe:a9fe',
+  '64:ff9b::7f00:1',
+  '64:ff9b::808:808',
+  'fc00::1',
+  'fd12:3456::1',
+  'fe80::1',
+  'fec0::1',
+  'ff02::1',
+  'not-an-address',
+];
+
+const PUBLIC_ADDRESSES = [
+  '1.1.1.1',
+  '8.8.8.8',
+  '100.63.255.255',
+  '100.128.0.1',
+  '172.32.0.1',
+  '198.20.0.1',
+  '223.255.255.255',
+  '::ffff:8.8.8.8',
+  '::ffff:808:808',
+  '2001:4860:4860::8888',
+  '2606:4700::1111',
+];
+
+const PRIVATE_URLS = [
+  'http://127.0.0.1:48123/',
+  'http://[::1]/',
+  'http://[::ffff:127.0.0.1]:48123/',
+  'http://[::ffff:7f00:1]/',
+  'http://[::ffff:169.254.169.254]/latest/meta-data/',
+  'http://[64:ff9b::a9fe:a9fe]/',
+  'http://0.0.0.0/',
+  'http://2130706433/', // 127.0.0.1 written as a number
+  'http://0x7f.1/',
+  'webcal://[fe80::1]/calendar.ics',
+];
+
+const PUBLIC_URLS = ['https://8.8.8.8/feed.ics', 'webcal://[2606:4700::1111]/events.ics'];
+
+async function main() {
+  let total = 0;
+  let failed = 0;
+
+  function check(name: string, ok: boolean, detail = '') {
+    total++;
+    if (ok) {
+      console.log(`  ✓ ${name}`);
+    } else {
+      failed++;
+      console.log(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`);
+    }
+  }
+
+  for (const address of PRIVATE_ADDRESSES) {
+    check(`${address} is private`, isPrivateAddress(address));
+  }
+  for (const address of PUBLIC_ADDRESSES) {
+    check(`${address} is public`, !isPrivateAddress(address));
+  }
+
+  for (const url of PRIVATE_URLS) {
+    const result = await checkedUrl(url).then(
+      (target) => `accepted, connecting to ${target.address}`,
+      (error) => (error.status === 400 ? null : `rejected with ${error.status}: ${error.message}`)
+    );
+    check(`${url} is refused`, result === null, result ?? '');
+  }
+  for (const url of PUBLIC_URLS) {
+    const result = await checkedUrl(url).then(
+      () => null,
+      (error) => `rejected with ${error.status}: ${error.message}`
+    );
+    check(`${url} is allowed`, result === null, result ?? '');
+  }
+
+  console.log(`\n${total - failed}/${total} address checks passed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
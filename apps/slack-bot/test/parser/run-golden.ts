@@ -0,0 +1,128 @@
+/**
+ * Golden-file tests for the Slack message parser.
+ *
+ * Each fixture in ./fixtures is a realistic Slack announcement plus the
+ * UniversifyEvent fields the parser is expected to produce for it (or
+ * `"expected": null` for messages that should be skipped as chatter).
+ * A fixture with a `reply` applies that thread reply to the announcement,
+ * and `expected` is the event afterwards — unchanged when the reply should
+ * be ignored.
+ * The clock and timezone are fixed per fixture so the suite is deterministic
+ * regardless of when or where it runs.
+ *
+ * Usage:
+ *   pnpm test                 — diff parser output against every fixture
+ *   pnpm test -- --update     — rewrite the expected fields from current output
+ *   pnpm test -- <name>       — only run fixtures whose file name contains <name>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SlackMessage, UniversifyEvent, applyThreadReply, parseSlackMessage } from '../../src/parser';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// Frozen "now" for createdAt/updatedAt
+const FIXED_NOW = new Date('2025-11-01T12:00:00Z');
+
+// The fields a fixture pins down; everything else (ids, colors, timestamps) is boilerplate
+const GOLDEN_FIELDS = [
+  'title',
+  'startTime',
+  'endTime',
+  'location',
+  'categories',
+  'needsReview',
+  'imageUrl',
+] as const;
+
+type GoldenField = (typeof GOLDEN_FIELDS)[number];
+type Golden = Pick<UniversifyEvent, GoldenField>;
+
+interface Fixture {
+  description: string;
+  timeZone: string;
+  channel: { id: string; name: string };
+  message: Omit<SlackMessage, 'channel'>;
+  reply?: Omit<SlackMessage, 'channel'>;
+  expected: Golden | null;
+}
+
+function project(event: UniversifyEvent | null): Golden | null {
+  if (!event) return null;
+  const golden = {} as Record<GoldenField, unknown>;
+  for (const field of GOLDEN_FIELDS) golden[field] = event[field];
+  return golden as Golden;
+}
+
+function diff(expected: Golden | null, actual: Golden | null): string[] {
+  if (expected === null || actual === null) {
+    return expected === actual
+      ? []
+      : [`expected ${expected ? 'an event' : 'no event'}, got ${actual ? 'an event' : 'no event'}`];
+  }
+
+  const problems: string[] = [];
+  for (const field of GOLDEN_FIELDS) {
+    const want = JSON.stringify(expected[field]);
+    const got = JSON.stringify(actual[field]);
+    if (want !== got) problems.push(`${field}: expected ${want}, got ${got}`);
+  }
+  return problems;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const filter = args.find((a) => !a.startsWith('--'));
+
+  const files = fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .filter((f) => !filter || f.includes(filter))
+    .sort();
+
+  let failed = 0;
+
+  for (const file of files) {
+    const fullPath = path.join(FIXTURES_DIR, file);
+    const fixture: Fixture = JSON.parse(fs.readFileSync(fullPath, 'utf-8'));
+
+    const options = { timeZone: fixture.timeZone, now: FIXED_NOW };
+    let event = parseSlackMessage(
+      { ...fixture.message, channel: fixture.channel.id },
+      fixture.channel.name,
+      fixture.channel.id,
+      options
+    );
+    if (event && fixture.reply) {
+      event = applyThreadReply(event, { ...fixture.reply, channel: fixture.channel.id }, options) ?? event;
+    }
+    const actual = project(event);
+
+    if (update) {
+      fs.writeFileSync(fullPath, JSON.stringify({ ...fixture, expected: actual }, null, 2) + '\n');
+      console.log(`  updated  ${file}`);
+      continue;
+    }
+
+    const problems = diff(fixture.expected, actual);
+    if (problems.length === 0) {
+      console.log(`  ✓ ${file}`);
+    } else {
+      failed++;
+      console.log(`  ✗ ${file} — ${fixture.description}`);
+      for (const problem of problems) console.log(`      ${problem}`);
+    }
+  }
+
+  if (update) {
+    console.log(`\nUpdated ${files.length} fixture(s)`);
+    return;
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} fixtures passed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
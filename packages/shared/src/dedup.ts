@@ -0,0 +1,328 @@
+/**
+ * Duplicate event detection.
+ *
+ * The same event is often announced in several places: cross-posted to
+ * #announcements, #cs-club and #general, already in the seeded event list,
+ * or on someone's Google Calendar. Two events are duplicates when
+ *
+ *   - their times overlap, or they start within START_TOLERANCE_MS of each other,
+ *   - their titles are similar (word and character-pair overlap after
+ *     dropping emoji, punctuation and filler like "reminder"), and
+ *   - their locations don't contradict each other.
+ *
+ * A looser title match is enough when the locations clearly agree. Titles
+ * every club uses ("General Body Meeting") prove nothing on their own: those
+ * events must also share an organizer, location or description.
+ *
+ * Duplicates are merged into one canonical event that keeps its own id and
+ * lists every contributing event in `sources`, so a later update or
+ * deletion of any of them can be traced back to it.
+ *
+ * Used by the Slack bot's store and the client's EventsContext.
+ */
+
+export interface EventSourceRef {
+  id: string;      // the event id as its source knows it, e.g. `slack-C123-1700000000.000100`
+  source: string;  // slack | gcal | ics | feed | local (see sourceOfId)
+  title?: string;  // the source's own title for the event
+}
+
+/** The fields dedup looks at; both apps' event types satisfy it. */
+export interface DedupableEvent {
+  id: string;
+  title: string;
+  description: string;
+  startTime: string;  // ISO 8601
+  endTime: string;    // ISO 8601
+  location: string;
+  categories: string[];
+  tags: string[];
+  imageUrl?: string;
+  organizer?: { id: string; name: string };
+  sources?: EventSourceRef[];
+}
+
+export type LocationMatch = 'match' | 'mismatch' | 'unknown';
+
+// Cross-posts announce the same start; allow for a parser or timezone rounding off by a bit
+const START_TOLERANCE_MS = 60 * 60 * 1000;
+
+// Title similarity (0–1) needed on its own, and when the locations agree
+const TITLE_THRESHOLD = 0.8;
+const TITLE_THRESHOLD_SAME_PLACE = 0.55;
+
+// Words that say nothing about which event it is
+const FILLER_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'at', 'in', 'on', 'to', 'with', 'our', 'your', 'us',
+  'reminder', 'announcement', 'announcing', 'update', 'join', 'come', 'rsvp', 'free',
+  'today', 'tonight', 'tomorrow', 'this', 'next', 'week', 'weekend',
+]);
+
+// Words of titles any club might use; a title of only these doesn't identify an event
+const GENERIC_TITLE_WORDS = new Set([
+  'general', 'body', 'meeting', 'meetings', 'gbm', 'weekly', 'monthly', 'club', 'social', 'info',
+  'information', 'session', 'sessions', 'night', 'hours', 'office', 'study', 'group', 'kickoff',
+  'first', 'last', 'semester', 'welcome', 'back', 'mixer', 'hangout', 'potluck', 'board', 'officer',
+  'officers', 'elections', 'interest', 'new', 'member', 'members', 'orientation', 'workshop',
+]);
+
+// Placeholder organizers sources fill in when they don't know (`unknown`, `feed-unknown`, ...)
+const UNKNOWN_ORGANIZER = /(^|-)unknown$/;
+
+// Description similarity needed to tell generic titles apart
+const DESCRIPTION_THRESHOLD = 0.5;
+
+// Words that say nothing about which room it is
+const LOCATION_FILLER = new Set(['the', 'room', 'rm', 'hall', 'building', 'bldg', 'center', 'centre', 'floor']);
+
+// ─── Normalization ─────────────────────────────────────────────────────
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // accents
+    .toLowerCase()
+    .replace(/:[a-z0-9_+-]+:/g, ' ')    // Slack emoji codes
+    .replace(/[^a-z0-9]+/g, ' ')        // emoji, punctuation
+    .trim();
+}
+
+function titleWords(title: string): string[] {
+  const words = normalize(title).split(' ').filter(Boolean);
+  const meaningful = words.filter((w) => !FILLER_WORDS.has(w));
+  // A title made only of filler ("Reminder!") still has to match something
+  return meaningful.length > 0 ? meaningful : words;
+}
+
+function charPairs(text: string): string[] {
+  const compact = text.replace(/ /g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) pairs.push(compact.slice(i, i + 2));
+  return pairs;
+}
+
+// Sørensen–Dice coefficient of two multisets
+function dice(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const item of a) counts.set(item, (counts.get(item) ?? 0) + 1);
+
+  let shared = 0;
+  for (const item of b) {
+    const count = counts.get(item) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(item, count - 1);
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
+
+// ─── Similarity ────────────────────────────────────────────────────────
+
+/**
+ * How alike two titles are, from 0 (nothing in common) to 1 (same words).
+ * Takes the better of word overlap and character-pair overlap, so both
+ * reordered words and small spelling differences score well.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  // "TartanHacks" vs "TartanHacks 2025 Kickoff": every word of one is in the other
+  const setA = new Set(wordsA);
+  const setB = new Set(wordsB);
+  const [shorter, longer] = setA.size <= setB.size ? [setA, setB] : [setB, setA];
+  const contained = Array.from(shorter).every((w) => longer.has(w));
+  const containment = contained ? 0.6 + 0.4 * (shorter.size / longer.size) : 0;
+
+  return Math.max(
+    dice(wordsA, wordsB),
+    dice(charPairs(wordsA.join(' ')), charPairs(wordsB.join(' '))),
+    containment
+  );
+}
+
+/** Whether a title is only words any club's event might be called. */
+function isGenericTitle(title: string): boolean {
+  return titleWords(title).every((w) => GENERIC_TITLE_WORDS.has(w));
+}
+
+/** Whether two events have the same organizer, by id or name; false when either is a placeholder. */
+function sameOrganizer(a: DedupableEvent, b: DedupableEvent): boolean {
+  if (!a.organizer || !b.organizer) return false;
+  if (UNKNOWN_ORGANIZER.test(a.organizer.id) || UNKNOWN_ORGANIZER.test(b.organizer.id)) return false;
+  const nameA = normalize(a.organizer.name);
+  return a.organizer.id === b.organizer.id || (nameA !== '' && nameA === normalize(b.organizer.name));
+}
+
+function descriptionsMatch(a: string, b: string): boolean {
+  const wordsA = normalize(a).split(' ').filter((w) => w && !FILLER_WORDS.has(w));
+  const wordsB = normalize(b).split(' ').filter((w) => w && !FILLER_WORDS.has(w));
+  return dice(wordsA, wordsB) >= DESCRIPTION_THRESHOLD;
+}
+
+/**
+ * Whether two locations name the same place. Empty locations are
+ * `unknown`, as are events where only one side says where it is.
+ */
+export function locationMatch(a: string, b: string): LocationMatch {
+  const wordsA = normalize(a).split(' ').filter((w) => w && !LOCATION_FILLER.has(w));
+  const wordsB = normalize(b).split(' ').filter((w) => w && !LOCATION_FILLER.has(w));
+  if (wordsA.length === 0 || wordsB.length === 0) return 'unknown';
+
+  // Room numbers decide it: "GHC 4401" is "Gates Hillman 4401" but not "Gates 6115"
+  const roomsA = wordsA.filter((w) => /\d/.test(w));
+  const roomsB = wordsB.filter((w) => /\d/.test(w));
+  if (roomsA.length > 0 && roomsB.length > 0) {
+    return roomsA.some((r) => roomsB.includes(r)) ? 'match' : 'mismatch';
+  }
+
+  const setB = new Set(wordsB);
+  const shared = wordsA.filter((w) => setB.has(w)).length;
+  const containedIn = shared === Math.min(new Set(wordsA).size, setB.size);
+  return containedIn || dice(wordsA, wordsB) >= 0.5 ? 'match' : 'mismatch';
+}
+
+/** Whether two events' times overlap or they start at about the same time. */
+export function timesOverlap(
+  a: Pick<DedupableEvent, 'startTime' | 'endTime'>,
+  b: Pick<DedupableEvent, 'startTime' | 'endTime'>
+): boolean {
+  const startA = Date.parse(a.startTime);
+  const startB = Date.parse(b.startTime);
+  if (Number.isNaN(startA) || Number.isNaN(startB)) return false;
+  if (Math.abs(startA - startB) <= START_TOLERANCE_MS) return true;
+
+  const endA = Date.parse(a.endTime);
+  const endB = Date.parse(b.endTime);
+  return !Number.isNaN(endA) && !Number.isNaN(endB) && startA < endB && startB < endA;
+}
+
+/**
+ * How likely two events are the same one (0–1); 0 unless their times overlap
+ * and their locations don't contradict each other. Events with generic titles
+ * also need the same organizer, location or description.
+ */
+export function duplicateScore(a: DedupableEvent, b: DedupableEvent): number {
+  if (a.id === b.id || !timesOverlap(a, b)) return 0;
+
+  const place = locationMatch(a.location, b.location);
+  if (place === 'mismatch') return 0;
+
+  const title = titleSimilarity(a.title, b.title);
+  if (
+    (isGenericTitle(a.title) || isGenericTitle(b.title)) &&
+    place !== 'match' &&
+    !sameOrganizer(a, b) &&
+    !descriptionsMatch(a.description, b.description)
+  ) {
+    return 0;
+  }
+  if (title >= TITLE_THRESHOLD) return title;
+  if (place === 'match' && title >= TITLE_THRESHOLD_SAME_PLACE) return title;
+  return 0;
+}
+
+export function isDuplicate(a: DedupableEvent, b: DedupableEvent): boolean {
+  return duplicateScore(a, b) > 0;
+}
+
+/**
+ * The candidate `event` most likely duplicates, if any.
+ */
+export function findDuplicate<T extends DedupableEvent>(event: T, candidates: Iterable<T>): T | undefined {
+  let best: T | undefined;
+  let bestScore = 0;
+  for (const candidate of candidates) {
+    const score = duplicateScore(event, candidate);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// ─── Sources ───────────────────────────────────────────────────────────
+
+/** Where an event id comes from, by its prefix. */
+export function sourceOfId(id: string): string {
+  if (id.startsWith('slack-')) return 'slack';
+  if (id.startsWith('gcal-')) return 'gcal';
+  if (id.startsWith('ics-')) return 'ics';
+  if (id.startsWith('feed-')) return 'feed';
+  return 'local';
+}
+
+/** The events merged into `event` (just itself if it was never merged). */
+export function sourcesOf(event: Pick<DedupableEvent, 'id' | 'title' | 'sources'>): EventSourceRef[] {
+  return event.sources && event.sources.length > 0
+    ? event.sources
+    : [{ id: event.id, source: sourceOfId(event.id), title: event.title }];
+}
+
+export function hasSource(event: Pick<DedupableEvent, 'id' | 'title' | 'sources'>, id: string): boolean {
+  return sourcesOf(event).some((ref) => ref.id === id);
+}
+
+/**
+ * Drop a source from a merged event. Returns null when it was the last one.
+ */
+export function removeSource<T extends DedupableEvent>(event: T, id: string): T | null {
+  const sources = sourcesOf(event).filter((ref) => ref.id !== id);
+  if (sources.length === 0) return null;
+
+  const { sources: _previous, ...rest } = event;
+  // Back to a plain, unmerged event
+  if (sources.length === 1 && sources[0].id === event.id) return rest as T;
+  return { ...rest, sources } as T;
+}
+
+// ─── Merging ───────────────────────────────────────────────────────────
+
+function union<V>(a: V[], b: V[]): V[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+/**
+ * Fold `duplicate` into `canonical`. The canonical event keeps its id, times
+ * and title; a missing location or image and a shorter description are
+ * taken from the duplicate, categories and tags are combined, and the
+ * duplicate's sources are added to `sources` (replacing any older entry
+ * with the same id).
+ */
+export function mergeDuplicate<T extends DedupableEvent>(canonical: T, duplicate: DedupableEvent): T {
+  const incoming = sourcesOf(duplicate);
+  const incomingIds = new Set(incoming.map((ref) => ref.id));
+  const sources = [...sourcesOf(canonical).filter((ref) => !incomingIds.has(ref.id)), ...incoming];
+
+  return {
+    ...canonical,
+    location: canonical.location || duplicate.location,
+    description:
+      canonical.description.length >= duplicate.description.length ? canonical.description : duplicate.description,
+    categories: union(canonical.categories, duplicate.categories) as T['categories'],
+    tags: union(canonical.tags, duplicate.tags),
+    ...(canonical.imageUrl || duplicate.imageUrl ? { imageUrl: canonical.imageUrl || duplicate.imageUrl } : {}),
+    sources,
+  };
+}
+
+/**
+ * Collapse duplicates within a list, keeping the first of each group as the
+ * canonical event. Order is otherwise preserved.
+ */
+export function mergeDuplicateEvents<T extends DedupableEvent>(events: T[]): T[] {
+  const merged: T[] = [];
+  for (const event of events) {
+    const match = findDuplicate(event, merged);
+    if (match) {
+      merged[merged.indexOf(match)] = mergeDuplicate(match, event);
+    } else {
+      merged.push(event);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,109 @@
+/**
+ * The Universify event model.
+ *
+ * One definition of an event for both the client and the Slack bot, and the
+ * wire format of the bot's REST API. Fields after `updatedAt` are optional
+ * metadata that only some sources set. See schema.ts for checking and
+ * normalizing events that arrive as JSON.
+ */
+
+import type { EventSourceRef } from './dedup';
+
+export type EventCategory =
+  | 'Career'
+  | 'Food'
+  | 'Fun'
+  | 'Afternoon'
+  | 'Events'
+  | 'Academic'
+  | 'Networking'
+  | 'Social'
+  | 'Sports'
+  | 'Arts'
+  | 'Tech'
+  | 'Wellness';
+
+export const EVENT_CATEGORIES: readonly EventCategory[] = [
+  'Career', 'Food', 'Fun', 'Afternoon', 'Events', 'Academic',
+  'Networking', 'Social', 'Sports', 'Arts', 'Tech', 'Wellness',
+];
+
+export type RSVPStatus = 'going' | 'maybe' | 'not-going' | null;
+
+export interface RSVPCounts {
+  going: number;
+  maybe: number;
+  notGoing: number;
+}
+
+export interface Attendee {
+  userId: string;
+  status: RSVPStatus;
+  timestamp: string;
+}
+
+export interface RecurringPattern {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  endDate?: string; // last day (YYYY-MM-DD) or instant (ISO 8601) an occurrence may start
+  daysOfWeek?: number[]; // 0-6, Sunday-Saturday
+  exceptions?: RecurrenceException[];
+}
+
+/** Fields a single occurrence of a recurring event can change. */
+export type OccurrenceChanges = Partial<
+  Pick<Event, 'title' | 'description' | 'location' | 'startTime' | 'endTime' | 'capacity' | 'color' | 'imageUrl'>
+>;
+
+/**
+ * One occurrence of a recurring event that differs from the pattern:
+ * cancelled, or moved / edited (see recurrence.ts).
+ */
+export interface RecurrenceException {
+  recurrenceId: string; // the occurrence's start as the pattern generates it (ISO 8601)
+  cancelled?: boolean;
+  changes?: OccurrenceChanges;
+}
+
+export interface EventOrganizer {
+  id: string;
+  name: string;
+  type: 'club' | 'individual';
+}
+
+/**
+ * Whether an imported event's source is public, or a private channel / group
+ * DM whose events only clients authorized for it may see.
+ */
+export type ChannelVisibility = 'public' | 'private';
+
+export interface Event {
+  id: string;
+  title: string;
+  description: string;
+  startTime: string; // ISO 8601 format
+  endTime: string; // ISO 8601 format
+  location: string;
+  categories: EventCategory[];
+  organizer: EventOrganizer;
+  color: string; // Hex color code
+  rsvpEnabled: boolean;
+  rsvpCounts: RSVPCounts;
+  attendees: Attendee[];
+  attendeeVisibility: 'public' | 'private';
+  isClubEvent: boolean;
+  isSocialEvent: boolean;
+  capacity?: number;
+  recurring?: RecurringPattern;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+  imageUrl?: string;
+  confidence?: number; // classifier score (0–1) that a parsed message announces an event
+  needsReview?: boolean; // low-confidence parse that a human should confirm
+  manuallyVerified?: boolean; // imported event whose details a person confirmed at the source
+  channelVisibility?: ChannelVisibility; // of the Slack channel it was posted in
+  sources?: EventSourceRef[]; // duplicates merged into this event (see dedup.ts)
+  seriesId?: string; // on an occurrence of a recurring event: the recurring event's id
+  recurrenceId?: string; // and its start as the pattern generates it, before any change
+}
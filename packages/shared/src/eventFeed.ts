@@ -0,0 +1,45 @@
+/**
+ * Event feeds published by other calendars, in either format the app reads:
+ * iCalendar (see ical.ts) or RSS / Atom (see rss.ts).
+ */
+
+import { Event } from './event';
+import { EventDefaults } from './schema';
+import { parseICalendar } from './ical';
+import { parseRSS, rssTitle } from './rss';
+
+export type EventFeedFormat = 'ics' | 'rss';
+
+export interface ParsedEventFeed {
+  format: EventFeedFormat;
+  title: string; // the feed's own name, or '' if it has none
+  events: Event[];
+}
+
+/** Which format a feed's text is in, or null if it's neither. */
+export function detectEventFeedFormat(text: string): EventFeedFormat | null {
+  const start = text.replace(/^\uFEFF/, '').trimStart();
+  if (/^BEGIN:VCALENDAR/i.test(start)) return 'ics';
+  if (/<(rss|feed|rdf:RDF)\b/i.test(start.slice(0, 2000))) return 'rss';
+  return null;
+}
+
+/**
+ * Parse a feed in whichever format it's in. Throws if it's neither
+ * iCalendar nor RSS / Atom.
+ */
+export function parseEventFeed(text: string, defaults: Partial<EventDefaults> = {}): ParsedEventFeed {
+  const format = detectEventFeedFormat(text);
+  if (format === 'ics') {
+    const name = /^X-WR-CALNAME[^:\r\n]*:(.*)$/im.exec(text);
+    return {
+      format,
+      title: name ? name[1].replace(/\\([,;\\])/g, '$1').trim() : '',
+      events: parseICalendar(text, defaults),
+    };
+  }
+  if (format === 'rss') {
+    return { format, title: rssTitle(text), events: parseRSS(text, defaults) };
+  }
+  throw new Error('Not an iCalendar or RSS feed');
+}
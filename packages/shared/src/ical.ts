@@ -0,0 +1,570 @@
+/**
+ * iCalendar (RFC 5545) import and export.
+ *
+ * toICalendar writes events as a VCALENDAR that Apple Calendar, Outlook and
+ * Google Calendar can import; parseICalendar reads the VEVENTs of an .ics
+ * file into events.
+ *
+ *   - Times are written in UTC, except recurring events, which are written
+ *     in `options.timeZone` (TZID; by default the local zone) so their time
+ *     of day and weekdays survive DST. Servers should pass the zone their
+ *     users live in, not rely on their own. Events that run from midnight to
+ *     midnight in that zone are written as all-day (VALUE=DATE) events.
+ *   - Reading understands UTC, floating and TZID times (IANA zone names;
+ *     unknown zones are read as local time), all-day dates, DURATION,
+ *     RRULE, EXDATE and RECURRENCE-ID overrides. Rules the recurrence engine
+ *     can't express (yearly, "second Tuesday", ...) import the first
+ *     occurrence only.
+ *   - UIDs are stable (`<event id>@universify`), and SEQUENCE grows with
+ *     every edit (see sequenceOf), so subscribed calendars pick up changes.
+ *     Imported events always get `ics-<UID>` — even ones exported from
+ *     Universify, which are copies and must not be mistaken for (or sync
+ *     over) the events they were exported from.
+ */
+
+import { EVENT_CATEGORIES, Event, EventCategory, OccurrenceChanges, RecurrenceException, RecurringPattern } from './event';
+import { EventDefaults, normalizeEvent } from './schema';
+import { expandOccurrences, recurrenceUntil } from './recurrence';
+
+const PRODUCT_ID = '-//Universify//Events//EN';
+const UID_DOMAIN = '@universify';
+const IMPORT_ID_PREFIX = 'ics-';
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ICalendarOptions {
+  name?: string;            // X-WR-CALNAME, the name calendar apps show for an imported calendar
+  now?: Date;               // DTSTAMP
+  refreshMinutes?: number;  // how often subscribers should re-fetch a feed
+  timeZone?: string;        // IANA zone for recurring and all-day events; the local zone by default
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// How a property's time is written: an all-day date, local time in a zone, or UTC.
+// An all-day date is the day in `timeZone` (the local zone if unset).
+type TimeFormat = { allDay: boolean; timeZone?: string };
+
+// ─── Writing ───────────────────────────────────────────────────────────
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/** Split a line into 75-octet pieces, continued on lines starting with a space. */
+function foldLine(line: string): string {
+  const pieces: string[] = [];
+  let piece = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines spend one octet on the leading space
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(piece);
+      piece = '';
+      octets = 0;
+    }
+    piece += char;
+    octets += size;
+  }
+  pieces.push(piece);
+  return pieces.join('\r\n ');
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+function utcStamp(ms: number): string {
+  return new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** The wall clock in `timeZone` (the local zone if unset) at `ms`, read with the UTC getters. */
+function wallClock(ms: number, timeZone?: string): Date {
+  if (timeZone) return new Date(ms + zoneOffset(ms, timeZone));
+  const date = new Date(ms);
+  return new Date(
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds())
+  );
+}
+
+function dateStamp(wall: Date): string {
+  return `${wall.getUTCFullYear()}${pad(wall.getUTCMonth() + 1)}${pad(wall.getUTCDate())}`;
+}
+
+function localStamp(wall: Date): string {
+  return `${dateStamp(wall)}T${pad(wall.getUTCHours())}${pad(wall.getUTCMinutes())}${pad(wall.getUTCSeconds())}`;
+}
+
+function isUtcZone(timeZone: string): boolean {
+  return timeZone === 'UTC' || timeZone === 'Etc/UTC';
+}
+
+function localTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function timeProperty(name: string, ms: number, format: TimeFormat): string {
+  if (format.allDay) return `${name};VALUE=DATE:${dateStamp(wallClock(ms, format.timeZone))}`;
+  if (format.timeZone && !isUtcZone(format.timeZone)) {
+    return `${name};TZID=${format.timeZone}:${localStamp(wallClock(ms, format.timeZone))}`;
+  }
+  return `${name}:${utcStamp(ms)}`;
+}
+
+function isMidnight(ms: number, timeZone?: string): boolean {
+  return wallClock(ms, timeZone).getTime() % DAY_MS === 0;
+}
+
+function isAllDay(event: Event, timeZone?: string): boolean {
+  const start = Date.parse(event.startTime);
+  const end = Date.parse(event.endTime);
+  return end > start && isMidnight(start, timeZone) && isMidnight(end, timeZone);
+}
+
+function uidOf(event: Event): string {
+  return event.seriesId && event.recurrenceId
+    ? `${event.seriesId}-${utcStamp(Date.parse(event.recurrenceId))}${UID_DOMAIN}`
+    : `${event.id}${UID_DOMAIN}`;
+}
+
+/**
+ * SEQUENCE for an event: seconds between its creation and last update.
+ * Every edit moves updatedAt forward, so it only ever grows.
+ */
+function sequenceOf(event: Event): number {
+  return Math.max(0, Math.floor((Date.parse(event.updatedAt) - Date.parse(event.createdAt)) / 1000));
+}
+
+function ruleOf(pattern: RecurringPattern, format: TimeFormat): string {
+  const parts = [`FREQ=${pattern.frequency.toUpperCase()}`];
+  if (pattern.interval > 1) parts.push(`INTERVAL=${Math.floor(pattern.interval)}`);
+  if (pattern.frequency === 'weekly' && pattern.daysOfWeek?.length) {
+    parts.push(`BYDAY=${pattern.daysOfWeek.map((day) => WEEKDAYS[day]).join(',')}`);
+  }
+  const until = recurrenceUntil(pattern);
+  if (Number.isFinite(until)) {
+    // UNTIL is a date for all-day events and UTC otherwise (RFC 5545 3.3.10)
+    parts.push(`UNTIL=${format.allDay ? dateStamp(wallClock(until, format.timeZone)) : utcStamp(until)}`);
+  }
+  return `RRULE:${parts.join(';')}`;
+}
+
+/** SUMMARY, DESCRIPTION, LOCATION and CATEGORIES of an event */
+function describe(fields: Pick<Event, 'title' | 'description' | 'location'> & Partial<Pick<Event, 'categories' | 'tags'>>): string[] {
+  const lines = [`SUMMARY:${escapeText(fields.title)}`];
+  if (fields.description) lines.push(`DESCRIPTION:${escapeText(fields.description)}`);
+  if (fields.location) lines.push(`LOCATION:${escapeText(fields.location)}`);
+  const categories = [...(fields.categories ?? []), ...(fields.tags ?? [])];
+  if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+  return lines;
+}
+
+function eventLines(event: Event, stamp: string, timeZone: string | undefined): string[] {
+  const start = Date.parse(event.startTime);
+  const end = Date.parse(event.endTime);
+  const duration = end - start;
+  // Weekdays (BYDAY) and times of day of a series are those of `timeZone`
+  const format: TimeFormat = isAllDay(event, timeZone)
+    ? { allDay: true, timeZone }
+    : { allDay: false, timeZone: event.recurring ? timeZone : undefined };
+  const uid = `UID:${uidOf(event)}`;
+  const sequence = `SEQUENCE:${sequenceOf(event)}`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    uid,
+    `DTSTAMP:${stamp}`,
+    timeProperty('DTSTART', start, format),
+    timeProperty('DTEND', end, format),
+    ...describe(event),
+    `CREATED:${utcStamp(Date.parse(event.createdAt))}`,
+    `LAST-MODIFIED:${utcStamp(Date.parse(event.updatedAt))}`,
+    sequence,
+  ];
+  if (event.recurring) {
+    lines.push(ruleOf(event.recurring, format));
+    for (const exception of event.recurring.exceptions ?? []) {
+      if (exception.cancelled) lines.push(timeProperty('EXDATE', Date.parse(exception.recurrenceId), format));
+    }
+  }
+  lines.push('END:VEVENT');
+
+  // Edited occurrences follow as VEVENTs of their own with the same UID
+  for (const exception of event.recurring?.exceptions ?? []) {
+    if (exception.cancelled || !exception.changes) continue;
+    const original = Date.parse(exception.recurrenceId);
+    const changed = { ...event, ...exception.changes };
+    lines.push(
+      'BEGIN:VEVENT',
+      uid,
+      `DTSTAMP:${stamp}`,
+      sequence,
+      timeProperty('RECURRENCE-ID', original, format),
+      timeProperty('DTSTART', exception.changes.startTime ? Date.parse(exception.changes.startTime) : original, format),
+      timeProperty('DTEND', exception.changes.endTime ? Date.parse(exception.changes.endTime) : original + duration, format),
+      ...describe({ title: changed.title, description: changed.description, location: changed.location }),
+      'END:VEVENT',
+    );
+  }
+  return lines;
+}
+
+/** Events as an iCalendar file (CRLF line endings, as RFC 5545 requires). */
+export function toICalendar(events: Event[], options: ICalendarOptions = {}): string {
+  const stamp = utcStamp((options.now ?? new Date()).getTime());
+  const timeZone = options.timeZone ?? localTimeZone();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    ...(options.refreshMinutes
+      ? [
+          `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+          `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`,
+        ]
+      : []),
+    ...events.flatMap((event) => eventLines(event, stamp, timeZone)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ─── Reading ───────────────────────────────────────────────────────────
+
+function unfold(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+/** `NAME;PARAM=value;PARAM="quoted":value`, or null for a malformed line. */
+function parseContentLine(line: string): ContentLine | null {
+  const segments: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === ';') {
+      segments.push(current);
+      current = '';
+      continue;
+    } else if (!quoted && char === ':') {
+      segments.push(current);
+      const [name, ...params] = segments;
+      const parsed: Record<string, string> = {};
+      for (const param of params) {
+        const eq = param.indexOf('=');
+        if (eq > 0) parsed[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/"/g, '');
+      }
+      return { name: name.toUpperCase(), params: parsed, value: line.slice(i + 1) };
+    }
+    current += char;
+  }
+  return null;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/** Split a TEXT list on commas that aren't escaped. */
+function splitList(value: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  items.push(current);
+  return items.map((item) => unescapeText(item).trim()).filter(Boolean);
+}
+
+/** The content lines of each VEVENT, leaving out nested components such as VALARM. */
+function readEvents(text: string): ContentLine[][] {
+  const events: ContentLine[][] = [];
+  let current: ContentLine[] | null = null;
+  let nested = 0;
+
+  for (const raw of unfold(text)) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    const component = line.value.trim().toUpperCase();
+    if (line.name === 'BEGIN') {
+      if (current) nested++;
+      else if (component === 'VEVENT') current = [];
+    } else if (line.name === 'END') {
+      if (current && nested > 0) nested--;
+      else if (current && component === 'VEVENT') {
+        events.push(current);
+        current = null;
+      }
+    } else if (current && nested === 0) {
+      current.push(line);
+    }
+  }
+  return events;
+}
+
+/** How far `timeZone`'s wall clock is ahead of UTC at `utcMs`. */
+function zoneOffset(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wall - Math.floor(utcMs / 1000) * 1000;
+}
+
+/** A time parsed from a DATE or DATE-TIME value, in ms. */
+function parseTimeValue(value: string, params: Record<string, string>): { ms: number; allDay: boolean } | null {
+  const date = /^(\d{4})(\d{2})(\d{2})$/.exec(value.trim());
+  if (date) return { ms: new Date(+date[1], +date[2] - 1, +date[3]).getTime(), allDay: true };
+
+  const time = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value.trim());
+  if (!time) return null;
+  const [year, month, day, hour, minute, second] = time.slice(1, 7).map(Number);
+  if (time[7]) return { ms: Date.UTC(year, month - 1, day, hour, minute, second), allDay: false };
+
+  const timeZone = params.TZID?.replace(/^\//, '');
+  if (timeZone) {
+    try {
+      // Two passes, so a time just after a DST change uses the offset in force then
+      const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+      const guess = wall - zoneOffset(wall, timeZone);
+      return { ms: wall - zoneOffset(guess, timeZone), allDay: false };
+    } catch {
+      // Not a zone this runtime knows (e.g. a Windows name); read as local time
+    }
+  }
+  return { ms: new Date(year, month - 1, day, hour, minute, second).getTime(), allDay: false };
+}
+
+function parseTime(line: ContentLine | undefined): { ms: number; allDay: boolean } | null {
+  return line ? parseTimeValue(line.value, line.params) : null;
+}
+
+/** A DURATION value in ms, e.g. `PT1H30M` or `P1D`. */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((+(weeks ?? 0) * 7 + +(days ?? 0)) * 24 * 3600 + +(hours ?? 0) * 3600 + +(minutes ?? 0) * 60 + +(seconds ?? 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * An RRULE as a recurring pattern, plus its COUNT; null for rules the
+ * recurrence engine can't express.
+ */
+function parseRule(value: string, start: Date): { pattern: RecurringPattern; count?: number } | null {
+  const rule: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val !== undefined) rule[key.toUpperCase()] = val.toUpperCase();
+  }
+
+  const frequencies: Record<string, RecurringPattern['frequency']> = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' };
+  const frequency = frequencies[rule.FREQ];
+  if (!frequency) return null;
+  const supported = ['FREQ', 'INTERVAL', 'UNTIL', 'COUNT', 'BYDAY', 'BYMONTHDAY', 'WKST'];
+  if (Object.keys(rule).some((key) => !supported.includes(key))) return null;
+
+  const pattern: RecurringPattern = { frequency, interval: Math.max(1, parseInt(rule.INTERVAL, 10) || 1) };
+
+  if (rule.BYDAY) {
+    const days = rule.BYDAY.split(',').map((day) => WEEKDAYS.indexOf(day));
+    // Only plain weekdays of a weekly rule; "2TU" and the like have no equivalent
+    if (frequency !== 'weekly' || days.some((day) => day < 0)) return null;
+    pattern.daysOfWeek = days;
+  }
+  if (rule.BYMONTHDAY && !(frequency === 'monthly' && +rule.BYMONTHDAY === start.getDate())) return null;
+
+  if (rule.UNTIL) {
+    const until = parseTimeValue(rule.UNTIL, {});
+    if (until) {
+      const end = new Date(until.ms);
+      pattern.endDate = until.allDay
+        ? `${end.getFullYear()}-${pad(end.getMonth() + 1)}-${pad(end.getDate())}`
+        : end.toISOString();
+    }
+  }
+
+  const count = parseInt(rule.COUNT, 10);
+  return { pattern, ...(count > 0 ? { count } : {}) };
+}
+
+function matchCategory(value: string): EventCategory | undefined {
+  return EVENT_CATEGORIES.find((category) => category.toLowerCase() === value.toLowerCase());
+}
+
+function importedId(uid: string): string {
+  return `${IMPORT_ID_PREFIX}${uid}`;
+}
+
+interface Override {
+  uid: string;
+  recurrenceId: string;
+  cancelled: boolean;
+  changes: OccurrenceChanges;
+}
+
+/**
+ * The events in an iCalendar file. Anything the file doesn't say (color,
+ * organizer, ...) comes from `defaults`. Cancelled events, VEVENTs without
+ * a usable DTSTART and overrides of series the file doesn't contain are
+ * skipped.
+ */
+export function parseICalendar(text: string, defaults: Partial<EventDefaults> = {}): Event[] {
+  const events = new Map<string, Event>();
+  const overrides: Override[] = [];
+
+  for (const lines of readEvents(text)) {
+    const get = (name: string) => lines.find((line) => line.name === name);
+    const textOf = (name: string) => {
+      const line = get(name);
+      return line ? unescapeText(line.value).trim() : '';
+    };
+
+    const start = parseTime(get('DTSTART'));
+    if (!start) continue;
+    const end = parseTime(get('DTEND'));
+    const duration = get('DURATION') ? parseDuration(get('DURATION')!.value) : null;
+    let endMs = end?.ms ?? (duration !== null ? start.ms + duration : start.ms);
+    if (!end && duration === null && start.allDay) {
+      // An all-day event without an end lasts the day
+      const next = new Date(start.ms);
+      next.setDate(next.getDate() + 1);
+      endMs = next.getTime();
+    }
+
+    const uid = textOf('UID') || `${get('DTSTART')!.value}-${textOf('SUMMARY')}`;
+    const cancelled = textOf('STATUS').toUpperCase() === 'CANCELLED';
+
+    const recurrenceId = parseTime(get('RECURRENCE-ID'));
+    if (recurrenceId) {
+      overrides.push({
+        uid,
+        recurrenceId: new Date(recurrenceId.ms).toISOString(),
+        cancelled,
+        changes: {
+          ...(textOf('SUMMARY') ? { title: textOf('SUMMARY') } : {}),
+          ...(get('DESCRIPTION') ? { description: textOf('DESCRIPTION') } : {}),
+          ...(get('LOCATION') ? { location: textOf('LOCATION') } : {}),
+          startTime: new Date(start.ms).toISOString(),
+          endTime: new Date(endMs).toISOString(),
+        },
+      });
+      continue;
+    }
+    if (cancelled) continue;
+
+    const labels = lines.filter((line) => line.name === 'CATEGORIES').flatMap((line) => splitList(line.value));
+    const categories = labels.map(matchCategory).filter((c): c is EventCategory => c !== undefined);
+    const tags = labels.filter((label) => !matchCategory(label));
+
+    const organizer = get('ORGANIZER');
+    const organizerName = organizer?.params.CN || organizer?.value.replace(/^mailto:/i, '');
+
+    let recurring: RecurringPattern | undefined;
+    const rule = get('RRULE') && parseRule(get('RRULE')!.value, new Date(start.ms));
+    if (rule) {
+      recurring = rule.pattern;
+      const exdates = lines
+        .filter((line) => line.name === 'EXDATE')
+        .flatMap((line) => line.value.split(',').map((value) => parseTimeValue(value, line.params)))
+        .filter((time): time is { ms: number; allDay: boolean } => time !== null);
+      const exceptions: RecurrenceException[] = exdates.map((time) => ({
+        recurrenceId: new Date(time.ms).toISOString(),
+        cancelled: true,
+      }));
+      if (exceptions.length > 0) recurring.exceptions = exceptions;
+    }
+
+    const created = parseTime(get('CREATED'));
+    const modified = parseTime(get('LAST-MODIFIED')) ?? parseTime(get('DTSTAMP'));
+    const event = normalizeEvent(
+      {
+        id: importedId(uid),
+        title: textOf('SUMMARY') || 'Untitled event',
+        description: textOf('DESCRIPTION'),
+        location: textOf('LOCATION'),
+        startTime: new Date(start.ms).toISOString(),
+        endTime: new Date(Math.max(endMs, start.ms)).toISOString(),
+        ...(categories.length > 0 ? { categories } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(organizerName ? { organizer: { id: `${IMPORT_ID_PREFIX}${organizerName}`, name: organizerName } } : {}),
+        ...(recurring ? { recurring } : {}),
+        ...(created ? { createdAt: new Date(created.ms).toISOString() } : {}),
+        ...(modified ? { updatedAt: new Date(modified.ms).toISOString() } : {}),
+      },
+      defaults,
+    );
+    if (!event) continue;
+
+    // COUNT ends the series at its COUNTth occurrence (cancelled ones included)
+    if (rule && rule.count && event.recurring) {
+      const withoutExceptions = { ...event, recurring: { ...event.recurring, exceptions: undefined } };
+      const occurrences = expandOccurrences(withoutExceptions, new Date(start.ms), new Date(8.64e15)).slice(0, rule.count);
+      const last = occurrences[occurrences.length - 1];
+      if (last) event.recurring = { ...event.recurring, endDate: last.startTime };
+    }
+    events.set(uid, event);
+  }
+
+  for (const override of overrides) {
+    const series = events.get(override.uid);
+    if (!series?.recurring) continue;
+    const exception: RecurrenceException = override.cancelled
+      ? { recurrenceId: override.recurrenceId, cancelled: true }
+      : { recurrenceId: override.recurrenceId, changes: override.changes };
+    const others = (series.recurring.exceptions ?? []).filter(
+      (e) => Date.parse(e.recurrenceId) !== Date.parse(override.recurrenceId),
+    );
+    events.set(override.uid, { ...series, recurring: { ...series.recurring, exceptions: [...others, exception] } });
+  }
+
+  return [...events.values()];
+}
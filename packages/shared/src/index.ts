@@ -0,0 +1,8 @@
+export * from './event';
+export * from './schema';
+export * from './rsvp';
+export * from './dedup';
+export * from './recurrence';
+export * from './ical';
+export * from './rss';
+export * from './eventFeed';
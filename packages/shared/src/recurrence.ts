@@ -0,0 +1,350 @@
+/**
+ * Recurring events.
+ *
+ * A recurring event is stored once, as its first occurrence plus a
+ * `recurring` pattern. expandEvents turns it into the occurrences that fall
+ * in a window, each a plain event with its own id (`<series id>::<start>`),
+ * `seriesId` and `recurrenceId`, so views can treat them like any other
+ * event.
+ *
+ *   - daily / weekly / monthly repeat every `interval` days, weeks or months
+ *     at the first occurrence's local time of day.
+ *   - weekly with `daysOfWeek` repeats on those weekdays of every
+ *     `interval`th week (weeks start on Sunday).
+ *   - monthly repeats on the first occurrence's day of the month, skipping
+ *     months that don't have it.
+ *   - `endDate` is the last day (or instant) an occurrence may start.
+ *
+ * Single occurrences differ from the pattern through `exceptions`, keyed by
+ * the start the pattern gives them: cancelled, or with `changes` such as a
+ * new time or location. updateSeries / deleteFromSeries apply an edit to
+ * one occurrence, to it and the ones after it, or to the whole series.
+ *
+ * Used by the client's views and EventsContext.
+ */
+
+import { Event, OccurrenceChanges, RecurrenceException, RecurringPattern } from './event';
+
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+const OCCURRENCE_ID_SEPARATOR = '::';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Caps one expansion, so a daily series over a huge window can't hang a view
+const MAX_OCCURRENCES = 1000;
+
+const OCCURRENCE_FIELDS: readonly (keyof OccurrenceChanges)[] = [
+  'title', 'description', 'location', 'startTime', 'endTime', 'capacity', 'color', 'imageUrl',
+];
+
+export function isRecurring(event: Pick<Event, 'recurring'>): boolean {
+  return event.recurring !== undefined;
+}
+
+export function occurrenceId(seriesId: string, recurrenceId: string): string {
+  return `${seriesId}${OCCURRENCE_ID_SEPARATOR}${recurrenceId}`;
+}
+
+/** The series and occurrence an occurrence id points at, or null for any other id. */
+export function parseOccurrenceId(id: string): { seriesId: string; recurrenceId: string } | null {
+  const at = id.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (at <= 0) return null;
+  const recurrenceId = id.slice(at + OCCURRENCE_ID_SEPARATOR.length);
+  if (Number.isNaN(Date.parse(recurrenceId))) return null;
+  return { seriesId: id.slice(0, at), recurrenceId };
+}
+
+// ─── Pattern ───────────────────────────────────────────────────────────
+
+/** The last instant an occurrence may start; a bare date means the end of that day. */
+export function recurrenceUntil(pattern: RecurringPattern): number {
+  if (!pattern.endDate) return Infinity;
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(pattern.endDate);
+  if (day) return new Date(+day[1], +day[2] - 1, +day[3], 23, 59, 59, 999).getTime();
+  const until = Date.parse(pattern.endDate);
+  return Number.isNaN(until) ? Infinity : until;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(date.getDate() + days);
+  return result;
+}
+
+/** The starts step `k` of the pattern generates, in order. */
+function stepStarts(first: Date, pattern: RecurringPattern, k: number): Date[] {
+  const interval = Math.max(1, Math.floor(pattern.interval));
+  switch (pattern.frequency) {
+    case 'daily':
+      return [addDays(first, k * interval)];
+    case 'weekly': {
+      if (!pattern.daysOfWeek?.length) return [addDays(first, 7 * k * interval)];
+      const week = addDays(first, 7 * k * interval - first.getDay());
+      return [...new Set(pattern.daysOfWeek)].sort((a, b) => a - b).map((day) => addDays(week, day));
+    }
+    case 'monthly': {
+      const date = new Date(first);
+      date.setDate(1);
+      date.setMonth(first.getMonth() + k * interval);
+      date.setDate(first.getDate());
+      return date.getDate() === first.getDate() ? [date] : [];
+    }
+  }
+}
+
+/** A step safely before the one that reaches `from`, so expansion needn't start at the first. */
+function firstStep(first: Date, pattern: RecurringPattern, from: number): number {
+  const interval = Math.max(1, Math.floor(pattern.interval));
+  const elapsed = from - first.getTime();
+  if (elapsed <= 0) return 0;
+  switch (pattern.frequency) {
+    case 'daily':
+      return Math.max(0, Math.floor(elapsed / (interval * DAY_MS)) - 1);
+    case 'weekly':
+      return Math.max(0, Math.floor(elapsed / (7 * interval * DAY_MS)) - 1);
+    case 'monthly': {
+      const to = new Date(from);
+      const months = (to.getFullYear() - first.getFullYear()) * 12 + to.getMonth() - first.getMonth();
+      return Math.max(0, Math.floor(months / interval) - 1);
+    }
+  }
+}
+
+/** Starts the pattern generates in [from, to), ignoring exceptions. */
+function patternStarts(series: Event, from: number, to: number, limit = MAX_OCCURRENCES): Date[] {
+  const pattern = series.recurring;
+  const first = new Date(series.startTime);
+  if (!pattern || Number.isNaN(first.getTime())) return [];
+
+  const end = Math.min(to, recurrenceUntil(pattern) + 1);
+  const starts: Date[] = [];
+  const k0 = firstStep(first, pattern, from);
+  // A monthly series on the 31st has steps without a start; bound the empty ones too
+  for (let k = k0; k < k0 + 10 * MAX_OCCURRENCES; k++) {
+    for (const start of stepStarts(first, pattern, k)) {
+      const ms = start.getTime();
+      if (ms >= end) return starts;
+      if (ms < first.getTime() || ms < from) continue;
+      starts.push(start);
+      if (starts.length >= limit) return starts;
+    }
+  }
+  return starts;
+}
+
+function durationOf(event: Event): number {
+  return Math.max(0, Date.parse(event.endTime) - Date.parse(event.startTime));
+}
+
+function findException(series: Event, recurrenceId: string): RecurrenceException | undefined {
+  const ms = Date.parse(recurrenceId);
+  return series.recurring?.exceptions?.find((e) => Date.parse(e.recurrenceId) === ms);
+}
+
+/** Whether the pattern has an occurrence starting at `recurrenceId`. */
+function generates(series: Event, recurrenceId: string): boolean {
+  const ms = Date.parse(recurrenceId);
+  return patternStarts(series, ms, ms + 1, 1).length === 1;
+}
+
+// ─── Expansion ─────────────────────────────────────────────────────────
+
+function occurrenceAt<T extends Event>(series: T, start: Date, exception?: RecurrenceException): T {
+  const { recurring: _recurring, ...fields } = series;
+  const recurrenceId = start.toISOString();
+  // A new start without a new end keeps the series' duration
+  const startTime = exception?.changes?.startTime ?? recurrenceId;
+  return {
+    ...fields,
+    id: occurrenceId(series.id, recurrenceId),
+    seriesId: series.id,
+    recurrenceId,
+    startTime,
+    endTime: new Date(Date.parse(startTime) + durationOf(series)).toISOString(),
+    ...exception?.changes,
+  } as T;
+}
+
+function overlaps(event: Event, from: number, to: number): boolean {
+  const start = Date.parse(event.startTime);
+  const end = Date.parse(event.endTime);
+  return start < to && (end > from || (end === start && start >= from));
+}
+
+/**
+ * The occurrences of a recurring event that overlap [from, to), with
+ * exceptions applied, in start order. Moved occurrences count where they
+ * moved to.
+ */
+export function expandOccurrences<T extends Event>(series: T, from: Date, to: Date): T[] {
+  if (!series.recurring) return [];
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+
+  const starts = patternStarts(series, fromMs - durationOf(series), toMs);
+  const seen = new Set(starts.map((start) => start.getTime()));
+  const occurrences: T[] = [];
+
+  for (const start of starts) {
+    const exception = findException(series, start.toISOString());
+    if (exception?.cancelled) continue;
+    occurrences.push(occurrenceAt(series, start, exception));
+  }
+  // Occurrences moved into the window from outside it
+  for (const exception of series.recurring.exceptions ?? []) {
+    if (exception.cancelled || !exception.changes?.startTime) continue;
+    if (seen.has(Date.parse(exception.recurrenceId)) || !generates(series, exception.recurrenceId)) continue;
+    occurrences.push(occurrenceAt(series, new Date(exception.recurrenceId), exception));
+  }
+
+  return occurrences
+    .filter((occurrence) => overlaps(occurrence, fromMs, toMs))
+    .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+}
+
+/**
+ * Events for a window: each recurring event becomes its occurrences that
+ * overlap [from, to); other events are passed through for the caller to
+ * filter as before.
+ */
+export function expandEvents<T extends Event>(events: T[], from: Date, to: Date): T[] {
+  return events.flatMap((event) => (event.recurring ? expandOccurrences(event, from, to) : [event]));
+}
+
+/** One occurrence of a series, or undefined if it doesn't have it (or it was cancelled). */
+export function getOccurrence<T extends Event>(series: T, recurrenceId: string): T | undefined {
+  if (!series.recurring || !generates(series, recurrenceId)) return undefined;
+  const exception = findException(series, recurrenceId);
+  return exception?.cancelled ? undefined : occurrenceAt(series, new Date(recurrenceId), exception);
+}
+
+/** The first occurrence that starts after `after`, if there is one. */
+export function nextOccurrence<T extends Event>(series: T, after: Date = new Date()): T | undefined {
+  if (!series.recurring) return undefined;
+  let from = after.getTime();
+  // Look a year at a time, so a far-off end date doesn't expand everything at once
+  for (let i = 0; i < 10; i++) {
+    const to = from + 366 * DAY_MS;
+    const occurrence = expandOccurrences(series, new Date(from), new Date(to))
+      .find((o) => Date.parse(o.startTime) > after.getTime());
+    if (occurrence) return occurrence;
+    if (to > recurrenceUntil(series.recurring)) return undefined;
+    from = to;
+  }
+  return undefined;
+}
+
+// ─── Editing ───────────────────────────────────────────────────────────
+
+function withExceptions<T extends Event>(series: T, exceptions: RecurrenceException[]): T {
+  const recurring = { ...series.recurring! };
+  if (exceptions.length > 0) recurring.exceptions = exceptions;
+  else delete recurring.exceptions;
+  return { ...series, recurring };
+}
+
+function setException<T extends Event>(series: T, exception: RecurrenceException): T {
+  const ms = Date.parse(exception.recurrenceId);
+  const others = (series.recurring?.exceptions ?? []).filter((e) => Date.parse(e.recurrenceId) !== ms);
+  return withExceptions(series, [...others, exception]);
+}
+
+function pickOccurrenceChanges(updates: Partial<Event>): OccurrenceChanges {
+  const changes: Record<string, unknown> = {};
+  for (const field of OCCURRENCE_FIELDS) {
+    if (updates[field] !== undefined) changes[field] = updates[field];
+  }
+  return changes as OccurrenceChanges;
+}
+
+/** The series without the occurrence at `recurrenceId` and those after it; null if none are left. */
+function endBefore<T extends Event>(series: T, recurrenceId: string): T | null {
+  const ms = Date.parse(recurrenceId);
+  if (ms <= Date.parse(series.startTime)) return null;
+  const kept = (series.recurring?.exceptions ?? []).filter((e) => Date.parse(e.recurrenceId) < ms);
+  const truncated = withExceptions(series, kept);
+  return { ...truncated, recurring: { ...truncated.recurring!, endDate: new Date(ms - 1).toISOString() } };
+}
+
+/**
+ * Apply updates made to `occurrence` to its whole series. A changed start
+ * or end moves every occurrence by the same amount.
+ */
+function applyToSeries<T extends Event>(series: T, occurrence: T, updates: Partial<Event>): T {
+  const { startTime, endTime, id: _id, seriesId: _seriesId, recurrenceId: _recurrenceId, ...rest } = updates;
+  const result: T = { ...series, ...rest };
+  const shift = startTime ? Date.parse(startTime) - Date.parse(occurrence.startTime) : 0;
+  const newStart = Date.parse(series.startTime) + shift;
+  const duration = endTime
+    ? Date.parse(endTime) - Date.parse(startTime ?? occurrence.startTime)
+    : durationOf(series);
+
+  result.startTime = new Date(newStart).toISOString();
+  result.endTime = new Date(newStart + duration).toISOString();
+  if (shift !== 0 && result.recurring?.exceptions) {
+    result.recurring = {
+      ...result.recurring,
+      exceptions: result.recurring.exceptions.map((e) => ({
+        ...e,
+        recurrenceId: new Date(Date.parse(e.recurrenceId) + shift).toISOString(),
+      })),
+    };
+  }
+  return result;
+}
+
+/**
+ * Edit one occurrence of a series, it and the ones after it, or all of it.
+ *
+ *   - this: only the occurrence changes. Just its title, description,
+ *     location, times, capacity, color and image can differ from the series.
+ *   - following: the series ends before the occurrence, and a new series
+ *     (`newSeriesId`) with the updates continues from it.
+ *   - all: the series changes; see applyToSeries for times.
+ *
+ * Returns the updated series and, for `following`, the new one.
+ */
+export function updateSeries<T extends Event>(
+  series: T,
+  recurrenceId: string,
+  updates: Partial<Event>,
+  scope: RecurrenceScope,
+  newSeriesId: string,
+): { series: T; created?: T } {
+  const occurrence = getOccurrence(series, recurrenceId) ?? occurrenceAt(series, new Date(recurrenceId));
+
+  if (scope === 'this') {
+    const changes = { ...findException(series, recurrenceId)?.changes, ...pickOccurrenceChanges(updates) };
+    return { series: setException(series, { recurrenceId: occurrence.recurrenceId!, changes }) };
+  }
+
+  const truncated = scope === 'following' ? endBefore(series, recurrenceId) : null;
+  if (!truncated) return { series: applyToSeries(series, occurrence, updates) };
+
+  const ms = Date.parse(recurrenceId);
+  const rest = withExceptions(series, (series.recurring?.exceptions ?? []).filter((e) => Date.parse(e.recurrenceId) >= ms));
+  const start = new Date(ms).toISOString();
+  const continued: T = {
+    ...rest,
+    id: newSeriesId,
+    startTime: start,
+    endTime: new Date(ms + durationOf(series)).toISOString(),
+  };
+  const firstOfContinued = { ...occurrence, startTime: start, endTime: continued.endTime };
+  return { series: truncated, created: applyToSeries(continued, firstOfContinued, updates) };
+}
+
+/**
+ * Delete one occurrence of a series, it and the ones after it, or all of
+ * it. Returns what is left of the series, or null when nothing is.
+ */
+export function deleteFromSeries<T extends Event>(series: T, recurrenceId: string, scope: RecurrenceScope): T | null {
+  switch (scope) {
+    case 'this':
+      return setException(series, { recurrenceId: new Date(recurrenceId).toISOString(), cancelled: true });
+    case 'following':
+      return endBefore(series, recurrenceId);
+    case 'all':
+      return null;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * RSS 2.0 and Atom event feeds.
+ *
+ * Many campus calendars publish their events as RSS or Atom, one item per
+ * event. parseRSS reads the items into events:
+ *
+ *   - The event's time comes from the RSS event module (ev:startdate,
+ *     ev:enddate) or xCal (xCal:dtstart, xCal:dtend) when the feed has them,
+ *     and from the item's publication date otherwise. Events without an end
+ *     last an hour.
+ *   - Categories that name an EventCategory become categories; the rest
+ *     become tags. HTML in descriptions is reduced to text, and the item's
+ *     link is added to the description.
+ *   - Ids are `rss-<guid>` (or the link, for items without a guid), so they
+ *     stay the same from one fetch to the next.
+ *
+ * The reader only looks for the elements it needs; it is not a full XML
+ * parser.
+ */
+
+import { EVENT_CATEGORIES, Event, EventCategory } from './event';
+import { EventDefaults, normalizeEvent } from './schema';
+
+const IMPORT_ID_PREFIX = 'rss-';
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+
+// ─── Reading XML ───────────────────────────────────────────────────────
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Element content as text: CDATA sections kept as they are, entities decoded elsewhere
+function contentText(raw: string): string {
+  return raw
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) => (part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part)))
+    .join('')
+    .trim();
+}
+
+function escapeName(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The elements named `name` (with or without a namespace prefix when `name` has none)
+function elements(xml: string, name: string): { attrs: string; content: string }[] {
+  const tag = name.includes(':') ? escapeName(name) : `(?:[\\w-]+:)?${escapeName(name)}`;
+  const pattern = new RegExp(`<(${tag})(\\s[^>]*?)?(?:\\/>|>([\\s\\S]*?)<\\/\\1\\s*>)`, 'gi');
+  return [...xml.matchAll(pattern)].map((match) => ({ attrs: match[2] ?? '', content: match[3] ?? '' }));
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${escapeName(name)}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i').exec(attrs);
+  return match ? decodeEntities(match[2] ?? match[3]) : undefined;
+}
+
+function textOf(xml: string, ...names: string[]): string {
+  for (const name of names) {
+    const element = elements(xml, name)[0];
+    const text = element && contentText(element.content);
+    if (text) return text;
+  }
+  return '';
+}
+
+// HTML descriptions as plain text
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(br|\/p|\/div|\/li)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, ''),
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ─── Dates ─────────────────────────────────────────────────────────────
+
+// RFC 822 (RSS), ISO 8601 (Atom, ev:) or the compact xCal form (20240105T180000Z)
+function parseDate(value: string): number | null {
+  const compact = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (compact) {
+    const [, y, mo, d, h = '0', mi = '0', s = '0', utc] = compact;
+    const parts = [+y, +mo - 1, +d, +h, +mi, +s] as const;
+    return utc ? Date.UTC(...parts) : new Date(...parts).getTime();
+  }
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+function dateOf(xml: string, ...names: string[]): number | null {
+  for (const name of names) {
+    const value = textOf(xml, name);
+    const ms = value ? parseDate(value) : null;
+    if (ms !== null) return ms;
+  }
+  return null;
+}
+
+// ─── Items ─────────────────────────────────────────────────────────────
+
+function matchCategory(value: string): EventCategory | undefined {
+  return EVENT_CATEGORIES.find((category) => category.toLowerCase() === value.toLowerCase());
+}
+
+function linkOf(item: string): string {
+  // Atom: <link rel="alternate" href="..."/>; RSS: <link>...</link>
+  const atomLinks = elements(item, 'link').filter((link) => attribute(link.attrs, 'href'));
+  const alternate = atomLinks.find((link) => (attribute(link.attrs, 'rel') ?? 'alternate') === 'alternate');
+  if (alternate) return attribute(alternate.attrs, 'href')!;
+  return textOf(item, 'link');
+}
+
+function imageOf(item: string): string | undefined {
+  for (const name of ['enclosure', 'media:content', 'media:thumbnail']) {
+    for (const element of elements(item, name)) {
+      const type = attribute(element.attrs, 'type') ?? attribute(element.attrs, 'medium') ?? 'image';
+      const url = attribute(element.attrs, 'url');
+      if (url && type.startsWith('image')) return url;
+    }
+  }
+  return undefined;
+}
+
+function parseItem(item: string, defaults: Partial<EventDefaults>): Event | null {
+  const start = dateOf(item, 'ev:startdate', 'xCal:dtstart', 'startdate', 'dtstart', 'pubDate', 'published', 'updated', 'dc:date');
+  if (start === null) return null;
+  const end = dateOf(item, 'ev:enddate', 'xCal:dtend', 'enddate', 'dtend');
+
+  const title = htmlToText(textOf(item, 'title')) || 'Untitled event';
+  const link = linkOf(item);
+  const body = htmlToText(textOf(item, 'description', 'content:encoded', 'summary', 'content'));
+  const description = link && !body.includes(link) ? [body, `More info: ${link}`].filter(Boolean).join('\n\n') : body;
+
+  const labels = [
+    ...elements(item, 'category').map((category) => attribute(category.attrs, 'term') ?? contentText(category.content)),
+    ...textOf(item, 'ev:type').split(/[,;]/),
+  ]
+    .map((label) => label.trim())
+    .filter(Boolean);
+  const categories = labels.map(matchCategory).filter((c): c is EventCategory => c !== undefined);
+  const tags = labels.filter((label) => !matchCategory(label));
+
+  const organizerName = textOf(item, 'ev:organizer', 'xCal:organizer', 'dc:creator') || textOf(textOf(item, 'author'), 'name');
+  const guid = textOf(item, 'guid', 'id') || link || `${start}-${title}`;
+  const updated = dateOf(item, 'updated', 'pubDate', 'published');
+  const imageUrl = imageOf(item);
+
+  return normalizeEvent(
+    {
+      id: `${IMPORT_ID_PREFIX}${guid}`,
+      title,
+      description,
+      location: textOf(item, 'ev:location', 'xCal:location', 'location'),
+      startTime: new Date(start).toISOString(),
+      endTime: new Date(end !== null && end >= start ? end : start + DEFAULT_DURATION_MS).toISOString(),
+      ...(categories.length > 0 ? { categories } : {}),
+      ...(tags.length > 0 ? { tags: [...new Set(tags)] } : {}),
+      ...(organizerName ? { organizer: { id: `${IMPORT_ID_PREFIX}${organizerName}`, name: organizerName } } : {}),
+      ...(updated !== null ? { updatedAt: new Date(updated).toISOString() } : {}),
+      ...(imageUrl ? { imageUrl } : {}),
+    },
+    defaults,
+  );
+}
+
+/** The title of an RSS channel or Atom feed. */
+export function rssTitle(text: string): string {
+  const head = text.split(/<(?:item|entry)\b/i)[0];
+  return htmlToText(textOf(head, 'title'));
+}
+
+/**
+ * The events in an RSS 2.0 or Atom feed. Anything an item doesn't say
+ * (color, organizer, ...) comes from `defaults`. Items without a date are
+ * skipped.
+ */
+export function parseRSS(text: string, defaults: Partial<EventDefaults> = {}): Event[] {
+  const items = [...elements(text, 'item'), ...elements(text, 'entry')];
+  const events = new Map<string, Event>();
+  for (const item of items) {
+    const event = parseItem(item.content, defaults);
+    if (event) events.set(event.id, event);
+  }
+  return [...events.values()];
+}
@@ -0,0 +1,31 @@
+/**
+ * RSVP bookkeeping shared by every place that changes an event's attendees.
+ *
+ * `rsvpCounts` is always derived from `attendees`, so the two can't drift.
+ */
+
+import { Attendee, Event, RSVPCounts, RSVPStatus } from './event';
+
+export function countRsvps(attendees: Attendee[]): RSVPCounts {
+  const counts = { going: 0, maybe: 0, notGoing: 0 };
+  for (const attendee of attendees) {
+    if (attendee.status === 'going') counts.going++;
+    else if (attendee.status === 'maybe') counts.maybe++;
+    else if (attendee.status === 'not-going') counts.notGoing++;
+  }
+  return counts;
+}
+
+/**
+ * Set one person's RSVP, or clear it with a null status. A person whose
+ * status is unchanged keeps their original timestamp.
+ */
+export function withRsvp<T extends Event>(event: T, userId: string, status: RSVPStatus, now: Date = new Date()): T {
+  const previous = event.attendees.find((a) => a.userId === userId);
+  if ((previous?.status ?? null) === status) return event;
+
+  const attendees = event.attendees.filter((a) => a.userId !== userId);
+  if (status) attendees.push({ userId, status, timestamp: now.toISOString() });
+
+  return { ...event, attendees, rsvpCounts: countRsvps(attendees), updatedAt: now.toISOString() };
+}
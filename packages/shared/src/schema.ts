@@ -0,0 +1,300 @@
+/**
+ * Runtime checks for the event model (see event.ts).
+ *
+ * Events cross process boundaries as JSON (the Slack bot's REST API and
+ * store file, the client's localStorage), so neither side can trust the
+ * compiler about their shape:
+ *
+ *   - validateEvent lists what is wrong with a value that should already be
+ *     a complete event, e.g. one about to be stored or served.
+ *   - normalizeEvent turns loosely-shaped input into an event: it migrates
+ *     older shapes, fills in defaults for missing fields, drops unknown
+ *     categories, and returns null for input that can't be an event at all.
+ */
+
+import {
+  Attendee,
+  ChannelVisibility,
+  EVENT_CATEGORIES,
+  Event,
+  EventCategory,
+  EventOrganizer,
+  RecurringPattern,
+  RSVPCounts,
+  RSVPStatus,
+} from './event';
+import { countRsvps } from './rsvp';
+
+/** Defaults for fields an event source doesn't provide. */
+export interface EventDefaults {
+  color: string;
+  organizer: EventOrganizer;
+  categories: EventCategory[];
+  tags: string[];
+  isClubEvent: boolean;
+}
+
+export const DEFAULT_EVENT_VALUES: EventDefaults = {
+  color: '#3B82F6',
+  organizer: { id: 'unknown', name: 'Unknown', type: 'club' },
+  categories: ['Events'],
+  tags: [],
+  isClubEvent: true,
+};
+
+const RSVP_STATUSES: readonly RSVPStatus[] = ['going', 'maybe', 'not-going', null];
+const FREQUENCIES: readonly RecurringPattern['frequency'][] = ['daily', 'weekly', 'monthly'];
+
+// ─── Primitives ────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString);
+}
+
+function isRsvpCounts(value: unknown): value is RSVPCounts {
+  return isObject(value) && isCount(value.going) && isCount(value.maybe) && isCount(value.notGoing);
+}
+
+export function isEventCategory(value: unknown): value is EventCategory {
+  return EVENT_CATEGORIES.includes(value as EventCategory);
+}
+
+// ─── Validation ────────────────────────────────────────────────────────
+
+function validateAttendee(value: unknown, index: number): string[] {
+  if (!isObject(value)) return [`attendees[${index}]: not an object`];
+  const issues: string[] = [];
+  if (!isString(value.userId) || !value.userId) issues.push(`attendees[${index}].userId: missing`);
+  if (!RSVP_STATUSES.includes(value.status)) issues.push(`attendees[${index}].status: unknown status "${value.status}"`);
+  if (!isString(value.timestamp)) issues.push(`attendees[${index}].timestamp: not a string`);
+  return issues;
+}
+
+function validateRecurring(value: unknown): string[] {
+  if (!isObject(value)) return ['recurring: not an object'];
+  const issues: string[] = [];
+  if (!FREQUENCIES.includes(value.frequency)) issues.push(`recurring.frequency: unknown frequency "${value.frequency}"`);
+  if (!isCount(value.interval) || value.interval < 1) issues.push('recurring.interval: not a positive number');
+  if (value.endDate !== undefined && !isDateString(value.endDate)) issues.push('recurring.endDate: not a date');
+  const isWeekday = (d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6;
+  if (value.daysOfWeek !== undefined && !(Array.isArray(value.daysOfWeek) && value.daysOfWeek.every(isWeekday))) {
+    issues.push('recurring.daysOfWeek: not a list of weekdays (0-6)');
+  }
+  if (value.exceptions !== undefined) {
+    if (!Array.isArray(value.exceptions)) {
+      issues.push('recurring.exceptions: not a list');
+    } else {
+      value.exceptions.forEach((exception: unknown, i: number) => issues.push(...validateException(exception, i)));
+    }
+  }
+  return issues;
+}
+
+function validateException(value: unknown, index: number): string[] {
+  const field = `recurring.exceptions[${index}]`;
+  if (!isObject(value)) return [`${field}: not an object`];
+  const issues: string[] = [];
+  if (!isDateString(value.recurrenceId)) issues.push(`${field}.recurrenceId: not a date`);
+  if (value.cancelled !== undefined && typeof value.cancelled !== 'boolean') issues.push(`${field}.cancelled: not a boolean`);
+  if (value.changes !== undefined) {
+    const changes = value.changes;
+    if (!isObject(changes)) {
+      issues.push(`${field}.changes: not an object`);
+    } else {
+      for (const key of ['startTime', 'endTime'] as const) {
+        if (changes[key] !== undefined && !isDateString(changes[key])) issues.push(`${field}.changes.${key}: not a date`);
+      }
+      for (const key of ['title', 'description', 'location', 'color', 'imageUrl'] as const) {
+        if (changes[key] !== undefined && !isString(changes[key])) issues.push(`${field}.changes.${key}: not a string`);
+      }
+      if (changes.capacity !== undefined && !isCount(changes.capacity)) issues.push(`${field}.changes.capacity: not a count`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Everything wrong with a value that should be a complete event, as
+ * `field: problem` strings. Empty when it is a valid event.
+ */
+export function validateEvent(value: unknown): string[] {
+  if (!isObject(value)) return ['not an object'];
+  const e = value;
+  const issues: string[] = [];
+
+  if (!isString(e.id) || !e.id) issues.push('id: missing');
+  if (!isString(e.title) || !e.title) issues.push('title: missing');
+  if (!isString(e.description)) issues.push('description: not a string');
+  if (!isDateString(e.startTime)) issues.push('startTime: not a date');
+  if (!isDateString(e.endTime)) issues.push('endTime: not a date');
+  if (!isString(e.location)) issues.push('location: not a string');
+
+  if (!Array.isArray(e.categories)) {
+    issues.push('categories: not a list');
+  } else {
+    for (const category of e.categories) {
+      if (!isEventCategory(category)) issues.push(`categories: unknown category "${category}"`);
+    }
+  }
+
+  if (
+    !isObject(e.organizer) ||
+    !isString(e.organizer.id) ||
+    !isString(e.organizer.name) ||
+    (e.organizer.type !== 'club' && e.organizer.type !== 'individual')
+  ) {
+    issues.push('organizer: needs an id, name and type (club | individual)');
+  }
+
+  if (!isString(e.color)) issues.push('color: not a string');
+  if (typeof e.rsvpEnabled !== 'boolean') issues.push('rsvpEnabled: not a boolean');
+  if (!isRsvpCounts(e.rsvpCounts)) {
+    issues.push('rsvpCounts: needs going, maybe and notGoing counts');
+  }
+  if (!Array.isArray(e.attendees)) {
+    issues.push('attendees: not a list');
+  } else {
+    e.attendees.forEach((attendee: unknown, i: number) => issues.push(...validateAttendee(attendee, i)));
+  }
+  if (e.attendeeVisibility !== 'public' && e.attendeeVisibility !== 'private') {
+    issues.push('attendeeVisibility: must be public or private');
+  }
+
+  if (typeof e.isClubEvent !== 'boolean') issues.push('isClubEvent: not a boolean');
+  if (typeof e.isSocialEvent !== 'boolean') issues.push('isSocialEvent: not a boolean');
+  if (e.capacity !== undefined && !isCount(e.capacity)) issues.push('capacity: not a count');
+  if (e.recurring !== undefined) issues.push(...validateRecurring(e.recurring));
+  if (!isStringArray(e.tags)) issues.push('tags: not a list of strings');
+  if (!isDateString(e.createdAt)) issues.push('createdAt: not a date');
+  if (!isDateString(e.updatedAt)) issues.push('updatedAt: not a date');
+
+  if (e.imageUrl !== undefined && !isString(e.imageUrl)) issues.push('imageUrl: not a string');
+  if (e.confidence !== undefined && !(isCount(e.confidence) && e.confidence <= 1)) issues.push('confidence: not between 0 and 1');
+  if (e.channelVisibility !== undefined && e.channelVisibility !== 'public' && e.channelVisibility !== 'private') {
+    issues.push('channelVisibility: must be public or private');
+  }
+  const isSourceRef = (s: unknown) => isObject(s) && isString(s.id) && isString(s.source);
+  if (e.sources !== undefined && !(Array.isArray(e.sources) && e.sources.every(isSourceRef))) {
+    issues.push('sources: needs an id and source for each entry');
+  }
+  if (e.seriesId !== undefined && !isString(e.seriesId)) issues.push('seriesId: not a string');
+  if (e.recurrenceId !== undefined && !isDateString(e.recurrenceId)) issues.push('recurrenceId: not a date');
+
+  return issues;
+}
+
+export function isValidEvent(value: unknown): value is Event {
+  return validateEvent(value).length === 0;
+}
+
+// ─── Migration ─────────────────────────────────────────────────────────
+
+// Each step upgrades one shape older builds wrote. Steps must leave
+// current events unchanged, so they can run on every event read.
+const MIGRATIONS: Array<(e: Record<string, any>) => Record<string, any>> = [
+  // Slack events stored before private channels were supported all came from public ones
+  (e) => (isString(e.id) && e.id.startsWith('slack-') && e.channelVisibility === undefined
+    ? { ...e, channelVisibility: 'public' }
+    : e),
+];
+
+/**
+ * Bring an event written by an older build up to the current shape.
+ * Doesn't fill in missing fields; see normalizeEvent for that.
+ */
+export function migrateEvent(value: Record<string, any>): Record<string, any> {
+  return MIGRATIONS.reduce((event, step) => step(event), value);
+}
+
+// ─── Normalization ─────────────────────────────────────────────────────
+
+function optional<K extends string, V>(key: K, value: V | undefined): { [P in K]?: V } {
+  return (value === undefined ? {} : { [key]: value }) as { [P in K]?: V };
+}
+
+/**
+ * Turn loosely-shaped input (API responses, stored JSON) into an event:
+ * migrate it, fill in `defaults` for anything missing, and drop fields that
+ * don't fit the model. Returns null when there is no id or title, or the
+ * result still isn't a valid event (e.g. an unparseable date).
+ */
+export function normalizeEvent(value: unknown, defaults: Partial<EventDefaults> = {}): Event | null {
+  if (!isObject(value)) return null;
+  const e = migrateEvent(value);
+  if (!isString(e.id) || !e.id || !isString(e.title) || !e.title) return null;
+
+  const fallback = { ...DEFAULT_EVENT_VALUES, ...defaults };
+  const now = new Date().toISOString();
+  const attendees: Attendee[] = Array.isArray(e.attendees)
+    ? e.attendees.filter((a: unknown, i: number) => validateAttendee(a, i).length === 0)
+    : [];
+  const categories = Array.isArray(e.categories) ? e.categories.filter(isEventCategory) : fallback.categories;
+  const organizer = isObject(e.organizer) ? e.organizer : {};
+
+  const event: Event = {
+    id: e.id,
+    title: e.title,
+    description: isString(e.description) ? e.description : '',
+    startTime: isString(e.startTime) ? e.startTime : now,
+    endTime: isString(e.endTime) ? e.endTime : isString(e.startTime) ? e.startTime : now,
+    location: isString(e.location) ? e.location : '',
+    categories,
+    organizer: {
+      id: isString(organizer.id) ? organizer.id : fallback.organizer.id,
+      name: isString(organizer.name) ? organizer.name : fallback.organizer.name,
+      type: organizer.type === 'individual' || organizer.type === 'club' ? organizer.type : fallback.organizer.type,
+    },
+    color: isString(e.color) && e.color ? e.color : fallback.color,
+    rsvpEnabled: typeof e.rsvpEnabled === 'boolean' ? e.rsvpEnabled : false,
+    rsvpCounts: isRsvpCounts(e.rsvpCounts)
+      ? { going: e.rsvpCounts.going, maybe: e.rsvpCounts.maybe, notGoing: e.rsvpCounts.notGoing }
+      : countRsvps(attendees),
+    attendees,
+    attendeeVisibility: e.attendeeVisibility === 'private' ? 'private' : 'public',
+    isClubEvent: typeof e.isClubEvent === 'boolean' ? e.isClubEvent : fallback.isClubEvent,
+    isSocialEvent: typeof e.isSocialEvent === 'boolean' ? e.isSocialEvent : false,
+    ...optional('capacity', isCount(e.capacity) ? e.capacity : undefined),
+    ...optional('recurring', isObject(e.recurring) && validateRecurring(e.recurring).length === 0
+      ? (e.recurring as RecurringPattern)
+      : undefined),
+    tags: isStringArray(e.tags) ? e.tags : fallback.tags,
+    createdAt: isDateString(e.createdAt) ? e.createdAt : now,
+    updatedAt: isDateString(e.updatedAt) ? e.updatedAt : now,
+    ...optional('imageUrl', isString(e.imageUrl) && e.imageUrl ? e.imageUrl : undefined),
+    ...optional('confidence', isCount(e.confidence) && e.confidence <= 1 ? e.confidence : undefined),
+    ...optional('needsReview', e.needsReview === true ? true : undefined),
+    ...optional('manuallyVerified', typeof e.manuallyVerified === 'boolean' ? e.manuallyVerified : undefined),
+    ...optional('channelVisibility', e.channelVisibility === 'private' || e.channelVisibility === 'public'
+      ? (e.channelVisibility as ChannelVisibility)
+      : undefined),
+    ...optional('sources', Array.isArray(e.sources) && e.sources.length > 0 ? e.sources : undefined),
+    ...optional('seriesId', isString(e.seriesId) && e.seriesId ? e.seriesId : undefined),
+    ...optional('recurrenceId', isDateString(e.recurrenceId) ? e.recurrenceId : undefined),
+  };
+
+  return validateEvent(event).length === 0 ? event : null;
+}
+
+/** normalizeEvent over a list, dropping anything that isn't an event. */
+export function normalizeEvents(values: unknown, defaults: Partial<EventDefaults> = {}): Event[] {
+  if (!Array.isArray(values)) return [];
+  return values
+    .map((value) => normalizeEvent(value, defaults))
+    .filter((event): event is Event => event !== null);
+}
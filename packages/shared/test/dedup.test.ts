@@ -0,0 +1,174 @@
+import assert from 'assert';
+import {
+  Event,
+  isDuplicate,
+  locationMatch,
+  mergeDuplicate,
+  mergeDuplicateEvents,
+  removeSource,
+  sourceOfId,
+  sourcesOf,
+  titleSimilarity,
+} from '../src';
+import { makeEvent, test } from './harness';
+
+const START = '2026-10-20T23:00:00.000Z';
+const END = '2026-10-21T00:00:00.000Z';
+
+function event(id: string, fields: Partial<Event> = {}): Event {
+  return makeEvent({ id, title: 'Event', startTime: START, endTime: END, ...fields });
+}
+
+const club = (id: string, name: string) => ({ id, name, type: 'club' as const });
+
+// ─── Matching ──────────────────────────────────────────────────────────
+
+const PAIRS: { name: string; a: Partial<Event>; b: Partial<Event>; duplicate: boolean }[] = [
+  {
+    name: 'a cross-post with emoji and filler',
+    a: { title: 'TartanHacks Kickoff' },
+    b: { title: ':rocket: Reminder: TartanHacks kickoff TONIGHT!' },
+    duplicate: true,
+  },
+  {
+    name: 'the same title half an hour later',
+    a: { title: 'Resume Workshop' },
+    b: { title: 'Resume Workshop', startTime: '2026-10-20T23:30:00.000Z', endTime: '2026-10-21T00:30:00.000Z' },
+    duplicate: true,
+  },
+  {
+    name: 'the same title on another day',
+    a: { title: 'Resume Workshop' },
+    b: { title: 'Resume Workshop', startTime: '2026-10-21T23:00:00.000Z', endTime: '2026-10-22T00:00:00.000Z' },
+    duplicate: false,
+  },
+  {
+    name: 'the same title in another room',
+    a: { title: 'Resume Workshop', location: 'GHC 4401' },
+    b: { title: 'Resume Workshop', location: 'Gates 6115' },
+    duplicate: false,
+  },
+  {
+    name: 'a looser title in the same room',
+    a: { title: 'ML Reading Group', location: 'GHC 4401' },
+    b: { title: 'Machine Learning Reading Group', location: 'Gates Hillman 4401' },
+    duplicate: true,
+  },
+  {
+    name: "two clubs' general body meetings",
+    a: { title: 'General Body Meeting', organizer: club('acm', 'ACM') },
+    b: { title: 'General Body Meeting', organizer: club('swe', 'SWE') },
+    duplicate: false,
+  },
+  {
+    name: 'general body meetings without organizers',
+    a: { title: 'General Body Meeting' },
+    b: { title: 'GBM: General Body Meeting' },
+    duplicate: false,
+  },
+  {
+    name: "one club's general body meeting, cross-posted",
+    a: { title: 'General Body Meeting', organizer: club('acm', 'ACM') },
+    b: { title: 'Reminder: General Body Meeting tonight', organizer: club('acm', 'ACM') },
+    duplicate: true,
+  },
+  {
+    name: "one club's general body meeting, by organizer name across sources",
+    a: { title: 'General Body Meeting', organizer: club('slack-user-U1', 'ACM') },
+    b: { title: 'General Body Meeting', organizer: club('gcal-acm@example.edu', 'acm') },
+    duplicate: true,
+  },
+  {
+    name: 'general body meetings in the same room',
+    a: { title: 'General Body Meeting', location: 'Doherty 2315' },
+    b: { title: 'General Body Meeting', location: 'DH 2315' },
+    duplicate: true,
+  },
+  {
+    name: 'general body meetings with the same description',
+    a: { title: 'General Body Meeting', description: 'ACM elections and pizza, all members welcome' },
+    b: { title: 'General Body Meeting', description: 'Elections and pizza for ACM. All members welcome!' },
+    duplicate: true,
+  },
+  {
+    name: 'general body meetings with placeholder organizers',
+    a: { title: 'General Body Meeting', organizer: club('feed-unknown', 'Campus calendar') },
+    b: { title: 'General Body Meeting', organizer: club('feed-unknown', 'Campus calendar') },
+    duplicate: false,
+  },
+];
+
+for (const c of PAIRS) {
+  test(`${c.duplicate ? 'duplicate' : 'distinct'}: ${c.name}`, () => {
+    const a = event('evt-a', c.a);
+    const b = event('evt-b', c.b);
+    assert.strictEqual(isDuplicate(a, b), c.duplicate);
+    assert.strictEqual(isDuplicate(b, a), c.duplicate);
+  });
+}
+
+const LOCATIONS: [string, string, 'match' | 'mismatch' | 'unknown'][] = [
+  ['GHC 4401', 'Gates Hillman Center 4401', 'match'],
+  ['GHC 4401', 'GHC 6115', 'mismatch'],
+  ['the Cut', 'Cut', 'match'],
+  ['Zoom', '', 'unknown'],
+];
+
+for (const [a, b, expected] of LOCATIONS) {
+  test(`location: "${a}" vs "${b}" is ${expected}`, () => assert.strictEqual(locationMatch(a, b), expected));
+}
+
+test('title similarity ignores order, case and filler', () => {
+  assert.strictEqual(titleSimilarity('Kickoff: TartanHacks', 'tartanhacks kickoff!!'), 1);
+  assert.ok(titleSimilarity('Resume Workshop', 'Pottery Night') < 0.5);
+});
+
+// ─── Sources ───────────────────────────────────────────────────────────
+
+const SOURCES: [string, string][] = [
+  ['slack-C123-1700000000.000100', 'slack'],
+  ['gcal-abc123', 'gcal'],
+  ['ics-uid@example.edu', 'ics'],
+  ['feed-k3x9-rss-https://events.example.edu/42', 'feed'],
+  ['evt-1700000000-a1b2c3', 'local'],
+];
+
+for (const [id, source] of SOURCES) {
+  test(`source of ${id.split('-')[0]}- ids is ${source}`, () => assert.strictEqual(sourceOfId(id), source));
+}
+
+test('merging keeps the canonical event and lists every source', () => {
+  const slack = event('slack-C1-1', { title: 'Hack Night', categories: ['Tech'], tags: ['hack'] });
+  const feed = event('feed-k3x9-rss-42', {
+    title: 'Hack Night',
+    location: 'CS Lounge',
+    description: 'Bring a laptop and an idea.',
+    categories: ['Social'],
+    imageUrl: 'https://example.edu/hack.png',
+  });
+  const merged = mergeDuplicate(slack, feed);
+  assert.strictEqual(merged.id, 'slack-C1-1');
+  assert.strictEqual(merged.location, 'CS Lounge');
+  assert.strictEqual(merged.description, 'Bring a laptop and an idea.');
+  assert.deepStrictEqual(merged.categories, ['Tech', 'Social']);
+  assert.strictEqual(merged.imageUrl, 'https://example.edu/hack.png');
+  assert.deepStrictEqual(sourcesOf(merged).map((ref) => [ref.id, ref.source]), [
+    ['slack-C1-1', 'slack'],
+    ['feed-k3x9-rss-42', 'feed'],
+  ]);
+
+  const unmerged = removeSource(merged, 'feed-k3x9-rss-42');
+  assert.strictEqual(unmerged?.sources, undefined);
+  assert.strictEqual(removeSource(slack, 'slack-C1-1'), null);
+});
+
+test('merging a list keeps the first of each group, in order', () => {
+  const events = [
+    event('slack-C1-1', { title: 'Hack Night' }),
+    event('slack-C2-1', { title: 'Pottery Night', location: 'CFA 1' }),
+    event('slack-C3-1', { title: 'Reminder: hack night!' }),
+  ];
+  const merged = mergeDuplicateEvents(events);
+  assert.deepStrictEqual(merged.map((e) => e.id), ['slack-C1-1', 'slack-C2-1']);
+  assert.deepStrictEqual(sourcesOf(merged[0]).map((ref) => ref.id), ['slack-C1-1', 'slack-C3-1']);
+});
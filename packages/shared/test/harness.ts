@@ -0,0 +1,36 @@
+/**
+ * The little the shared tests need: `test` registers a case for run.ts,
+ * and `makeEvent` builds a complete event from just the fields a case is
+ * about.
+ */
+
+import { Event, normalizeEvent } from '../src';
+
+export interface TestCase {
+  file: string;
+  name: string;
+  run: () => void;
+}
+
+export const cases: TestCase[] = [];
+
+// Set by run.ts while it loads each test file
+let currentFile = '';
+
+export function setCurrentFile(file: string): void {
+  currentFile = file;
+}
+
+export function test(name: string, run: () => void): void {
+  cases.push({ file: currentFile, name, run });
+}
+
+// Pinned, so cases that compare whole events don't depend on the clock
+const STAMP = '2026-01-01T00:00:00.000Z';
+
+/** A valid event with `fields` over some defaults. */
+export function makeEvent(fields: Partial<Event> & Pick<Event, 'id' | 'startTime' | 'endTime'>): Event {
+  const event = normalizeEvent({ title: 'Event', createdAt: STAMP, updatedAt: STAMP, ...fields });
+  if (!event) throw new Error(`makeEvent: ${JSON.stringify(fields)} isn't an event`);
+  return event;
+}
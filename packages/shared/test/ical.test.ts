@@ -0,0 +1,240 @@
+import assert from 'assert';
+import { Event, expandOccurrences, parseICalendar, toICalendar } from '../src';
+import { makeEvent, test } from './harness';
+
+const iso = (time: string) => new Date(time).toISOString();
+const NOW = new Date('2026-10-01T12:00:00Z');
+
+/** The content lines of an iCalendar file, unfolded. */
+function linesOf(ics: string): string[] {
+  return ics.replace(/\r\n[ \t]/g, '').split('\r\n').filter(Boolean);
+}
+
+function ics(...vevents: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...vevents.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR']
+    .join('\r\n');
+}
+
+const talk = makeEvent({
+  id: 'evt-talk',
+  title: 'Talk: compilers, parsers; and more',
+  description: 'Line one\nLine two',
+  location: 'Hall A',
+  startTime: iso('2026-10-20T19:00:00-04:00'),
+  endTime: iso('2026-10-20T20:30:00-04:00'),
+  categories: ['Tech'],
+  tags: ['talk'],
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:01:40.000Z',
+});
+
+const clubNight = makeEvent({
+  id: 'evt-club',
+  title: 'Club night',
+  startTime: iso('2026-10-20T19:00:00-04:00'),
+  endTime: iso('2026-10-20T21:00:00-04:00'),
+  recurring: {
+    frequency: 'weekly',
+    interval: 1,
+    daysOfWeek: [2],
+    endDate: '2026-12-15',
+    exceptions: [
+      { recurrenceId: iso('2026-10-27T19:00:00-04:00'), cancelled: true },
+      { recurrenceId: iso('2026-11-03T19:00:00-05:00'), changes: { location: 'Library' } },
+    ],
+  },
+});
+
+const fairDay = makeEvent({
+  id: 'evt-fair',
+  title: 'Club fair',
+  startTime: iso('2026-10-24T00:00:00-04:00'),
+  endTime: iso('2026-10-25T00:00:00-04:00'),
+});
+
+// ─── Writing ───────────────────────────────────────────────────────────
+
+const WRITES: { name: string; events: Event[]; timeZone?: string; expected: string[] }[] = [
+  {
+    name: 'a one-off event is written in UTC with a stable UID',
+    events: [talk],
+    expected: [
+      'UID:evt-talk@universify',
+      'DTSTART:20261020T230000Z',
+      'DTEND:20261021T003000Z',
+      'SUMMARY:Talk: compilers\\, parsers\\; and more',
+      'DESCRIPTION:Line one\\nLine two',
+      'LOCATION:Hall A',
+      'CATEGORIES:Tech,talk',
+      'SEQUENCE:100',
+    ],
+  },
+  {
+    name: 'a series is written in the given zone with its rule and exceptions',
+    events: [clubNight],
+    timeZone: 'America/New_York',
+    expected: [
+      'DTSTART;TZID=America/New_York:20261020T190000',
+      'DTEND;TZID=America/New_York:20261020T210000',
+      'RRULE:FREQ=WEEKLY;BYDAY=TU;UNTIL=20261216T045959Z',
+      'EXDATE;TZID=America/New_York:20261027T190000',
+      'RECURRENCE-ID;TZID=America/New_York:20261103T190000',
+      'DTSTART;TZID=America/New_York:20261103T190000',
+      'LOCATION:Library',
+    ],
+  },
+  {
+    name: "a series is written in the zone asked for, not the process's",
+    events: [clubNight],
+    timeZone: 'America/Los_Angeles',
+    expected: ['DTSTART;TZID=America/Los_Angeles:20261020T160000'],
+  },
+  {
+    name: 'a series in UTC is written in UTC',
+    events: [clubNight],
+    timeZone: 'UTC',
+    expected: ['DTSTART:20261020T230000Z'],
+  },
+  {
+    name: 'a series defaults to the local zone',
+    events: [clubNight],
+    expected: ['DTSTART;TZID=America/New_York:20261020T190000'],
+  },
+  {
+    name: 'midnight to midnight is an all-day event',
+    events: [fairDay],
+    expected: ['DTSTART;VALUE=DATE:20261024', 'DTEND;VALUE=DATE:20261025'],
+  },
+  {
+    name: 'midnight in another zone is not all-day',
+    events: [fairDay],
+    timeZone: 'America/Chicago',
+    expected: ['DTSTART:20261024T040000Z'],
+  },
+];
+
+for (const c of WRITES) {
+  test(c.name, () => {
+    const lines = linesOf(toICalendar(c.events, { now: NOW, timeZone: c.timeZone }));
+    for (const line of c.expected) assert.ok(lines.includes(line), `missing ${line} in\n${lines.join('\n')}`);
+  });
+}
+
+test('long lines are folded at 75 octets', () => {
+  const long = makeEvent({ ...talk, description: 'é'.repeat(100) });
+  const raw = toICalendar([long], { now: NOW }).split('\r\n');
+  assert.ok(raw.every((line) => Buffer.byteLength(line) <= 75));
+  assert.ok(linesOf(toICalendar([long], { now: NOW })).includes(`DESCRIPTION:${'é'.repeat(100)}`));
+});
+
+// ─── Reading ───────────────────────────────────────────────────────────
+
+const READS: { name: string; text: string; expected: Partial<Event>[] }[] = [
+  {
+    name: 'UTC, TZID and floating times',
+    text: ics(
+      ['UID:a', 'SUMMARY:UTC', 'DTSTART:20261020T230000Z', 'DTEND:20261021T000000Z'],
+      ['UID:b', 'SUMMARY:Zoned', 'DTSTART;TZID=Europe/Berlin:20261020T190000', 'DURATION:PT90M'],
+      ['UID:c', 'SUMMARY:Floating', 'DTSTART:20261020T190000', 'DTEND:20261020T200000'],
+    ),
+    expected: [
+      { id: 'ics-a', startTime: '2026-10-20T23:00:00.000Z', endTime: '2026-10-21T00:00:00.000Z' },
+      { id: 'ics-b', startTime: '2026-10-20T17:00:00.000Z', endTime: '2026-10-20T18:30:00.000Z' },
+      { id: 'ics-c', startTime: iso('2026-10-20T19:00:00-04:00'), endTime: iso('2026-10-20T20:00:00-04:00') },
+    ],
+  },
+  {
+    name: 'a TZID time just after a DST change uses the new offset',
+    text: ics(['UID:a', 'SUMMARY:Early', 'DTSTART;TZID=America/New_York:20261101T030000', 'DURATION:PT1H']),
+    expected: [{ startTime: '2026-11-01T08:00:00.000Z' }],
+  },
+  {
+    name: 'an all-day date without an end lasts the day',
+    text: ics(['UID:a', 'SUMMARY:Fair', 'DTSTART;VALUE=DATE:20261024']),
+    expected: [{ startTime: iso('2026-10-24T00:00:00-04:00'), endTime: iso('2026-10-25T00:00:00-04:00') }],
+  },
+  {
+    name: 'Universify UIDs still import as copies',
+    text: ics(['UID:evt-talk@universify', 'SUMMARY:Talk', 'DTSTART:20261020T230000Z']),
+    expected: [{ id: 'ics-evt-talk@universify' }],
+  },
+  {
+    name: 'text is unescaped and categories split from tags',
+    text: ics([
+      'UID:a',
+      'SUMMARY:Talk: compilers\\, parsers\\; and more',
+      'DESCRIPTION:Line one\\nLine two',
+      'CATEGORIES:tech,Workshop',
+      'ORGANIZER;CN=ACM:mailto:acm@example.edu',
+      'DTSTART:20261020T230000Z',
+    ]),
+    expected: [{
+      title: 'Talk: compilers, parsers; and more',
+      description: 'Line one\nLine two',
+      categories: ['Tech'],
+      tags: ['Workshop'],
+      organizer: { id: 'ics-ACM', name: 'ACM', type: 'club' },
+    }],
+  },
+  {
+    name: 'cancelled events are skipped',
+    text: ics(['UID:a', 'SUMMARY:Off', 'STATUS:CANCELLED', 'DTSTART:20261020T230000Z']),
+    expected: [],
+  },
+  {
+    name: "a rule the engine can't express imports the first occurrence",
+    text: ics(['UID:a', 'SUMMARY:Yearly', 'DTSTART:20261020T230000Z', 'RRULE:FREQ=YEARLY']),
+    expected: [{ startTime: '2026-10-20T23:00:00.000Z', recurring: undefined }],
+  },
+];
+
+for (const c of READS) {
+  test(`read: ${c.name}`, () => {
+    const events = parseICalendar(c.text);
+    assert.strictEqual(events.length, c.expected.length);
+    c.expected.forEach((expected, i) => {
+      for (const [field, value] of Object.entries(expected)) {
+        assert.deepStrictEqual(events[i][field as keyof Event], value, field);
+      }
+    });
+  });
+}
+
+const window = (event: Event) =>
+  expandOccurrences(event, new Date('2026-10-01T00:00:00-04:00'), new Date('2027-01-01T00:00:00-05:00'));
+
+test('read: COUNT, EXDATE and overrides become the series and its exceptions', () => {
+  const [series] = parseICalendar(ics(
+    [
+      'UID:club',
+      'SUMMARY:Club night',
+      'DTSTART;TZID=America/New_York:20261020T190000',
+      'DTEND;TZID=America/New_York:20261020T210000',
+      'RRULE:FREQ=WEEKLY;COUNT=4',
+      'EXDATE;TZID=America/New_York:20261027T190000',
+    ],
+    [
+      'UID:club',
+      'RECURRENCE-ID;TZID=America/New_York:20261103T190000',
+      'SUMMARY:Club night (moved)',
+      'DTSTART;TZID=America/New_York:20261104T190000',
+      'DTEND;TZID=America/New_York:20261104T210000',
+    ],
+  ));
+  assert.strictEqual(series.recurring?.endDate, iso('2026-11-10T19:00:00-05:00'));
+  const occurrences = window(series);
+  assert.deepStrictEqual(occurrences.map((o) => o.startTime), [
+    iso('2026-10-20T19:00:00-04:00'),
+    iso('2026-11-04T19:00:00-05:00'),
+    iso('2026-11-10T19:00:00-05:00'),
+  ]);
+  assert.strictEqual(occurrences[1].title, 'Club night (moved)');
+});
+
+test('round trip: a series comes back with the same occurrences', () => {
+  const [copy] = parseICalendar(toICalendar([clubNight], { now: NOW, timeZone: 'America/New_York' }));
+  assert.strictEqual(copy.id, 'ics-evt-club@universify');
+  assert.strictEqual(copy.title, clubNight.title);
+  const pick = (events: Event[]) => events.map((o) => [o.startTime, o.endTime, o.location]);
+  assert.deepStrictEqual(pick(window(copy)), pick(window(clubNight)));
+});
@@ -0,0 +1,399 @@
+import assert from 'assert';
+import {
+  Event,
+  RecurrenceScope,
+  RecurringPattern,
+  deleteFromSeries,
+  expandOccurrences,
+  getOccurrence,
+  nextOccurrence,
+  occurrenceId,
+  parseOccurrenceId,
+  updateSeries,
+} from '../src';
+import { makeEvent, test } from './harness';
+
+// Times are written with their New York offset, so DST is visible in the table
+const iso = (time: string) => new Date(time).toISOString();
+
+function series(startTime: string, recurring: RecurringPattern, hours = 1): Event {
+  const start = Date.parse(startTime);
+  return makeEvent({
+    id: 'club-night',
+    title: 'Club night',
+    startTime: iso(startTime),
+    endTime: new Date(start + hours * 60 * 60 * 1000).toISOString(),
+    recurring,
+  });
+}
+
+function starts(events: Event[]): string[] {
+  return events.map((e) => e.startTime);
+}
+
+// ─── Expansion ─────────────────────────────────────────────────────────
+
+const weekly: RecurringPattern = { frequency: 'weekly', interval: 1 };
+
+const EXPANSIONS: {
+  name: string;
+  series: Event;
+  from: string;
+  to: string;
+  expected: string[];
+}[] = [
+  {
+    name: 'weekly keeps its local time when DST ends',
+    series: series('2026-10-20T19:00:00-04:00', weekly),
+    from: '2026-10-18T00:00:00-04:00',
+    to: '2026-11-15T00:00:00-05:00',
+    expected: [
+      '2026-10-20T19:00:00-04:00',
+      '2026-10-27T19:00:00-04:00',
+      '2026-11-03T19:00:00-05:00',
+      '2026-11-10T19:00:00-05:00',
+    ],
+  },
+  {
+    name: 'daily keeps its local time when DST starts',
+    series: series('2026-03-07T09:00:00-05:00', { frequency: 'daily', interval: 1 }),
+    from: '2026-03-07T00:00:00-05:00',
+    to: '2026-03-10T00:00:00-04:00',
+    expected: ['2026-03-07T09:00:00-05:00', '2026-03-08T09:00:00-04:00', '2026-03-09T09:00:00-04:00'],
+  },
+  {
+    name: 'weekly on weekdays of every other week',
+    series: series('2026-10-05T18:00:00-04:00', { frequency: 'weekly', interval: 2, daysOfWeek: [3, 1] }),
+    from: '2026-10-01T00:00:00-04:00',
+    to: '2026-11-08T00:00:00-05:00',
+    expected: [
+      '2026-10-05T18:00:00-04:00',
+      '2026-10-07T18:00:00-04:00',
+      '2026-10-19T18:00:00-04:00',
+      '2026-10-21T18:00:00-04:00',
+      '2026-11-02T18:00:00-05:00',
+      '2026-11-04T18:00:00-05:00',
+    ],
+  },
+  {
+    name: 'weekly on weekdays skips those before the first occurrence',
+    series: series('2026-10-07T18:00:00-04:00', { frequency: 'weekly', interval: 1, daysOfWeek: [1, 3] }),
+    from: '2026-10-01T00:00:00-04:00',
+    to: '2026-10-13T00:00:00-04:00',
+    expected: ['2026-10-07T18:00:00-04:00', '2026-10-12T18:00:00-04:00'],
+  },
+  {
+    name: 'monthly on the 31st skips shorter months',
+    series: series('2026-01-31T10:00:00-05:00', { frequency: 'monthly', interval: 1 }),
+    from: '2026-01-01T00:00:00-05:00',
+    to: '2026-09-01T00:00:00-04:00',
+    expected: [
+      '2026-01-31T10:00:00-05:00',
+      '2026-03-31T10:00:00-04:00',
+      '2026-05-31T10:00:00-04:00',
+      '2026-07-31T10:00:00-04:00',
+      '2026-08-31T10:00:00-04:00',
+    ],
+  },
+  {
+    name: 'endDate as a date includes occurrences that day',
+    series: series('2026-10-01T09:00:00-04:00', { frequency: 'daily', interval: 1, endDate: '2026-10-03' }),
+    from: '2026-09-01T00:00:00-04:00',
+    to: '2026-11-01T00:00:00-04:00',
+    expected: ['2026-10-01T09:00:00-04:00', '2026-10-02T09:00:00-04:00', '2026-10-03T09:00:00-04:00'],
+  },
+  {
+    name: 'endDate as an instant includes an occurrence starting then',
+    series: series('2026-10-01T09:00:00-04:00', {
+      frequency: 'daily',
+      interval: 1,
+      endDate: '2026-10-02T13:00:00.000Z',
+    }),
+    from: '2026-09-01T00:00:00-04:00',
+    to: '2026-11-01T00:00:00-04:00',
+    expected: ['2026-10-01T09:00:00-04:00', '2026-10-02T09:00:00-04:00'],
+  },
+  {
+    name: 'a daily series from years ago still reaches the window',
+    series: series('2020-01-01T09:00:00-05:00', { frequency: 'daily', interval: 1 }),
+    from: '2026-10-10T00:00:00-04:00',
+    to: '2026-10-12T00:00:00-04:00',
+    expected: ['2026-10-10T09:00:00-04:00', '2026-10-11T09:00:00-04:00'],
+  },
+  {
+    name: 'a daily series with an interval from years ago stays on its days',
+    series: series('2020-01-01T09:00:00-05:00', { frequency: 'daily', interval: 3 }),
+    from: '2026-10-10T00:00:00-04:00',
+    to: '2026-10-17T00:00:00-04:00',
+    // 2020-01-01 + 3k days
+    expected: ['2026-10-11T09:00:00-04:00', '2026-10-14T09:00:00-04:00'],
+  },
+  {
+    name: 'a monthly series on the 31st from years ago still reaches the window',
+    series: series('2020-01-31T10:00:00-05:00', { frequency: 'monthly', interval: 1 }),
+    from: '2026-09-01T00:00:00-04:00',
+    to: '2026-11-15T00:00:00-05:00',
+    expected: ['2026-10-31T10:00:00-04:00'],
+  },
+  {
+    name: 'an occurrence already under way when the window opens is included',
+    series: series('2026-10-20T19:00:00-04:00', weekly, 3),
+    from: '2026-10-27T20:00:00-04:00',
+    to: '2026-10-28T00:00:00-04:00',
+    expected: ['2026-10-27T19:00:00-04:00'],
+  },
+];
+
+for (const c of EXPANSIONS) {
+  test(c.name, () => {
+    const occurrences = expandOccurrences(c.series, new Date(c.from), new Date(c.to));
+    assert.deepStrictEqual(starts(occurrences), c.expected.map(iso));
+  });
+}
+
+test('occurrences are ids of their series and start', () => {
+  const tuesday = series('2026-10-06T19:00:00-04:00', weekly);
+  const [occurrence] = expandOccurrences(tuesday, new Date('2026-10-13T00:00:00-04:00'), new Date('2026-10-14T00:00:00-04:00'));
+  const recurrenceId = iso('2026-10-13T19:00:00-04:00');
+  assert.strictEqual(occurrence.id, occurrenceId('club-night', recurrenceId));
+  assert.strictEqual(occurrence.seriesId, 'club-night');
+  assert.strictEqual(occurrence.recurrenceId, recurrenceId);
+  assert.strictEqual(occurrence.endTime, iso('2026-10-13T20:00:00-04:00'));
+  assert.strictEqual(occurrence.recurring, undefined);
+  assert.deepStrictEqual(parseOccurrenceId(occurrence.id), { seriesId: 'club-night', recurrenceId });
+  assert.strictEqual(parseOccurrenceId('club-night'), null);
+});
+
+// ─── Exceptions ────────────────────────────────────────────────────────
+
+const OCT_13 = iso('2026-10-13T19:00:00-04:00');
+
+const EXCEPTIONS: {
+  name: string;
+  exception: NonNullable<RecurringPattern['exceptions']>[number];
+  from: string;
+  to: string;
+  expected: string[];
+  title?: string; // of the first occurrence
+}[] = [
+  {
+    name: 'a cancelled occurrence is left out',
+    exception: { recurrenceId: OCT_13, cancelled: true },
+    from: '2026-10-06T00:00:00-04:00',
+    to: '2026-10-21T00:00:00-04:00',
+    expected: ['2026-10-06T19:00:00-04:00', '2026-10-20T19:00:00-04:00'],
+  },
+  {
+    name: 'an occurrence moved into the window is included',
+    exception: { recurrenceId: OCT_13, changes: { startTime: iso('2026-10-17T19:00:00-04:00') } },
+    from: '2026-10-16T00:00:00-04:00',
+    to: '2026-10-19T00:00:00-04:00',
+    expected: ['2026-10-17T19:00:00-04:00'],
+  },
+  {
+    name: 'an occurrence moved out of the window is left out',
+    exception: { recurrenceId: OCT_13, changes: { startTime: iso('2026-10-30T19:00:00-04:00') } },
+    from: '2026-10-12T00:00:00-04:00',
+    to: '2026-10-15T00:00:00-04:00',
+    expected: [],
+  },
+  {
+    name: 'a moved occurrence sorts where it moved to',
+    exception: { recurrenceId: OCT_13, changes: { startTime: iso('2026-10-21T19:00:00-04:00') } },
+    from: '2026-10-12T00:00:00-04:00',
+    to: '2026-10-22T00:00:00-04:00',
+    expected: ['2026-10-20T19:00:00-04:00', '2026-10-21T19:00:00-04:00'],
+  },
+  {
+    name: 'changes apply to their occurrence only',
+    exception: { recurrenceId: OCT_13, changes: { title: 'Club night (room change)' } },
+    from: '2026-10-12T00:00:00-04:00',
+    to: '2026-10-21T00:00:00-04:00',
+    expected: ['2026-10-13T19:00:00-04:00', '2026-10-20T19:00:00-04:00'],
+    title: 'Club night (room change)',
+  },
+  {
+    name: "an exception for a start the pattern doesn't have is ignored",
+    exception: { recurrenceId: iso('2026-10-14T19:00:00-04:00'), changes: { startTime: iso('2026-10-17T19:00:00-04:00') } },
+    from: '2026-10-16T00:00:00-04:00',
+    to: '2026-10-19T00:00:00-04:00',
+    expected: [],
+  },
+];
+
+for (const c of EXCEPTIONS) {
+  test(c.name, () => {
+    const tuesday = series('2026-10-06T19:00:00-04:00', { ...weekly, exceptions: [c.exception] });
+    const occurrences = expandOccurrences(tuesday, new Date(c.from), new Date(c.to));
+    assert.deepStrictEqual(starts(occurrences), c.expected.map(iso));
+    if (c.title) assert.strictEqual(occurrences[0].title, c.title);
+  });
+}
+
+test('getOccurrence only finds occurrences the series has', () => {
+  const tuesday = series('2026-10-06T19:00:00-04:00', {
+    ...weekly,
+    exceptions: [{ recurrenceId: OCT_13, cancelled: true }],
+  });
+  assert.strictEqual(getOccurrence(tuesday, iso('2026-10-20T19:00:00-04:00'))?.startTime, iso('2026-10-20T19:00:00-04:00'));
+  assert.strictEqual(getOccurrence(tuesday, iso('2026-10-21T19:00:00-04:00')), undefined);
+  assert.strictEqual(getOccurrence(tuesday, OCT_13), undefined);
+});
+
+test('nextOccurrence finds the next start, and none after the end date', () => {
+  const tuesday = series('2026-10-06T19:00:00-04:00', { ...weekly, endDate: '2026-10-20' });
+  assert.strictEqual(nextOccurrence(tuesday, new Date(OCT_13))?.startTime, iso('2026-10-20T19:00:00-04:00'));
+  assert.strictEqual(nextOccurrence(tuesday, new Date('2026-10-21T00:00:00-04:00')), undefined);
+});
+
+// ─── Editing ───────────────────────────────────────────────────────────
+
+const OCT_20 = iso('2026-10-20T19:00:00-04:00');
+
+const edited = () => series('2026-10-06T19:00:00-04:00', {
+  ...weekly,
+  exceptions: [
+    { recurrenceId: OCT_13, changes: { location: 'Library' } },
+    { recurrenceId: iso('2026-10-27T19:00:00-04:00'), cancelled: true },
+  ],
+});
+
+const window = (event: Event) =>
+  expandOccurrences(event, new Date('2026-10-01T00:00:00-04:00'), new Date('2026-11-15T00:00:00-05:00'));
+
+const UPDATES: {
+  name: string;
+  recurrenceId: string;
+  updates: Partial<Event>;
+  scope: RecurrenceScope;
+  check: (result: { series: Event; created?: Event }) => void;
+}[] = [
+  {
+    name: 'update this: only the occurrence changes, keeping its earlier changes',
+    recurrenceId: OCT_13,
+    updates: { title: 'Club night: elections', id: 'ignored' },
+    scope: 'this',
+    check: ({ series: updated, created }) => {
+      assert.strictEqual(created, undefined);
+      assert.strictEqual(updated.title, 'Club night');
+      const occurrence = getOccurrence(updated, OCT_13)!;
+      assert.strictEqual(occurrence.title, 'Club night: elections');
+      assert.strictEqual(occurrence.location, 'Library');
+      assert.strictEqual(occurrence.id, occurrenceId('club-night', OCT_13));
+    },
+  },
+  {
+    name: 'update this: moving the occurrence keeps its recurrence id',
+    recurrenceId: OCT_20,
+    updates: { startTime: iso('2026-10-22T19:00:00-04:00'), endTime: iso('2026-10-22T20:00:00-04:00') },
+    scope: 'this',
+    check: ({ series: updated }) => {
+      const moved = window(updated).find((o) => o.recurrenceId === OCT_20)!;
+      assert.strictEqual(moved.startTime, iso('2026-10-22T19:00:00-04:00'));
+      assert.strictEqual(window(updated).length, window(edited()).length);
+    },
+  },
+  {
+    name: 'update following: the series ends before the occurrence and a new one continues',
+    recurrenceId: OCT_20,
+    updates: { title: 'Club night (new room)', location: 'Hall B' },
+    scope: 'following',
+    check: ({ series: updated, created }) => {
+      assert.deepStrictEqual(starts(window(updated)), [iso('2026-10-06T19:00:00-04:00'), OCT_13]);
+      assert.deepStrictEqual(updated.recurring?.exceptions, [{ recurrenceId: OCT_13, changes: { location: 'Library' } }]);
+      assert.ok(created);
+      assert.strictEqual(created.id, 'club-night-2');
+      assert.strictEqual(created.startTime, OCT_20);
+      assert.strictEqual(created.title, 'Club night (new room)');
+      // Oct 27 stays cancelled in the new series
+      assert.deepStrictEqual(starts(window(created)), [
+        OCT_20,
+        iso('2026-11-03T19:00:00-05:00'),
+        iso('2026-11-10T19:00:00-05:00'),
+      ]);
+    },
+  },
+  {
+    name: 'update following: a new time moves the rest of the series across DST',
+    recurrenceId: OCT_20,
+    updates: { startTime: iso('2026-10-20T20:00:00-04:00'), endTime: iso('2026-10-20T22:00:00-04:00') },
+    scope: 'following',
+    check: ({ created }) => {
+      assert.ok(created);
+      assert.strictEqual(created.endTime, iso('2026-10-20T22:00:00-04:00'));
+      assert.deepStrictEqual(starts(window(created)), [
+        iso('2026-10-20T20:00:00-04:00'),
+        iso('2026-11-03T20:00:00-05:00'),
+        iso('2026-11-10T20:00:00-05:00'),
+      ]);
+    },
+  },
+  {
+    name: 'update following from the first occurrence changes the whole series',
+    recurrenceId: iso('2026-10-06T19:00:00-04:00'),
+    updates: { title: 'Club night (new room)' },
+    scope: 'following',
+    check: ({ series: updated, created }) => {
+      assert.strictEqual(created, undefined);
+      assert.strictEqual(updated.id, 'club-night');
+      assert.strictEqual(updated.title, 'Club night (new room)');
+    },
+  },
+  {
+    name: 'update all: a new time moves every occurrence and its exceptions',
+    recurrenceId: OCT_13,
+    updates: { startTime: iso('2026-10-13T18:00:00-04:00') },
+    scope: 'all',
+    check: ({ series: updated, created }) => {
+      assert.strictEqual(created, undefined);
+      assert.strictEqual(updated.startTime, iso('2026-10-06T18:00:00-04:00'));
+      assert.strictEqual(updated.endTime, iso('2026-10-06T19:00:00-04:00'));
+      assert.deepStrictEqual(starts(window(updated)), [
+        iso('2026-10-06T18:00:00-04:00'),
+        iso('2026-10-13T18:00:00-04:00'),
+        iso('2026-10-20T18:00:00-04:00'),
+        iso('2026-11-03T18:00:00-05:00'),
+        iso('2026-11-10T18:00:00-05:00'),
+      ]);
+      assert.strictEqual(getOccurrence(updated, iso('2026-10-13T18:00:00-04:00'))?.location, 'Library');
+    },
+  },
+];
+
+for (const c of UPDATES) {
+  test(c.name, () => c.check(updateSeries(edited(), c.recurrenceId, c.updates, c.scope, 'club-night-2')));
+}
+
+const DELETES: { name: string; recurrenceId: string; scope: RecurrenceScope; expected: string[] | null }[] = [
+  {
+    name: 'delete this: the occurrence is cancelled',
+    recurrenceId: OCT_20,
+    scope: 'this',
+    expected: [iso('2026-10-06T19:00:00-04:00'), OCT_13, iso('2026-11-03T19:00:00-05:00'), iso('2026-11-10T19:00:00-05:00')],
+  },
+  {
+    name: 'delete following: the series ends before the occurrence',
+    recurrenceId: OCT_20,
+    scope: 'following',
+    expected: [iso('2026-10-06T19:00:00-04:00'), OCT_13],
+  },
+  {
+    name: 'delete following from the first occurrence leaves nothing',
+    recurrenceId: iso('2026-10-06T19:00:00-04:00'),
+    scope: 'following',
+    expected: null,
+  },
+  {
+    name: 'delete all leaves nothing',
+    recurrenceId: OCT_20,
+    scope: 'all',
+    expected: null,
+  },
+];
+
+for (const c of DELETES) {
+  test(c.name, () => {
+    const left = deleteFromSeries(edited(), c.recurrenceId, c.scope);
+    assert.deepStrictEqual(left && starts(window(left)), c.expected);
+  });
+}
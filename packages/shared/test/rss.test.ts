@@ -0,0 +1,159 @@
+import assert from 'assert';
+import { Event, detectEventFeedFormat, parseEventFeed, parseRSS, rssTitle } from '../src';
+import { test } from './harness';
+
+const rss = (...items: string[]) => `<?xml version="1.0"?>
+<rss version="2.0" xmlns:ev="http://purl.org/rss/1.0/modules/event/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>Campus Events &amp; More</title>
+    ${items.map((item) => `<item>${item}</item>`).join('\n')}
+  </channel>
+</rss>`;
+
+const atom = (...entries: string[]) => `<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Library events</title>
+  ${entries.map((entry) => `<entry>${entry}</entry>`).join('\n')}
+</feed>`;
+
+const ITEMS: { name: string; text: string; expected: Partial<Event>[] }[] = [
+  {
+    name: 'event module times, guid id and categories split from tags',
+    text: rss(`
+      <title>Hack Night</title>
+      <guid>https://events.example.edu/42</guid>
+      <ev:startdate>2026-10-20T19:00:00-04:00</ev:startdate>
+      <ev:enddate>2026-10-20T22:00:00-04:00</ev:enddate>
+      <ev:location>CS Lounge</ev:location>
+      <ev:organizer>ACM</ev:organizer>
+      <category>tech</category>
+      <category>Free Food</category>`),
+    expected: [{
+      id: 'rss-https://events.example.edu/42',
+      title: 'Hack Night',
+      startTime: '2026-10-20T23:00:00.000Z',
+      endTime: '2026-10-21T02:00:00.000Z',
+      location: 'CS Lounge',
+      categories: ['Tech'],
+      tags: ['Free Food'],
+      organizer: { id: 'rss-ACM', name: 'ACM', type: 'club' },
+    }],
+  },
+  {
+    name: 'compact xCal times, UTC and floating',
+    text: rss(
+      '<guid>a</guid><title>UTC</title><xCal:dtstart>20261020T230000Z</xCal:dtstart>',
+      '<guid>b</guid><title>Floating</title><xCal:dtstart>20261020T190000</xCal:dtstart>',
+    ),
+    expected: [
+      { id: 'rss-a', startTime: '2026-10-20T23:00:00.000Z', endTime: '2026-10-21T00:00:00.000Z' },
+      { id: 'rss-b', startTime: '2026-10-20T23:00:00.000Z' },
+    ],
+  },
+  {
+    name: 'the publication date stands in for a start, and events last an hour',
+    text: rss('<title>Talk</title><link>https://example.edu/talk</link><pubDate>Tue, 20 Oct 2026 19:00:00 -0400</pubDate>'),
+    expected: [{
+      id: 'rss-https://example.edu/talk',
+      startTime: '2026-10-20T23:00:00.000Z',
+      endTime: '2026-10-21T00:00:00.000Z',
+      description: 'More info: https://example.edu/talk',
+    }],
+  },
+  {
+    name: 'an end before the start is ignored',
+    text: rss('<guid>a</guid><title>Backwards</title><ev:startdate>2026-10-20T19:00:00Z</ev:startdate><ev:enddate>2026-10-20T18:00:00Z</ev:enddate>'),
+    expected: [{ startTime: '2026-10-20T19:00:00.000Z', endTime: '2026-10-20T20:00:00.000Z' }],
+  },
+  {
+    name: 'HTML and CDATA descriptions become text',
+    text: rss(`
+      <guid>a</guid>
+      <title>Open Mic &amp; Jam</title>
+      <pubDate>Tue, 20 Oct 2026 23:00:00 GMT</pubDate>
+      <description><![CDATA[<p>Bring a <b>song</b> &amp; a friend.</p><p>Snacks provided</p>]]></description>
+      <media:content url="https://example.edu/mic.jpg" medium="image"/>`),
+    expected: [{
+      title: 'Open Mic & Jam',
+      description: 'Bring a song & a friend.\nSnacks provided',
+      imageUrl: 'https://example.edu/mic.jpg',
+    }],
+  },
+  {
+    name: 'items without a date are skipped, and repeated guids kept once',
+    text: rss(
+      '<guid>a</guid><title>No date</title>',
+      '<guid>b</guid><title>First</title><pubDate>Tue, 20 Oct 2026 23:00:00 GMT</pubDate>',
+      '<guid>b</guid><title>Second</title><pubDate>Tue, 20 Oct 2026 23:00:00 GMT</pubDate>',
+    ),
+    expected: [{ id: 'rss-b', title: 'Second' }],
+  },
+  {
+    name: 'Atom entries with alternate links, terms and authors',
+    text: atom(`
+      <id>urn:uuid:1</id>
+      <title type="html">Book &amp;amp; Bagel</title>
+      <link rel="enclosure" href="https://example.edu/flyer.pdf"/>
+      <link href="https://library.example.edu/e/1"/>
+      <published>2026-10-20T14:00:00Z</published>
+      <updated>2026-10-19T09:00:00Z</updated>
+      <category term="Academic"/>
+      <author><name>Library</name></author>
+      <summary>Read together.</summary>`),
+    expected: [{
+      id: 'rss-urn:uuid:1',
+      title: 'Book & Bagel',
+      startTime: '2026-10-20T14:00:00.000Z',
+      updatedAt: '2026-10-19T09:00:00.000Z',
+      categories: ['Academic'],
+      organizer: { id: 'rss-Library', name: 'Library', type: 'club' },
+      description: 'Read together.\n\nMore info: https://library.example.edu/e/1',
+    }],
+  },
+];
+
+for (const c of ITEMS) {
+  test(c.name, () => {
+    const events = parseRSS(c.text);
+    assert.strictEqual(events.length, c.expected.length);
+    c.expected.forEach((expected, i) => {
+      for (const [field, value] of Object.entries(expected)) {
+        assert.deepStrictEqual(events[i][field as keyof Event], value, field);
+      }
+    });
+  });
+}
+
+test('defaults fill what an item leaves out', () => {
+  const organizer = { id: 'feed-1', name: 'Campus calendar', type: 'club' as const };
+  const [event] = parseRSS(rss('<guid>a</guid><title>Talk</title><pubDate>Tue, 20 Oct 2026 23:00:00 GMT</pubDate>'), {
+    organizer,
+    color: '#10B981',
+  });
+  assert.deepStrictEqual(event.organizer, organizer);
+  assert.strictEqual(event.color, '#10B981');
+});
+
+test('feed titles', () => {
+  assert.strictEqual(rssTitle(rss()), 'Campus Events & More');
+  assert.strictEqual(rssTitle(atom()), 'Library events');
+});
+
+// ─── Format detection ──────────────────────────────────────────────────
+
+const FORMATS: { name: string; text: string; format: 'ics' | 'rss' | null; title?: string }[] = [
+  { name: 'iCalendar', text: '﻿BEGIN:VCALENDAR\r\nX-WR-CALNAME:Clubs\\, all\r\nEND:VCALENDAR\r\n', format: 'ics', title: 'Clubs, all' },
+  { name: 'RSS', text: rss(), format: 'rss', title: 'Campus Events & More' },
+  { name: 'Atom', text: atom(), format: 'rss', title: 'Library events' },
+  { name: 'an HTML page', text: '<!doctype html><html><body>Events</body></html>', format: null },
+];
+
+for (const c of FORMATS) {
+  test(`feed format: ${c.name}`, () => {
+    assert.strictEqual(detectEventFeedFormat(c.text), c.format);
+    if (c.format) {
+      assert.strictEqual(parseEventFeed(c.text).title, c.title);
+    } else {
+      assert.throws(() => parseEventFeed(c.text));
+    }
+  });
+}
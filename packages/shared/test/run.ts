@@ -0,0 +1,50 @@
+/**
+ * Table tests for the event logic in src/.
+ *
+ * Each ./*.test.ts file registers its cases with `test` (see harness.ts);
+ * a case passes unless it throws. The suite runs in America/New_York, so
+ * local-time logic such as recurrence crosses real DST changes wherever
+ * it runs.
+ *
+ * Usage:
+ *   pnpm test              — run every case
+ *   pnpm test -- <name>    — only run test files whose name contains <name>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { cases, setCurrentFile } from './harness';
+
+const TIME_ZONE = 'America/New_York';
+
+function main(): void {
+  process.env.TZ = TIME_ZONE;
+  const filter = process.argv.slice(2).find((a) => !a.startsWith('--'));
+
+  const files = fs
+    .readdirSync(__dirname)
+    .filter((f) => f.endsWith('.test.ts'))
+    .filter((f) => !filter || f.includes(filter))
+    .sort();
+  for (const file of files) {
+    setCurrentFile(file);
+    require(path.join(__dirname, file));
+  }
+
+  let failed = 0;
+  for (const { file, name, run } of cases) {
+    try {
+      run();
+      console.log(`  ✓ ${file} › ${name}`);
+    } catch (error: any) {
+      failed++;
+      console.log(`  ✗ ${file} › ${name}`);
+      for (const line of String(error?.message ?? error).split('\n')) console.log(`      ${line}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failed}/${cases.length} cases passed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,153 @@
+import assert from 'assert';
+import { DEFAULT_EVENT_VALUES, Event, isValidEvent, normalizeEvent, normalizeEvents, validateEvent } from '../src';
+import { makeEvent, test } from './harness';
+
+const valid = makeEvent({
+  id: 'evt-1',
+  title: 'Hack Night',
+  startTime: '2026-10-20T23:00:00.000Z',
+  endTime: '2026-10-21T02:00:00.000Z',
+});
+
+// ─── Validation ────────────────────────────────────────────────────────
+
+const VALIDATIONS: { name: string; value: unknown; issues: string[] }[] = [
+  { name: 'a complete event', value: valid, issues: [] },
+  { name: 'not an object', value: [valid], issues: ['not an object'] },
+  {
+    name: 'missing id and an unparseable start',
+    value: { ...valid, id: '', startTime: 'next Tuesday' },
+    issues: ['id: missing', 'startTime: not a date'],
+  },
+  {
+    name: 'an unknown category',
+    value: { ...valid, categories: ['Tech', 'Parties'] },
+    issues: ['categories: unknown category "Parties"'],
+  },
+  {
+    name: 'an organizer without a type',
+    value: { ...valid, organizer: { id: 'acm', name: 'ACM' } },
+    issues: ['organizer: needs an id, name and type (club | individual)'],
+  },
+  {
+    name: 'a bad attendee',
+    value: { ...valid, attendees: [{ userId: 'u1', status: 'interested', timestamp: '' }] },
+    issues: ['attendees[0].status: unknown status "interested"'],
+  },
+  {
+    name: 'a bad recurring pattern',
+    value: {
+      ...valid,
+      recurring: {
+        frequency: 'yearly',
+        interval: 0,
+        daysOfWeek: [7],
+        exceptions: [{ recurrenceId: 'soon', changes: { startTime: 'later', capacity: -1 } }],
+      },
+    },
+    issues: [
+      'recurring.frequency: unknown frequency "yearly"',
+      'recurring.interval: not a positive number',
+      'recurring.daysOfWeek: not a list of weekdays (0-6)',
+      'recurring.exceptions[0].recurrenceId: not a date',
+      'recurring.exceptions[0].changes.startTime: not a date',
+      'recurring.exceptions[0].changes.capacity: not a count',
+    ],
+  },
+  {
+    name: 'optional fields of the wrong kind',
+    value: { ...valid, confidence: 2, channelVisibility: 'secret', sources: [{ id: 'slack-1' }] },
+    issues: [
+      'confidence: not between 0 and 1',
+      'channelVisibility: must be public or private',
+      'sources: needs an id and source for each entry',
+    ],
+  },
+];
+
+for (const c of VALIDATIONS) {
+  test(`validate: ${c.name}`, () => {
+    assert.deepStrictEqual(validateEvent(c.value), c.issues);
+    assert.strictEqual(isValidEvent(c.value), c.issues.length === 0);
+  });
+}
+
+// ─── Normalization ─────────────────────────────────────────────────────
+
+const NORMALIZATIONS: { name: string; value: unknown; expected: Partial<Event> | null }[] = [
+  { name: 'no title', value: { id: 'evt-1', startTime: valid.startTime }, expected: null },
+  { name: 'not an object', value: 'evt-1', expected: null },
+  { name: 'an unparseable start', value: { id: 'evt-1', title: 'Talk', startTime: 'soon' }, expected: null },
+  {
+    name: 'missing fields get defaults',
+    value: { id: 'evt-1', title: 'Talk', startTime: valid.startTime },
+    expected: {
+      endTime: valid.startTime,
+      description: '',
+      location: '',
+      color: DEFAULT_EVENT_VALUES.color,
+      organizer: DEFAULT_EVENT_VALUES.organizer,
+      categories: DEFAULT_EVENT_VALUES.categories,
+      rsvpEnabled: false,
+      attendees: [],
+      rsvpCounts: { going: 0, maybe: 0, notGoing: 0 },
+      attendeeVisibility: 'public',
+    },
+  },
+  {
+    name: 'unknown categories and bad attendees are dropped',
+    value: {
+      ...valid,
+      categories: ['Tech', 'Parties'],
+      attendees: [
+        { userId: 'u1', status: 'going', timestamp: '2026-10-01T00:00:00.000Z' },
+        { userId: 'u2', status: 'interested', timestamp: '2026-10-01T00:00:00.000Z' },
+      ],
+      rsvpCounts: undefined,
+    },
+    expected: { categories: ['Tech'], rsvpCounts: { going: 1, maybe: 0, notGoing: 0 } },
+  },
+  {
+    name: 'an invalid recurring pattern is dropped, not the event',
+    value: { ...valid, recurring: { frequency: 'yearly', interval: 1 } },
+    expected: { recurring: undefined, title: 'Hack Night' },
+  },
+  {
+    name: 'older Slack events were all from public channels',
+    value: { ...valid, id: 'slack-C1-1' },
+    expected: { channelVisibility: 'public' },
+  },
+  {
+    name: 'unknown fields are dropped',
+    value: { ...valid, secret: 'x' },
+    expected: { ...valid },
+  },
+];
+
+for (const c of NORMALIZATIONS) {
+  test(`normalize: ${c.name}`, () => {
+    const event = normalizeEvent(c.value);
+    if (c.expected === null) {
+      assert.strictEqual(event, null);
+      return;
+    }
+    assert.ok(event);
+    assert.deepStrictEqual(validateEvent(event), []);
+    assert.ok(!('secret' in event));
+    for (const [field, value] of Object.entries(c.expected)) {
+      assert.deepStrictEqual(event[field as keyof Event], value, field);
+    }
+  });
+}
+
+test('normalize: defaults from the caller win over the built-in ones', () => {
+  const organizer = { id: 'feed-1', name: 'Campus calendar', type: 'club' as const };
+  const event = normalizeEvent({ id: 'evt-1', title: 'Talk', startTime: valid.startTime }, { organizer, isClubEvent: false });
+  assert.deepStrictEqual(event?.organizer, organizer);
+  assert.strictEqual(event?.isClubEvent, false);
+});
+
+test('normalize: a list keeps only the events', () => {
+  assert.deepStrictEqual(normalizeEvents([valid, null, { id: 'x' }]).map((e) => e.id), ['evt-1']);
+  assert.deepStrictEqual(normalizeEvents({ events: [valid] }), []);
+});